@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { HashRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { User } from './types';
+import { SESSION_USER_KEY } from './constants';
 import * as DB from './services/db';
 import LoginPage from './pages/Login';
 import Layout from './components/Layout';
@@ -10,6 +11,15 @@ import AdminPage from './pages/Admin';
 import PendingApprovalsPage from './pages/PendingApprovals';
 import AdminPasswordManagement from './pages/AdminPasswordManagement';
 import AdminEmployeeManagement from './pages/AdminEmployeeManagement';
+import AdminLeaveTypes from './pages/AdminLeaveTypes';
+import AdminHolidays from './pages/AdminHolidays';
+import AdminBlackouts from './pages/AdminBlackouts';
+import AdminApprovalChains from './pages/AdminApprovalChains';
+import AdminAccruals from './pages/AdminAccruals';
+import AdminYearEnd from './pages/AdminYearEnd';
+import BalanceStatement from './pages/BalanceStatement';
+import AdminLeavePolicies from './pages/AdminLeavePolicies';
+import AdminUnpaidReport from './pages/AdminUnpaidReport';
 import ChangePassword from './components/ChangePassword';
 
 const App: React.FC = () => {
@@ -20,7 +30,7 @@ const App: React.FC = () => {
   // Initialize and check session on mount
   useEffect(() => {
     const checkSession = async () => {
-      const sessionUserId = localStorage.getItem('visionerds_session_user');
+      const sessionUserId = localStorage.getItem(SESSION_USER_KEY);
       if (sessionUserId) {
         const foundUser = await DB.getUserById(sessionUserId);
         if (foundUser) setUser(foundUser);
@@ -32,12 +42,12 @@ const App: React.FC = () => {
 
   const handleLogin = (u: User) => {
     setUser(u);
-    localStorage.setItem('visionerds_session_user', u.id);
+    localStorage.setItem(SESSION_USER_KEY, u.id);
   };
 
   const handleLogout = () => {
     setUser(null);
-    localStorage.removeItem('visionerds_session_user');
+    localStorage.removeItem(SESSION_USER_KEY);
   };
 
   const refreshUser = async () => {
@@ -87,7 +97,25 @@ const App: React.FC = () => {
           path="/history" 
           element={user ? (
             <Layout user={user} onLogout={handleLogout} onChangePassword={() => setShowChangePassword(true)}>
-              <HistoryPage user={user} />
+              <HistoryPage user={user} refreshUser={refreshUser} />
+            </Layout>
+          ) : <Navigate to="/login" />} 
+        />
+
+        <Route 
+          path="/statement" 
+          element={user ? (
+            <Layout user={user} onLogout={handleLogout} onChangePassword={() => setShowChangePassword(true)}>
+              <BalanceStatement currentUser={user} />
+            </Layout>
+          ) : <Navigate to="/login" />} 
+        />
+
+        <Route 
+          path="/statement/:userId" 
+          element={user ? (
+            <Layout user={user} onLogout={handleLogout} onChangePassword={() => setShowChangePassword(true)}>
+              <BalanceStatement currentUser={user} />
             </Layout>
           ) : <Navigate to="/login" />} 
         />
@@ -128,6 +156,78 @@ const App: React.FC = () => {
           ) : <Navigate to="/login" />} 
         />
 
+        <Route 
+          path="/admin/leave-types" 
+          element={user ? (
+            <Layout user={user} onLogout={handleLogout} onChangePassword={() => setShowChangePassword(true)}>
+              <AdminLeaveTypes currentUser={user} />
+            </Layout>
+          ) : <Navigate to="/login" />} 
+        />
+
+        <Route 
+          path="/admin/holidays" 
+          element={user ? (
+            <Layout user={user} onLogout={handleLogout} onChangePassword={() => setShowChangePassword(true)}>
+              <AdminHolidays currentUser={user} />
+            </Layout>
+          ) : <Navigate to="/login" />} 
+        />
+
+        <Route 
+          path="/admin/blackouts" 
+          element={user ? (
+            <Layout user={user} onLogout={handleLogout} onChangePassword={() => setShowChangePassword(true)}>
+              <AdminBlackouts currentUser={user} />
+            </Layout>
+          ) : <Navigate to="/login" />} 
+        />
+
+        <Route 
+          path="/admin/approval-chains" 
+          element={user ? (
+            <Layout user={user} onLogout={handleLogout} onChangePassword={() => setShowChangePassword(true)}>
+              <AdminApprovalChains currentUser={user} />
+            </Layout>
+          ) : <Navigate to="/login" />} 
+        />
+
+        <Route 
+          path="/admin/accruals" 
+          element={user ? (
+            <Layout user={user} onLogout={handleLogout} onChangePassword={() => setShowChangePassword(true)}>
+              <AdminAccruals currentUser={user} />
+            </Layout>
+          ) : <Navigate to="/login" />} 
+        />
+
+        <Route 
+          path="/admin/year-end" 
+          element={user ? (
+            <Layout user={user} onLogout={handleLogout} onChangePassword={() => setShowChangePassword(true)}>
+              <AdminYearEnd currentUser={user} />
+            </Layout>
+          ) : <Navigate to="/login" />} 
+        />
+
+        <Route 
+          path="/admin/policies" 
+          element={user ? (
+            <Layout user={user} onLogout={handleLogout} onChangePassword={() => setShowChangePassword(true)}>
+              <AdminLeavePolicies currentUser={user} />
+            </Layout>
+          ) : <Navigate to="/login" />} 
+        />
+
+        <Route 
+          path="/admin/unpaid-leave" 
+          element={user ? (
+            <Layout user={user} onLogout={handleLogout} onChangePassword={() => setShowChangePassword(true)}>
+              <AdminUnpaidReport currentUser={user} />
+            </Layout>
+          ) : <Navigate to="/login" />} 
+        />
+
         <Route path="*" element={<Navigate to="/" />} />
       </Routes>
 
@@ -0,0 +1,76 @@
+import React from 'react';
+import { LeaveRecord } from '../types';
+import { describeStep } from '../utils/approvals';
+import { CheckCircle, XCircle, Clock, Circle, ArrowUpRight } from 'lucide-react';
+
+interface ApprovalProgressProps {
+  record: Pick<LeaveRecord, 'status' | 'approval_steps' | 'current_step' | 'escalations'>;
+}
+
+/**
+ * Steps of a request's approval chain: who decided each one and when, which
+ * step the request is waiting at, and any escalations for missed deadlines
+ */
+const ApprovalProgress: React.FC<ApprovalProgressProps> = ({ record }) => {
+  const steps = record.approval_steps || [];
+  const escalations = record.escalations || [];
+  // Single-step requests need no breakdown beyond their status
+  const showSteps = steps.length > 1;
+  if (!showSteps && escalations.length === 0) return null;
+
+  const current = record.current_step || 0;
+
+  return (
+    <>
+      {showSteps && (
+        <ol className="mt-1 space-y-0.5 text-xs">
+          {steps.map((step, idx) => {
+            const waiting = record.status === 'pending' && idx === current && step.status === 'pending';
+            return (
+              <li
+                key={idx}
+                className={`flex items-center gap-1.5 ${
+                  step.status === 'approved' ? 'text-green-700'
+                    : step.status === 'rejected' ? 'text-red-700'
+                    : waiting ? 'text-amber-700 font-medium' : 'text-slate-400'
+                }`}
+              >
+                {step.status === 'approved' ? <CheckCircle size={12} />
+                  : step.status === 'rejected' ? <XCircle size={12} />
+                  : waiting ? <Clock size={12} /> : <Circle size={12} />}
+                <span>
+                  {idx + 1}. {describeStep(step)}
+                  {step.decided_at && (
+                    <span className="font-normal text-slate-400">
+                      {' '}· {step.auto_approved ? 'approved automatically' : `${step.status} by ${step.decided_by_name || 'Unknown'}`}
+                      {step.on_behalf_of && ` for ${step.on_behalf_of_name || 'Unknown'}`}, {new Date(step.decided_at).toLocaleString()}
+                    </span>
+                  )}
+                  {waiting && <span className="font-normal"> · waiting</span>}
+                </span>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {escalations.length > 0 && (
+        <ul className="mt-1 space-y-0.5 text-xs text-indigo-700">
+          {escalations.map((e, idx) => (
+            <li key={idx} className="flex items-start gap-1.5">
+              <ArrowUpRight size={12} className="mt-0.5 flex-shrink-0" />
+              <span>
+                {e.step_label}: no decision{e.from_name ? ` from ${e.from_name}` : ''} after {e.waited_days} working day(s),{' '}
+                {e.action === 'auto_approved' ? 'approved automatically' : `escalated to ${e.to_name || 'the administrators'}`}
+                <span className="text-slate-400"> · {new Date(e.at).toLocaleString()}</span>
+                {e.note && <span className="block text-slate-500">{e.note}</span>}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+};
+
+export default ApprovalProgress;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { LeaveAttachment } from '../types';
+import * as DB from '../services/db';
+import { Paperclip, X, ExternalLink } from 'lucide-react';
+
+interface AttachmentListProps {
+  attachments: LeaveAttachment[];
+  onRemove?: (attachment: LeaveAttachment) => void; // Shows a remove button per file
+  disabled?: boolean;
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+/**
+ * Supporting documents on a request. Clicking a file previews it inline:
+ * images are shown directly and PDFs in an embedded viewer.
+ */
+const AttachmentList: React.FC<AttachmentListProps> = ({ attachments, onRemove, disabled = false }) => {
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  if (attachments.length === 0) return null;
+
+  const togglePreview = async (attachment: LeaveAttachment) => {
+    setError(null);
+    if (openId === attachment.id) {
+      setOpenId(null);
+      return;
+    }
+
+    if (!urls[attachment.id]) {
+      try {
+        const url = await DB.getAttachmentUrl(attachment);
+        setUrls(prev => ({ ...prev, [attachment.id]: url }));
+      } catch (err: any) {
+        setError(err.message);
+        return;
+      }
+    }
+    setOpenId(attachment.id);
+  };
+
+  const open = attachments.find(a => a.id === openId);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1.5">
+        {attachments.map(attachment => (
+          <span
+            key={attachment.id}
+            className={`inline-flex items-center gap-1 pl-2 pr-1 py-0.5 rounded border text-xs ${
+              openId === attachment.id ? 'border-primary-300 bg-primary-50 text-primary-700' : 'border-slate-200 bg-white text-slate-600'
+            }`}
+          >
+            <button
+              onClick={() => togglePreview(attachment)}
+              className="inline-flex items-center gap-1 hover:text-primary-600"
+              title={`${attachment.file_name} (${formatSize(attachment.size)})`}
+            >
+              <Paperclip size={12} />
+              <span className="max-w-[10rem] truncate">{attachment.file_name}</span>
+            </button>
+            {onRemove && (
+              <button
+                onClick={() => onRemove(attachment)}
+                disabled={disabled}
+                className="p-0.5 text-slate-400 hover:text-red-600 disabled:opacity-50"
+                title="Remove"
+              >
+                <X size={12} />
+              </button>
+            )}
+          </span>
+        ))}
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {open && urls[open.id] && (
+        <div className="border border-slate-200 rounded-lg overflow-hidden bg-slate-50">
+          <div className="flex items-center justify-between px-3 py-1.5 border-b border-slate-200 text-xs text-slate-500">
+            <span className="truncate">{open.file_name} · {formatSize(open.size)}</span>
+            <a
+              href={urls[open.id]}
+              target="_blank"
+              rel="noreferrer"
+              className="inline-flex items-center gap-1 text-primary-600 hover:text-primary-700 font-medium"
+            >
+              <ExternalLink size={12} />
+              Open
+            </a>
+          </div>
+          {open.content_type.startsWith('image/') ? (
+            <img src={urls[open.id]} alt={open.file_name} className="max-h-96 mx-auto" />
+          ) : (
+            <iframe src={urls[open.id]} title={open.file_name} className="w-full h-96 bg-white" />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentList;
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { LeaveComment } from '../types';
+import * as DB from '../services/db';
+import { MessageSquare, Send } from 'lucide-react';
+
+interface CommentThreadProps {
+  leaveId: string;
+  currentUserId: string;
+  comments: LeaveComment[]; // This request's comments, oldest first
+  onPosted: () => void;
+  placeholder?: string;
+  defaultOpen?: boolean;
+}
+
+/**
+ * Collapsible conversation on a leave request between the employee and
+ * their approver
+ */
+const CommentThread: React.FC<CommentThreadProps> = ({
+  leaveId,
+  currentUserId,
+  comments,
+  onPosted,
+  placeholder = 'Write a comment',
+  defaultOpen = false
+}) => {
+  const [open, setOpen] = useState(defaultOpen);
+  const [draft, setDraft] = useState('');
+  const [posting, setPosting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handlePost = async () => {
+    setError(null);
+    setPosting(true);
+    try {
+      const result = await DB.addLeaveComment(leaveId, currentUserId, draft);
+      if (result.success) {
+        setDraft('');
+        onPosted();
+      } else {
+        setError(result.error || 'Failed to post comment');
+      }
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  return (
+    <div className="text-left">
+      <button
+        onClick={() => setOpen(!open)}
+        className="inline-flex items-center gap-1 text-xs font-medium text-slate-500 hover:text-primary-600"
+      >
+        <MessageSquare size={12} />
+        {comments.length === 0 ? 'Comment' : `${comments.length} comment${comments.length > 1 ? 's' : ''}`}
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-2">
+          {comments.map(comment => (
+            <div
+              key={comment.id}
+              className={`rounded-lg px-3 py-2 text-sm ${
+                comment.author_id === currentUserId ? 'bg-primary-50 border border-primary-100' : 'bg-white border border-slate-200'
+              }`}
+            >
+              <p className="text-xs text-slate-500 mb-0.5">
+                <span className="font-semibold text-slate-700">
+                  {comment.author_id === currentUserId ? 'You' : comment.author_name || 'Unknown'}
+                </span>
+                {' · '}
+                {new Date(comment.created_at).toLocaleString()}
+              </p>
+              <p className="text-slate-700 whitespace-pre-wrap">{comment.body}</p>
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <textarea
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              placeholder={placeholder}
+              rows={1}
+              className="flex-1 border border-slate-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+              disabled={posting}
+            />
+            <button
+              onClick={handlePost}
+              disabled={posting || !draft.trim()}
+              className="self-end inline-flex items-center gap-1 px-3 py-1.5 bg-primary-600 hover:bg-primary-700 text-white text-xs rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Send size={12} />
+              Post
+            </button>
+          </div>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CommentThread;
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { User } from '../types';
+import * as DB from '../services/db';
+import { getLocalDate } from '../utils/leaveDays';
+import { X, AlertCircle, CheckCircle2, Briefcase } from 'lucide-react';
+
+interface CompOffClaimModalProps {
+  user: User;
+  onClose: () => void;
+  onSubmitted: () => void;
+}
+
+const CompOffClaimModal: React.FC<CompOffClaimModalProps> = ({ user, onClose, onSubmitted }) => {
+  const today = getLocalDate();
+  const [formData, setFormData] = useState({ work_date: today, half_day: false, reason: '' });
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    setError(null);
+    setSubmitting(true);
+
+    try {
+      const success = await DB.submitCompOffClaim(user.id, {
+        id: crypto.randomUUID(),
+        user_id: user.id,
+        work_date: formData.work_date,
+        days: formData.half_day ? 0.5 : 1,
+        reason: formData.reason,
+        status: 'pending',
+        timestamp: Date.now()
+      });
+
+      if (success) {
+        setSuccess(user.manager_name
+          ? `Comp-off claim submitted! Waiting for ${user.manager_name}'s approval.`
+          : 'Comp-off claim submitted successfully!');
+        onSubmitted();
+        setTimeout(onClose, 2000);
+      } else {
+        setError('Failed to submit comp-off claim. Please try again.');
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden animate-fade-in-up">
+        <div className="bg-slate-50 px-6 py-4 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+            <Briefcase size={18} className="text-teal-600" />
+            Claim Comp-Off
+          </h3>
+          <button
+            onClick={onClose}
+            disabled={submitting}
+            className="text-slate-400 hover:text-slate-600 disabled:opacity-50"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm flex items-center gap-2">
+              <AlertCircle size={16} /> {error}
+            </div>
+          )}
+          {success && (
+            <div className="bg-green-50 text-green-600 p-3 rounded-lg text-sm flex items-center gap-2">
+              <CheckCircle2 size={16} /> {success}
+            </div>
+          )}
+
+          <p className="text-sm text-slate-500">
+            Worked on a weekend or company holiday? Once approved, the day is added to your comp-off balance.
+          </p>
+
+          <div className="grid grid-cols-2 gap-4 items-end">
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Day Worked</label>
+              <input
+                type="date"
+                max={today}
+                value={formData.work_date}
+                onChange={(e) => setFormData({...formData, work_date: e.target.value})}
+                className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+                disabled={submitting}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-slate-700 pb-2">
+              <input
+                type="checkbox"
+                checked={formData.half_day}
+                onChange={(e) => setFormData({...formData, half_day: e.target.checked})}
+                className="rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                disabled={submitting}
+              />
+              Half day
+            </label>
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Work Done</label>
+            <textarea
+              value={formData.reason}
+              onChange={(e) => setFormData({...formData, reason: e.target.value})}
+              placeholder="e.g. Production release support"
+              rows={3}
+              className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+              disabled={submitting}
+            />
+          </div>
+
+          <button
+            onClick={handleSubmit}
+            disabled={submitting || !formData.reason.trim()}
+            className="w-full bg-primary-600 hover:bg-primary-700 text-white font-bold py-3 rounded-lg shadow-lg shadow-primary-600/20 transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            {submitting ? (
+              <>
+                <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                Submitting...
+              </>
+            ) : (
+              <>
+                <CheckCircle2 size={18} />
+                Submit Claim
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CompOffClaimModal;
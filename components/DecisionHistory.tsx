@@ -0,0 +1,188 @@
+import React, { useState, useEffect } from 'react';
+import { User, ApprovalDecision, ApprovalDecisionFilters, LeaveTypeConfig } from '../types';
+import { LEAVE_STATUS_STYLES } from '../constants';
+import * as DB from '../services/db';
+import { findLeaveType } from '../utils/leaveTypes';
+import { formatLeaveDates } from '../utils/leaveDays';
+import { getTurnaroundHours, formatTurnaround } from '../utils/approvals';
+import { CheckCircle, XCircle, AlertCircle } from 'lucide-react';
+
+interface DecisionHistoryProps {
+  user: User;
+  leaveTypes: LeaveTypeConfig[];
+}
+
+/**
+ * Approve and reject decisions already made, with how long each request
+ * waited. Admins can look across every approver.
+ */
+const DecisionHistory: React.FC<DecisionHistoryProps> = ({ user, leaveTypes }) => {
+  const isAdmin = user.role === 'admin';
+  const [decisions, setDecisions] = useState<ApprovalDecision[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [filters, setFilters] = useState<ApprovalDecisionFilters>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    DB.getUsers().then(setUsers).catch(err => console.error('Error loading users:', err));
+  }, []);
+
+  useEffect(() => {
+    const load = async () => {
+      setError(null);
+      setLoading(true);
+      try {
+        setDecisions(await DB.getApprovalDecisions(user.id, filters));
+      } catch (err: any) {
+        setDecisions([]);
+        setError(err.message || 'Failed to load decisions');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [user.id, filters]);
+
+  const setFilter = (key: keyof ApprovalDecisionFilters, value: string) => {
+    setFilters({ ...filters, [key]: value || undefined });
+  };
+
+  const approved = decisions.filter(d => d.outcome === 'approved').length;
+  // Older requests did not record when they were submitted
+  const timed = decisions.filter(d => d.waiting_since);
+  const averageHours = timed.length === 0 ? null : timed.reduce(
+    (sum, d) => sum + getTurnaroundHours(d.waiting_since!, d.decided_at), 0
+  ) / timed.length;
+
+  const selectClass = 'border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none bg-white';
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-xl border border-slate-200 p-4 grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+        {isAdmin && (
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Approver</label>
+            <select value={filters.approver_id || ''} onChange={e => setFilter('approver_id', e.target.value)} className={`w-full ${selectClass}`}>
+              <option value="">All approvers</option>
+              {users.map(u => <option key={u.id} value={u.id}>{u.id === user.id ? 'Me' : u.name}</option>)}
+            </select>
+          </div>
+        )}
+        <div>
+          <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Employee</label>
+          <select value={filters.user_id || ''} onChange={e => setFilter('user_id', e.target.value)} className={`w-full ${selectClass}`}>
+            <option value="">Everyone</option>
+            {users.map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Type</label>
+          <select value={filters.type || ''} onChange={e => setFilter('type', e.target.value)} className={`w-full ${selectClass}`}>
+            <option value="">All types</option>
+            {leaveTypes.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Outcome</label>
+          <select value={filters.outcome || ''} onChange={e => setFilter('outcome', e.target.value)} className={`w-full ${selectClass}`}>
+            <option value="">Any</option>
+            <option value="approved">Approved</option>
+            <option value="rejected">Rejected</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Decided from</label>
+          <input type="date" value={filters.from || ''} max={filters.to} onChange={e => setFilter('from', e.target.value)} className={`w-full ${selectClass}`} />
+        </div>
+        <div>
+          <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Decided to</label>
+          <input type="date" value={filters.to || ''} min={filters.from} onChange={e => setFilter('to', e.target.value)} className={`w-full ${selectClass}`} />
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 rounded-lg flex items-center gap-2 bg-red-50 text-red-700">
+          <AlertCircle size={20} />
+          {error}
+        </div>
+      )}
+
+      {!loading && decisions.length > 0 && (
+        <p className="text-sm text-slate-500">
+          {decisions.length} decision(s): {approved} approved, {decisions.length - approved} rejected.
+          {averageHours !== null && ` Average turnaround ${formatTurnaround(averageHours)}.`}
+        </p>
+      )}
+
+      <div className="bg-white shadow-sm border border-slate-200 rounded-xl overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-slate-50 border-b border-slate-200">
+                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Employee</th>
+                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Leave</th>
+                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Decision</th>
+                {isAdmin && <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Decided By</th>}
+                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Decided At</th>
+                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Turnaround</th>
+                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Current Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {loading ? (
+                <tr>
+                  <td colSpan={isAdmin ? 7 : 6} className="px-6 py-8 text-center text-slate-400 text-sm">Loading...</td>
+                </tr>
+              ) : decisions.length === 0 ? (
+                <tr>
+                  <td colSpan={isAdmin ? 7 : 6} className="px-6 py-8 text-center text-slate-400 text-sm">
+                    No decisions match these filters.
+                  </td>
+                </tr>
+              ) : (
+                decisions.map(d => (
+                  <tr key={`${d.leave_id}-${d.decided_at}`} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-6 py-4 text-sm font-medium text-slate-900">{d.user_name}</td>
+                    <td className="px-6 py-4">
+                      <p className="text-sm text-slate-900">{findLeaveType(leaveTypes, d.type).label}</p>
+                      <p className="text-xs text-slate-500">{formatLeaveDates(d)} · {d.amount} day(s)</p>
+                    </td>
+                    <td className="px-6 py-4">
+                      <p className={`text-sm font-medium flex items-center gap-1.5 ${d.outcome === 'approved' ? 'text-green-700' : 'text-red-700'}`}>
+                        {d.outcome === 'approved' ? <CheckCircle size={14} /> : <XCircle size={14} />}
+                        {d.outcome === 'approved' ? 'Approved' : 'Rejected'}
+                      </p>
+                      {d.step_label && <p className="text-xs text-slate-500">{d.step_label}</p>}
+                      {d.rejection_reason && <p className="text-xs text-slate-500 italic">"{d.rejection_reason}"</p>}
+                    </td>
+                    {isAdmin && (
+                      <td className="px-6 py-4 text-sm text-slate-700">
+                        {d.auto_approved ? 'Automatically' : d.decided_by_name || 'Unknown'}
+                        {d.on_behalf_of && <p className="text-xs text-slate-500">for {d.on_behalf_of_name || 'Unknown'}</p>}
+                      </td>
+                    )}
+                    <td className="px-6 py-4 text-sm text-slate-600">
+                      {new Date(d.decided_at).toLocaleString()}
+                      {!isAdmin && d.on_behalf_of === user.id && (
+                        <p className="text-xs text-slate-500">by {d.decided_by_name || 'Unknown'} for you</p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-slate-700">{d.waiting_since ? formatTurnaround(getTurnaroundHours(d.waiting_since, d.decided_at)) : '—'}</td>
+                    <td className="px-6 py-4">
+                      <span className={`text-xs font-medium ${LEAVE_STATUS_STYLES[d.status].text}`}>
+                        {LEAVE_STATUS_STYLES[d.status].label}
+                      </span>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DecisionHistory;
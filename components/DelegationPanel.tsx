@@ -0,0 +1,165 @@
+import React, { useState, useEffect } from 'react';
+import { User, ApprovalDelegation } from '../types';
+import * as DB from '../services/db';
+import { formatLeaveDates, getLocalDate } from '../utils/leaveDays';
+import { UserCog, Plus, X } from 'lucide-react';
+
+interface DelegationPanelProps {
+  user: User;
+  onChanged: () => void; // Reload the queue, since delegations change what it contains
+}
+
+/**
+ * Hand approvals to a colleague for a date range. Managers delegate their own
+ * approvals; admins can delegate any manager's and see every delegation.
+ */
+const DelegationPanel: React.FC<DelegationPanelProps> = ({ user, onChanged }) => {
+  const isAdmin = user.role === 'admin';
+  const [delegations, setDelegations] = useState<ApprovalDelegation[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState({ manager_id: user.id, delegate_id: '', start_date: '', end_date: '' });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDelegations = async () => {
+    setDelegations(await DB.getApprovalDelegations(isAdmin ? undefined : user.id));
+  };
+
+  useEffect(() => {
+    loadDelegations();
+    DB.getUsers().then(setUsers).catch(err => console.error('Error loading users:', err));
+  }, [user.id]);
+
+  const today = getLocalDate();
+  const current = delegations.filter(d => d.end_date >= today);
+
+  const handleAdd = async () => {
+    setError(null);
+    setSaving(true);
+    try {
+      const result = await DB.addApprovalDelegation(form, user.id);
+      if (result.success) {
+        setForm({ manager_id: user.id, delegate_id: '', start_date: '', end_date: '' });
+        await loadDelegations();
+        onChanged();
+      } else {
+        setError(result.error || 'Failed to save delegation');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (delegation: ApprovalDelegation) => {
+    setError(null);
+    if (!(await DB.deleteApprovalDelegation(delegation.id))) {
+      setError('Failed to remove delegation');
+      return;
+    }
+    await loadDelegations();
+    onChanged();
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2 text-sm text-slate-700">
+          <UserCog size={16} className="text-slate-400" />
+          {current.length === 0 ? (
+            <span>No approvals are delegated.</span>
+          ) : (
+            <span className="space-x-3">
+              {current.map(d => (
+                <span key={d.id} className="inline-flex items-center gap-1">
+                  {d.delegate_id === user.id
+                    ? <>You approve for <strong>{d.manager_name || 'Unknown'}</strong></>
+                    : <><strong>{d.delegate_name || 'Unknown'}</strong> approves for {d.manager_id === user.id ? 'you' : d.manager_name || 'Unknown'}</>}
+                  <span className="text-xs text-slate-400">({formatLeaveDates({ date: d.start_date, end_date: d.end_date })})</span>
+                  {(isAdmin || d.manager_id === user.id) && (
+                    <button
+                      onClick={() => handleRemove(d)}
+                      className="text-slate-400 hover:text-red-600"
+                      title="End delegation"
+                    >
+                      <X size={14} />
+                    </button>
+                  )}
+                </span>
+              ))}
+            </span>
+          )}
+        </div>
+        <button
+          onClick={() => setOpen(!open)}
+          className="inline-flex items-center gap-1 text-sm text-primary-600 hover:text-primary-700 font-medium whitespace-nowrap"
+        >
+          <Plus size={14} />
+          Delegate
+        </button>
+      </div>
+
+      {open && (
+        <div className="mt-3 pt-3 border-t border-slate-100 flex flex-col md:flex-row md:items-end gap-2">
+          {isAdmin && (
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Approvals of</label>
+              <select
+                value={form.manager_id}
+                onChange={e => setForm({ ...form, manager_id: e.target.value })}
+                className="border border-slate-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none bg-white"
+                disabled={saving}
+              >
+                {users.map(u => <option key={u.id} value={u.id}>{u.id === user.id ? 'Me' : u.name}</option>)}
+              </select>
+            </div>
+          )}
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Delegate to</label>
+            <select
+              value={form.delegate_id}
+              onChange={e => setForm({ ...form, delegate_id: e.target.value })}
+              className="border border-slate-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none bg-white"
+              disabled={saving}
+            >
+              <option value="">Choose...</option>
+              {users.filter(u => u.id !== form.manager_id).map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">From</label>
+            <input
+              type="date"
+              value={form.start_date}
+              onChange={e => setForm({ ...form, start_date: e.target.value })}
+              className="border border-slate-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+              disabled={saving}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">To</label>
+            <input
+              type="date"
+              min={form.start_date}
+              value={form.end_date}
+              onChange={e => setForm({ ...form, end_date: e.target.value })}
+              className="border border-slate-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+              disabled={saving}
+            />
+          </div>
+          <button
+            onClick={handleAdd}
+            disabled={saving || !form.delegate_id || !form.start_date || !form.end_date}
+            className="px-4 py-1.5 bg-primary-600 hover:bg-primary-700 text-white text-sm rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default DelegationPanel;
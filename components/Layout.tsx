@@ -10,7 +10,16 @@ import {
   Clock,
   Lock,
   Key,
-  Users
+  Users,
+  Tags,
+  CalendarDays,
+  CalendarX,
+  Workflow,
+  TrendingUp,
+  CalendarCheck,
+  ScrollText,
+  ShieldCheck,
+  Receipt
 } from 'lucide-react';
 import { User } from '../types';
 import * as DB from '../services/db';
@@ -26,6 +35,9 @@ const Layout: React.FC<LayoutProps> = ({ children, user, onLogout, onChangePassw
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [pendingApprovalsCount, setPendingApprovalsCount] = useState(0);
   const [myPendingCount, setMyPendingCount] = useState(0);
+  // Admins and line managers always approve; others only while delegated to or named in a chain
+  const [hasApprovalDuties, setHasApprovalDuties] = useState(false);
+  const isApprover = user.role === 'admin' || !!user.is_manager || hasApprovalDuties;
   const location = useLocation();
 
   const isActive = (path: string) => location.pathname === path;
@@ -37,11 +49,24 @@ const Layout: React.FC<LayoutProps> = ({ children, user, onLogout, onChangePassw
       const userPending = user.history.filter(h => h.status === 'pending').length;
       setMyPendingCount(userPending);
 
-      // Count pending approvals for admin
-      if (user.role === 'admin') {
+      // Count pending approvals for approvers
+      let approver = user.role === 'admin' || !!user.is_manager;
+      if (!approver) {
         try {
-          const pendingApprovals = await DB.getPendingApprovals(user.id);
-          setPendingApprovalsCount(pendingApprovals.length);
+          approver = await DB.hasApprovalDuties(user.id);
+        } catch (err) {
+          console.error('Error checking approval duties:', err);
+        }
+        setHasApprovalDuties(approver);
+      }
+
+      if (approver) {
+        try {
+          const [pendingApprovals, pendingClaims] = await Promise.all([
+            DB.getPendingApprovals(user.id),
+            DB.getPendingCompOffClaims(user.id)
+          ]);
+          setPendingApprovalsCount(pendingApprovals.length + pendingClaims.length);
         } catch (err) {
           console.error('Error loading pending approvals:', err);
         }
@@ -78,10 +103,15 @@ const Layout: React.FC<LayoutProps> = ({ children, user, onLogout, onChangePassw
       label: 'Leave History', 
       icon: History 
     },
+    {
+      path: '/statement',
+      label: 'Balance Statement',
+      icon: ScrollText
+    },
   ];
 
-  // Add Pending Approvals for admins
-  if (user.role === 'admin') {
+  // Add Pending Approvals for admins, line managers and anyone else with approvals to make
+  if (isApprover) {
     navItems.push({ 
       path: '/approvals', 
       label: 'Pending Approvals', 
@@ -95,6 +125,14 @@ const Layout: React.FC<LayoutProps> = ({ children, user, onLogout, onChangePassw
     navItems.push(
       { path: '/admin', label: 'Enroll User', icon: UserPlus },
       { path: '/admin/employees', label: 'Manage Employees', icon: Users },
+      { path: '/admin/leave-types', label: 'Leave Types', icon: Tags },
+      { path: '/admin/holidays', label: 'Holidays', icon: CalendarDays },
+      { path: '/admin/blackouts', label: 'Blackout Periods', icon: CalendarX },
+      { path: '/admin/accruals', label: 'Leave Accrual', icon: TrendingUp },
+      { path: '/admin/year-end', label: 'Year-End Close', icon: CalendarCheck },
+      { path: '/admin/policies', label: 'Leave Policies', icon: ShieldCheck },
+      { path: '/admin/approval-chains', label: 'Approval Chains', icon: Workflow },
+      { path: '/admin/unpaid-leave', label: 'Unpaid Leave', icon: Receipt },
       { path: '/admin/passwords', label: 'Password Management', icon: Lock }
     );
   }
@@ -153,7 +191,7 @@ const Layout: React.FC<LayoutProps> = ({ children, user, onLogout, onChangePassw
             </div>
             <div className="overflow-hidden">
               <p className="text-sm font-medium text-white truncate">{user.name}</p>
-              <p className="text-xs text-slate-400 truncate capitalize">{user.role}</p>
+              <p className="text-xs text-slate-400 truncate capitalize">{user.role === 'employee' && user.is_manager ? 'manager' : user.role}</p>
             </div>
           </div>
           
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { LeaveRecord } from '../types';
+import * as DB from '../services/db';
+import { tracksBalance } from '../utils/leaveTypes';
+import { getLocalDate } from '../utils/leaveDays';
+import { Undo2, Ban, Edit2 } from 'lucide-react';
+
+interface LeaveActionsProps {
+  userId: string;
+  record: LeaveRecord;
+  onDone: (result: { type: 'success' | 'error', text: string }) => void;
+  onEdit?: (record: LeaveRecord) => void; // Shows an Edit button for pending requests
+}
+
+/**
+ * Edit or withdraw a pending request, or cancel approved leave that has not
+ * started yet. Renders nothing for records that can no longer be changed.
+ */
+const LeaveActions: React.FC<LeaveActionsProps> = ({ userId, record, onDone, onEdit }) => {
+  const [processing, setProcessing] = useState(false);
+
+  const today = getLocalDate();
+  const canWithdraw = record.status === 'pending';
+  const canCancel = record.status === 'approved' && record.date > today;
+
+  if (!canWithdraw && !canCancel) return null;
+
+  const handleWithdraw = async () => {
+    if (!window.confirm('Withdraw this leave request?')) return;
+
+    setProcessing(true);
+    try {
+      const result = await DB.withdrawLeaveRequest(userId, record.id);
+      onDone(result.success
+        ? { type: 'success', text: 'Leave request withdrawn' }
+        : { type: 'error', text: result.error || 'Failed to withdraw leave request' });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    const reason = window.prompt('Cancel this approved leave? Add a reason for your approver (optional).');
+    if (reason === null) return;
+
+    setProcessing(true);
+    try {
+      const result = await DB.cancelLeave(userId, record.id, reason.trim() || undefined);
+      if (!result.success) {
+        onDone({ type: 'error', text: result.error || 'Failed to cancel leave' });
+      } else if (result.status === 'cancellation_requested') {
+        onDone({ type: 'success', text: 'Cancellation sent to your approver. The leave stays booked until they confirm.' });
+      } else {
+        onDone({ type: 'success', text: tracksBalance(record.type)
+          ? `Leave cancelled and ${record.amount} day(s) credited back`
+          : 'Leave cancelled' });
+      }
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <span className="inline-flex gap-1.5">
+      {canWithdraw && onEdit && (
+        <button
+          onClick={() => onEdit(record)}
+          disabled={processing}
+          className="inline-flex items-center gap-1 px-2.5 py-1 border border-slate-300 text-slate-600 hover:bg-white hover:text-primary-600 hover:border-primary-200 text-xs rounded-lg font-medium transition-colors disabled:opacity-50"
+        >
+          <Edit2 size={12} />
+          Edit
+        </button>
+      )}
+      <button
+        onClick={canWithdraw ? handleWithdraw : handleCancel}
+        disabled={processing}
+        className="inline-flex items-center gap-1 px-2.5 py-1 border border-slate-300 text-slate-600 hover:bg-white hover:text-red-600 hover:border-red-200 text-xs rounded-lg font-medium transition-colors disabled:opacity-50"
+      >
+        {canWithdraw ? <Undo2 size={12} /> : <Ban size={12} />}
+        {canWithdraw ? 'Withdraw' : 'Cancel'}
+      </button>
+    </span>
+  );
+};
+
+export default LeaveActions;
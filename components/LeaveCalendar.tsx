@@ -0,0 +1,142 @@
+import React, { useState, useEffect } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { WorkWeek } from '../types';
+
+export interface CalendarMarker {
+  date: string; // YYYY-MM-DD
+  label: string;
+  tone: 'holiday' | 'blackout' | 'booked'; // The first marker on a day sets its color
+}
+
+interface LeaveCalendarProps {
+  start: string;
+  end: string;
+  markers?: CalendarMarker[];
+  workWeek?: WorkWeek; // Non-working days are greyed out
+  onSelect: (start: string, end: string) => void;
+  disabled?: boolean;
+}
+
+const WEEKDAYS = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
+
+const TONE_CLASSES: Record<CalendarMarker['tone'], string> = {
+  holiday: 'bg-purple-100 text-purple-700',
+  blackout: 'bg-red-100 text-red-700',
+  booked: 'bg-sky-100 text-sky-700'
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const LeaveCalendar: React.FC<LeaveCalendarProps> = ({ start, end, markers = [], workWeek, onSelect, disabled }) => {
+  const [month, setMonth] = useState(() => start.slice(0, 7));
+  // True after the first click of a range selection
+  const [pickingEnd, setPickingEnd] = useState(false);
+
+  // Follow the start date when it is typed in elsewhere
+  useEffect(() => {
+    setMonth(start.slice(0, 7));
+  }, [start]);
+
+  const [year, monthIndex] = month.split('-').map(Number);
+  const firstWeekday = new Date(Date.UTC(year, monthIndex - 1, 1)).getUTCDay();
+  const daysInMonth = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+
+  const shiftMonth = (delta: number) => {
+    const d = new Date(Date.UTC(year, monthIndex - 1 + delta, 1));
+    setMonth(`${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}`);
+  };
+
+  const handleClick = (date: string) => {
+    if (disabled) return;
+    if (pickingEnd && date >= start) {
+      onSelect(start, date);
+      setPickingEnd(false);
+    } else {
+      onSelect(date, date);
+      setPickingEnd(true);
+    }
+  };
+
+  const markersByDate = markers.reduce((acc, m) => {
+    (acc[m.date] = acc[m.date] || []).push(m);
+    return acc;
+  }, {} as Record<string, CalendarMarker[]>);
+
+  const cells: (string | null)[] = [
+    ...Array(firstWeekday).fill(null),
+    ...Array.from({ length: daysInMonth }, (_, i) => `${month}-${pad(i + 1)}`)
+  ];
+
+  // Consecutive markers with the same label are listed once, as a range
+  const monthMarkers = markers
+    .filter(m => m.date.startsWith(month))
+    .reduce((acc, m) => {
+      const last = acc[acc.length - 1];
+      if (last && last.tone === m.tone && last.label === m.label) {
+        last.end = m.date;
+      } else {
+        acc.push({ ...m, end: m.date });
+      }
+      return acc;
+    }, [] as (CalendarMarker & { end: string })[]);
+
+  return (
+    <div className="border border-slate-200 rounded-lg p-3">
+      <div className="flex items-center justify-between mb-2">
+        <button type="button" onClick={() => shiftMonth(-1)} className="p-1 text-slate-500 hover:bg-slate-100 rounded">
+          <ChevronLeft size={16} />
+        </button>
+        <span className="text-sm font-semibold text-slate-700">
+          {new Date(Date.UTC(year, monthIndex - 1, 1)).toLocaleDateString(undefined, { month: 'long', year: 'numeric', timeZone: 'UTC' })}
+        </span>
+        <button type="button" onClick={() => shiftMonth(1)} className="p-1 text-slate-500 hover:bg-slate-100 rounded">
+          <ChevronRight size={16} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center">
+        {WEEKDAYS.map(d => (
+          <div key={d} className="text-[10px] font-semibold text-slate-400 uppercase">{d}</div>
+        ))}
+        {cells.map((date, idx) => {
+          if (!date) return <div key={`empty-${idx}`} />;
+          const dayMarkers = markersByDate[date] || [];
+          const inRange = date >= start && date <= end;
+          const isOffDay = workWeek ? !workWeek.includes((firstWeekday + Number(date.slice(8)) - 1) % 7) : false;
+          const toneClass = dayMarkers.length > 0
+            ? TONE_CLASSES[dayMarkers[0].tone]
+            : isOffDay ? 'bg-slate-50 text-slate-300' : 'text-slate-700';
+          return (
+            <button
+              key={date}
+              type="button"
+              onClick={() => handleClick(date)}
+              disabled={disabled}
+              title={dayMarkers.map(m => m.label).join(', ') || undefined}
+              className={`
+                h-8 text-xs rounded transition-colors
+                ${inRange ? 'ring-2 ring-primary-500 font-bold' : 'hover:bg-slate-100'}
+                ${toneClass}
+              `}
+            >
+              {Number(date.slice(8))}
+            </button>
+          );
+        })}
+      </div>
+
+      {monthMarkers.length > 0 && (
+        <div className="mt-2 space-y-0.5">
+          {monthMarkers.map(m => (
+            <p key={`${m.tone}-${m.date}`} className="text-[11px] text-slate-500">
+              <span className={`inline-block w-2 h-2 rounded-full mr-1.5 ${TONE_CLASSES[m.tone].split(' ')[0]}`} />
+              {m.end === m.date ? m.date : `${m.date} → ${m.end}`}: {m.label}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LeaveCalendar;
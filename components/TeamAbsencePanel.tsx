@@ -0,0 +1,72 @@
+import React from 'react';
+import { PendingLeaveRequest, TeamAvailability, LeaveTypeConfig } from '../types';
+import { LEAVE_STATUS_STYLES } from '../constants';
+import { findLeaveType } from '../utils/leaveTypes';
+import { formatLeaveDates } from '../utils/leaveDays';
+import { findTeamAbsences, findStaffingBreaches } from '../utils/staffing';
+import { Users, AlertTriangle } from 'lucide-react';
+
+interface TeamAbsencePanelProps {
+  request: PendingLeaveRequest;
+  team: TeamAvailability;
+  leaveTypes: LeaveTypeConfig[];
+}
+
+/**
+ * Who else in the team is off during a request, and whether approving it
+ * would take the team below its minimum staffing
+ */
+const TeamAbsencePanel: React.FC<TeamAbsencePanelProps> = ({ request, team, leaveTypes }) => {
+  const absences = findTeamAbsences(request, team.absences);
+  const breaches = findStaffingBreaches(request, team);
+
+  if (absences.length === 0 && breaches.length === 0) {
+    return (
+      <p className="mb-3 text-xs text-slate-400 flex items-center gap-1.5">
+        <Users size={12} />
+        No one else in the team is off on these dates
+      </p>
+    );
+  }
+
+  const blocking = team.rule?.mode === 'block';
+
+  return (
+    <div className="mb-3 space-y-2">
+      {breaches.length > 0 && (
+        <div className={`p-3 rounded-lg border text-sm ${
+          blocking ? 'bg-red-50 border-red-100 text-red-800' : 'bg-amber-50 border-amber-100 text-amber-800'
+        }`}>
+          <p className="font-medium flex items-center gap-1.5">
+            <AlertTriangle size={14} />
+            {blocking ? 'Cannot be approved: ' : ''}below the minimum of {team.rule!.min_present} working
+          </p>
+          <ul className="mt-1 space-y-0.5 text-xs">
+            {breaches.map(b => (
+              <li key={b.date}>{b.date}: {b.present} of {team.team_size} in</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {absences.length > 0 && (
+        <div className="p-3 rounded-lg bg-slate-50 border border-slate-100 text-sm">
+          <p className="font-medium text-slate-700 flex items-center gap-1.5">
+            <Users size={14} />
+            Also off during these dates
+          </p>
+          <ul className="mt-1 space-y-0.5 text-xs text-slate-600">
+            {absences.map(a => (
+              <li key={a.leave_id}>
+                <strong>{a.user_name}</strong>: {formatLeaveDates(a)}, {findLeaveType(leaveTypes, a.type).label}
+                <span className={`ml-1 ${LEAVE_STATUS_STYLES[a.status].text}`}>({LEAVE_STATUS_STYLES[a.status].label.toLowerCase()})</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TeamAbsencePanel;
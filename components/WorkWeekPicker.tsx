@@ -0,0 +1,40 @@
+import React from 'react';
+import { WorkWeek } from '../types';
+import { WEEKDAY_LABELS } from '../constants';
+
+interface WorkWeekPickerProps {
+  value: WorkWeek;
+  onChange: (workWeek: WorkWeek) => void;
+  disabled?: boolean;
+}
+
+const WorkWeekPicker: React.FC<WorkWeekPickerProps> = ({ value, onChange, disabled }) => {
+  const toggleDay = (day: number) => {
+    const next = value.includes(day) ? value.filter(d => d !== day) : [...value, day];
+    onChange(next.sort((a, b) => a - b));
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {WEEKDAY_LABELS.map((label, day) => (
+        <button
+          key={label}
+          type="button"
+          onClick={() => toggleDay(day)}
+          disabled={disabled}
+          className={`
+            w-12 py-1.5 text-xs font-medium rounded-lg border transition-all
+            ${value.includes(day)
+              ? 'bg-primary-50 border-primary-500 text-primary-700 ring-1 ring-primary-500'
+              : 'border-slate-200 text-slate-400 hover:border-slate-300 hover:bg-slate-50'}
+            disabled:opacity-50 disabled:cursor-not-allowed
+          `}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default WorkWeekPicker;
\ No newline at end of file
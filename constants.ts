@@ -1,4 +1,4 @@
-import { User } from './types';
+import { User, LeaveTypeConfig, LeaveTypeColor, LeaveStatus, WorkWeek, ProrationRounding, CancellationPolicy, ApprovalStepConfig, ApprovalStepApprover, ApprovalSlaPolicy, ApprovalSlaAction } from './types';
 
 // Simulating the "JSON file" requirement
 export const INITIAL_USERS: User[] = [
@@ -32,7 +32,8 @@ export const INITIAL_USERS: User[] = [
         date: '2023-10-02',
         amount: 0.5,
         type: 'casual',
-        timestamp: new Date('2023-10-02').getTime()
+        timestamp: new Date('2023-10-02').getTime(),
+        status: 'approved'
       }
     ]
   }
@@ -40,8 +41,94 @@ export const INITIAL_USERS: User[] = [
 
 export const STORAGE_KEY = 'visionerds_hr_db_v1';
 
-export const LEAVE_TYPES: { id: 'casual' | 'sick' | 'annual'; label: string; color: string }[] = [
-  { id: 'casual', label: 'Casual Leave', color: 'bg-blue-500' },
-  { id: 'sick', label: 'Sick Leave', color: 'bg-red-500' },
-  { id: 'annual', label: 'Annual Leave', color: 'bg-green-500' },
-];
\ No newline at end of file
+// Signed-in user's id, kept in localStorage
+export const SESSION_USER_KEY = 'visionerds_session_user';
+
+// Built-in catalog used until an admin saves their own leave types. It sets no
+// notice, backdating or document rules; admins opt in to those per type.
+export const DEFAULT_LEAVE_TYPES: LeaveTypeConfig[] = [
+  { id: 'casual', label: 'Casual Leave', color: 'blue', default_entitlement: 10, accrual_rate: 0, carry_forward_max: 0, year_start_grant: true, attachment_required_after: null, min_notice_days: null, max_backdate_days: null, sort_order: 1 },
+  { id: 'sick', label: 'Sick Leave', color: 'red', default_entitlement: 10, accrual_rate: 0, carry_forward_max: 0, year_start_grant: true, attachment_required_after: null, min_notice_days: null, max_backdate_days: null, sort_order: 2 },
+  { id: 'annual', label: 'Annual Leave', color: 'green', default_entitlement: 20, accrual_rate: 0, carry_forward_max: 5, year_start_grant: true, attachment_required_after: null, min_notice_days: null, max_backdate_days: null, sort_order: 3 },
+  { id: 'comp_off', label: 'Comp-Off', color: 'teal', default_entitlement: 0, accrual_rate: 0, carry_forward_max: null, year_start_grant: false, attachment_required_after: null, min_notice_days: null, max_backdate_days: null, sort_order: 4 },
+  { id: 'unpaid', label: 'Unpaid Leave', color: 'amber', default_entitlement: 0, accrual_rate: 0, carry_forward_max: null, year_start_grant: false, attachment_required_after: null, min_notice_days: null, max_backdate_days: null, sort_order: 5 },
+];
+
+// Earned through approved comp-off claims; always kept in the catalog
+export const COMP_OFF_LEAVE_TYPE = 'comp_off';
+
+// Leave without pay: no balance, reported per month for payroll; always kept in the catalog
+export const UNPAID_LEAVE_TYPE = 'unpaid';
+
+// Types the portal relies on, which admins can edit but not delete
+export const SYSTEM_LEAVE_TYPES = [COMP_OFF_LEAVE_TYPE, UNPAID_LEAVE_TYPE];
+
+// Days after the day worked that a comp-off credit can be used; 0 = never expires
+export const DEFAULT_COMP_OFF_EXPIRY_DAYS = 60;
+
+// Supporting documents: PDFs and images up to 5 MB
+export const ATTACHMENT_CONTENT_TYPES = ['application/pdf', 'image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+// Class names are spelled out in full so the Tailwind CDN picks them up
+export const LEAVE_TYPE_COLORS: Record<LeaveTypeColor, { bar: string; badge: string; chip: string; text: string; hex: string }> = {
+  blue: { bar: 'bg-blue-500', badge: 'bg-blue-100 text-blue-800', chip: 'bg-blue-50 text-blue-700', text: 'text-blue-500', hex: '#3b82f6' },
+  red: { bar: 'bg-red-500', badge: 'bg-red-100 text-red-800', chip: 'bg-red-50 text-red-700', text: 'text-red-500', hex: '#ef4444' },
+  green: { bar: 'bg-green-500', badge: 'bg-green-100 text-green-800', chip: 'bg-green-50 text-green-700', text: 'text-green-500', hex: '#22c55e' },
+  purple: { bar: 'bg-purple-500', badge: 'bg-purple-100 text-purple-800', chip: 'bg-purple-50 text-purple-700', text: 'text-purple-500', hex: '#a855f7' },
+  amber: { bar: 'bg-amber-500', badge: 'bg-amber-100 text-amber-800', chip: 'bg-amber-50 text-amber-700', text: 'text-amber-500', hex: '#f59e0b' },
+  teal: { bar: 'bg-teal-500', badge: 'bg-teal-100 text-teal-800', chip: 'bg-teal-50 text-teal-700', text: 'text-teal-500', hex: '#14b8a6' },
+  pink: { bar: 'bg-pink-500', badge: 'bg-pink-100 text-pink-800', chip: 'bg-pink-50 text-pink-700', text: 'text-pink-500', hex: '#ec4899' },
+  slate: { bar: 'bg-slate-500', badge: 'bg-slate-100 text-slate-800', chip: 'bg-slate-50 text-slate-700', text: 'text-slate-500', hex: '#64748b' },
+};
+
+export const LEAVE_STATUS_STYLES: Record<LeaveStatus, { label: string; badge: string; text: string; dot: string }> = {
+  pending: { label: 'Pending', badge: 'bg-yellow-100 text-yellow-700', text: 'text-yellow-600', dot: 'bg-yellow-500' },
+  approved: { label: 'Approved', badge: 'bg-green-100 text-green-700', text: 'text-green-600', dot: 'bg-green-600' },
+  rejected: { label: 'Rejected', badge: 'bg-red-100 text-red-700', text: 'text-red-600', dot: 'bg-red-600' },
+  cancelled: { label: 'Cancelled', badge: 'bg-slate-100 text-slate-600', text: 'text-slate-500', dot: 'bg-slate-400' },
+  cancellation_requested: { label: 'Cancellation Pending', badge: 'bg-orange-100 text-orange-700', text: 'text-orange-600', dot: 'bg-orange-500' },
+};
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = 'approval';
+
+// Requests no approval chain matches need only the line manager
+export const DEFAULT_APPROVAL_STEPS: ApprovalStepConfig[] = [{ label: 'Line manager', approver: 'manager' }];
+
+export const APPROVAL_APPROVER_LABELS: Record<ApprovalStepApprover, string> = {
+  manager: "Requester's line manager",
+  admin: 'Any administrator',
+  user: 'A specific person'
+};
+
+export const DEFAULT_APPROVAL_SLA: ApprovalSlaPolicy = { enabled: false, after_days: 3, action: 'escalate_manager' };
+
+export const APPROVAL_SLA_ACTION_LABELS: Record<ApprovalSlaAction, { label: string; description: string }> = {
+  escalate_manager: {
+    label: "Escalate to the approver's manager",
+    description: "The step moves up to whoever the approver reports to, and on up each time it waits again. Approvers with no manager hand over to the administrators."
+  },
+  escalate_hr: {
+    label: 'Escalate to HR',
+    description: 'The step is handed to the administrators, any of whom can decide it.'
+  },
+  auto_approve: {
+    label: 'Approve automatically',
+    description: 'The step is approved. Requests that cannot be approved yet, e.g. missing a document or breaching a blocking staffing rule, go to the administrators instead.'
+  }
+};
+
+// Sunday to Thursday, used until an admin sets a company default
+export const DEFAULT_WORK_WEEK: WorkWeek = [0, 1, 2, 3, 4];
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const DEFAULT_PRORATION_ROUNDING: ProrationRounding = 'half_day';
+
+export const PRORATION_ROUNDING_LABELS: Record<ProrationRounding, string> = {
+  none: 'No rounding (2 decimals)',
+  half_day: 'Nearest half day',
+  nearest: 'Nearest whole day',
+  up: 'Round up to a whole day',
+  down: 'Round down to a whole day'
+};
\ No newline at end of file
@@ -1,28 +1,47 @@
 import React, { useState, useEffect } from 'react';
-import { User } from '../types';
+import { User, LeaveTypeConfig, UserBalance, ProrationRounding } from '../types';
+import { DEFAULT_LEAVE_TYPES, DEFAULT_PRORATION_ROUNDING, PRORATION_ROUNDING_LABELS } from '../constants';
 import * as DB from '../services/db';
-import { UserPlus, CheckCircle2, AlertCircle, Eye, EyeOff, RefreshCw } from 'lucide-react';
+import { prorateEntitlement, tracksBalance } from '../utils/leaveTypes';
+import { getLocalDate } from '../utils/leaveDays';
+import { UserPlus, CheckCircle2, AlertCircle, Eye, EyeOff, RefreshCw, Calculator } from 'lucide-react';
 import { validatePasswordStrength, generateStrongPassword, getPasswordStrength } from '../utils/password';
 
 interface AdminProps {
   currentUser: User;
 }
 
+// Only yearly entitlements are pro-rated; one-off grants are given in full
+const buildProratedBalance = (types: LeaveTypeConfig[], joiningDate: string, rounding: ProrationRounding): UserBalance => {
+  return types.reduce((acc, t) => ({
+    ...acc,
+    [t.id]: t.year_start_grant && joiningDate
+      ? prorateEntitlement(t.default_entitlement, joiningDate, rounding).days
+      : t.default_entitlement
+  }), {} as UserBalance);
+};
+
+const today = () => getLocalDate();
+
 const AdminPage: React.FC<AdminProps> = ({ currentUser }) => {
   const [formData, setFormData] = useState({
     name: '',
     email: '',
     password: '',
     role: 'employee' as 'admin' | 'employee',
-    casual: 10,
-    sick: 10,
-    annual: 20,
+    joining_date: today(),
+    balance: buildProratedBalance(DEFAULT_LEAVE_TYPES, today(), DEFAULT_PRORATION_ROUNDING),
     reporting_to: ''
   });
   const [showPassword, setShowPassword] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
   const [loading, setLoading] = useState(false);
   const [allUsers, setAllUsers] = useState<User[]>([]);
+  const [leaveTypes, setLeaveTypes] = useState<LeaveTypeConfig[]>(DEFAULT_LEAVE_TYPES);
+  const [rounding, setRounding] = useState<ProrationRounding>(DEFAULT_PRORATION_ROUNDING);
+
+  // Unpaid leave is not a balance, so it has no initial value
+  const balanceTypes = leaveTypes.filter(t => tracksBalance(t));
 
   const passwordStrength = getPasswordStrength(formData.password);
   const validation = validatePasswordStrength(formData.password);
@@ -34,6 +53,15 @@ const AdminPage: React.FC<AdminProps> = ({ currentUser }) => {
       setAllUsers(users);
     };
     loadUsers();
+
+    // Load the leave type catalog and rounding rule for initial balances
+    const loadLeaveTypes = async () => {
+      const [types, roundingRule] = await Promise.all([DB.getLeaveTypes(), DB.getProrationRounding()]);
+      setLeaveTypes(types);
+      setRounding(roundingRule);
+      setFormData(prev => ({ ...prev, balance: buildProratedBalance(types, prev.joining_date, roundingRule) }));
+    };
+    loadLeaveTypes();
   }, []);
 
   if (currentUser.role !== 'admin') {
@@ -48,6 +76,10 @@ const AdminPage: React.FC<AdminProps> = ({ currentUser }) => {
     );
   }
 
+  const handleJoiningDateChange = (joining_date: string) => {
+    setFormData({...formData, joining_date, balance: buildProratedBalance(leaveTypes, joining_date, rounding)});
+  };
+
   const handleGeneratePassword = () => {
     const generated = generateStrongPassword();
     setFormData({...formData, password: generated});
@@ -59,7 +91,7 @@ const AdminPage: React.FC<AdminProps> = ({ currentUser }) => {
     setMessage(null);
     setLoading(true);
 
-    if (!formData.name || !formData.email || !formData.password) {
+    if (!formData.name || !formData.email || !formData.password || !formData.joining_date) {
       setMessage({ type: 'error', text: 'Please fill all required fields.' });
       setLoading(false);
       return;
@@ -79,16 +111,13 @@ const AdminPage: React.FC<AdminProps> = ({ currentUser }) => {
         email: formData.email,
         password: formData.password,
         role: formData.role,
-        balance: {
-          casual: Number(formData.casual),
-          sick: Number(formData.sick),
-          annual: Number(formData.annual)
-        },
+        balance: leaveTypes.reduce((acc, t) => ({ ...acc, [t.id]: Number(formData.balance[t.id] || 0) }), {} as UserBalance),
         history: [],
-        reporting_to: formData.reporting_to || undefined
+        reporting_to: formData.reporting_to || undefined,
+        joining_date: formData.joining_date
       };
 
-      const success = await DB.addUser(newUser);
+      const success = await DB.addUser(newUser, currentUser.id);
       if (success) {
         setMessage({ type: 'success', text: `User ${newUser.name} enrolled successfully!` });
         setFormData({
@@ -96,9 +125,8 @@ const AdminPage: React.FC<AdminProps> = ({ currentUser }) => {
           email: '',
           password: '',
           role: 'employee',
-          casual: 10,
-          sick: 10,
-          annual: 20,
+          joining_date: today(),
+          balance: buildProratedBalance(leaveTypes, today(), rounding),
           reporting_to: ''
         });
         setShowPassword(false);
@@ -115,8 +143,8 @@ const AdminPage: React.FC<AdminProps> = ({ currentUser }) => {
     }
   };
 
-  // Get potential managers (admins and employees who can approve)
-  const potentialManagers = allUsers.filter(u => u.role === 'admin');
+  // Anyone can be a line manager; having reportees is what makes them an approver
+  const potentialManagers = allUsers;
 
   return (
     <div className="max-w-2xl mx-auto">
@@ -240,6 +268,16 @@ const AdminPage: React.FC<AdminProps> = ({ currentUser }) => {
                   <option value="admin">Admin</option>
                 </select>
               </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Joining Date</label>
+                <input
+                  type="date"
+                  required
+                  value={formData.joining_date}
+                  onChange={e => handleJoiningDateChange(e.target.value)}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+                />
+              </div>
             </div>
 
             {/* Reporting To Field */}
@@ -268,37 +306,45 @@ const AdminPage: React.FC<AdminProps> = ({ currentUser }) => {
           <div className="space-y-4 pt-2">
              <h3 className="text-sm font-bold text-slate-900 uppercase tracking-wider border-b border-slate-100 pb-2">Initial Leave Balance</h3>
              <div className="grid grid-cols-3 gap-4">
-               <div>
-                  <label className="block text-sm font-medium text-slate-700 mb-1">Casual</label>
-                  <input
-                    type="number"
-                    min="0"
-                    value={formData.casual}
-                    onChange={e => setFormData({...formData, casual: Number(e.target.value)})}
-                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none"
-                  />
-               </div>
-               <div>
-                  <label className="block text-sm font-medium text-slate-700 mb-1">Sick</label>
-                  <input
-                    type="number"
-                    min="0"
-                    value={formData.sick}
-                    onChange={e => setFormData({...formData, sick: Number(e.target.value)})}
-                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none"
-                  />
-               </div>
-               <div>
-                  <label className="block text-sm font-medium text-slate-700 mb-1">Annual</label>
-                  <input
-                    type="number"
-                    min="0"
-                    value={formData.annual}
-                    onChange={e => setFormData({...formData, annual: Number(e.target.value)})}
-                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none"
-                  />
-               </div>
+               {balanceTypes.map(t => (
+                 <div key={t.id}>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">{t.label.replace(/ Leave$/, '')}</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={formData.balance[t.id] ?? 0}
+                      onChange={e => setFormData({...formData, balance: {...formData.balance, [t.id]: Number(e.target.value)}})}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none"
+                    />
+                 </div>
+               ))}
              </div>
+
+             {formData.joining_date && (
+               <div className="bg-slate-50 border border-slate-200 rounded-lg p-4 text-sm">
+                 <p className="font-semibold text-slate-900 flex items-center gap-2 mb-2">
+                   <Calculator size={16} className="text-primary-600" />
+                   Pro-rated from {formData.joining_date}
+                 </p>
+                 <ul className="space-y-1 text-slate-600">
+                   {leaveTypes.filter(t => t.default_entitlement > 0).map(t => {
+                     if (!t.year_start_grant) {
+                       return <li key={t.id}>{t.label}: {t.default_entitlement} (one-off grant, not pro-rated)</li>;
+                     }
+                     const calc = prorateEntitlement(t.default_entitlement, formData.joining_date, rounding);
+                     return (
+                       <li key={t.id}>
+                         {t.label}: {t.default_entitlement} × {calc.months}/12 = {Number(calc.exact.toFixed(2))}
+                         {calc.days !== calc.exact && <> → <span className="font-medium text-slate-900">{calc.days}</span></>}
+                       </li>
+                     );
+                   })}
+                 </ul>
+                 <p className="text-xs text-slate-500 mt-2">
+                   Rounding: {PRORATION_ROUNDING_LABELS[rounding].toLowerCase()}. You can still override the balances above.
+                 </p>
+               </div>
+             )}
           </div>
 
           <div className="pt-4">
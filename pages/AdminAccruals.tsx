@@ -0,0 +1,180 @@
+import React, { useState, useEffect } from 'react';
+import { User, LeaveTypeConfig, LedgerEntry, AccrualRunResult } from '../types';
+import { DEFAULT_LEAVE_TYPES } from '../constants';
+import * as DB from '../services/db';
+import { findLeaveType, getLeaveTypeStyle } from '../utils/leaveTypes';
+import { TrendingUp, Play, CheckCircle2, AlertCircle } from 'lucide-react';
+
+interface AdminAccrualsProps {
+  currentUser: User;
+}
+
+const AdminAccruals: React.FC<AdminAccrualsProps> = ({ currentUser }) => {
+  const [period, setPeriod] = useState(new Date().toISOString().slice(0, 7));
+  const [leaveTypes, setLeaveTypes] = useState<LeaveTypeConfig[]>(DEFAULT_LEAVE_TYPES);
+  const [users, setUsers] = useState<User[]>([]);
+  const [accruals, setAccruals] = useState<LedgerEntry[]>([]);
+  const [result, setResult] = useState<AccrualRunResult | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+  const [running, setRunning] = useState(false);
+
+  useEffect(() => {
+    DB.getLeaveTypes().then(setLeaveTypes);
+    DB.getUsers().then(setUsers).catch(err => console.error('Error loading users:', err));
+  }, []);
+
+  useEffect(() => {
+    loadAccruals();
+    setResult(null);
+  }, [period]);
+
+  const loadAccruals = async () => {
+    const list = await DB.getAccrualsForPeriod(period);
+    setAccruals(list);
+  };
+
+  const accruingTypes = leaveTypes.filter(t => t.accrual_rate > 0);
+  const expectedCredits = accruingTypes.length * users.length;
+
+  const handleRun = async () => {
+    setMessage(null);
+    setRunning(true);
+    try {
+      const runResult = await DB.runMonthlyAccrual(period, currentUser.id);
+      setResult(runResult);
+      if (runResult.errors.length > 0) {
+        setMessage({ type: 'error', text: `Accrual for ${period} finished with ${runResult.errors.length} error(s)` });
+      } else {
+        setMessage({ type: 'success', text: `Accrual for ${period} complete: ${runResult.credited} credited, ${runResult.skipped} already done` });
+      }
+      await loadAccruals();
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  if (currentUser.role !== 'admin') {
+    return (
+      <div className="flex flex-col items-center justify-center h-96 text-center">
+        <div className="bg-red-100 p-4 rounded-full mb-4">
+          <AlertCircle className="w-8 h-8 text-red-600" />
+        </div>
+        <h2 className="text-xl font-bold text-slate-900">Access Denied</h2>
+        <p className="text-slate-500 mt-2">Only administrators can access this page.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-slate-900">Leave Accrual</h1>
+        <p className="text-slate-500">Credit monthly entitlements. Re-running a month never credits twice.</p>
+      </div>
+
+      {message && (
+        <div className={`p-4 rounded-lg flex items-center gap-2 ${
+          message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+        }`}>
+          {message.type === 'success' ? <CheckCircle2 size={20} /> : <AlertCircle size={20} />}
+          {message.text}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl border border-slate-200 p-6 space-y-4">
+        <div className="flex flex-col md:flex-row gap-4 md:items-end md:justify-between">
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Period</label>
+            <input
+              type="month"
+              value={period}
+              onChange={e => setPeriod(e.target.value)}
+              className="border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+              disabled={running}
+            />
+          </div>
+          <button
+            onClick={handleRun}
+            disabled={running || accruingTypes.length === 0 || !period}
+            className="bg-primary-600 hover:bg-primary-700 text-white px-5 py-2.5 rounded-lg font-medium flex items-center justify-center gap-2 shadow-lg shadow-primary-600/30 transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {running ? (
+              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+            ) : (
+              <Play size={18} />
+            )}
+            Run Accrual
+          </button>
+        </div>
+
+        {accruingTypes.length === 0 ? (
+          <p className="text-sm text-slate-500">
+            No leave type has a monthly accrual rate. Set one on the Leave Types page.
+          </p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {accruingTypes.map(t => (
+              <span key={t.id} className={`inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium ${getLeaveTypeStyle(leaveTypes, t.id).badge}`}>
+                <TrendingUp size={12} />
+                {t.label}: +{t.accrual_rate} / month
+              </span>
+            ))}
+          </div>
+        )}
+
+        <p className="text-xs text-slate-500">
+          {accruals.length} of {expectedCredits} credit(s) already recorded for {period}.
+        </p>
+
+        {result && result.errors.length > 0 && (
+          <ul className="text-xs text-red-600 space-y-1">
+            {result.errors.map((err, idx) => <li key={idx}>• {err}</li>)}
+          </ul>
+        )}
+      </div>
+
+      <div className="bg-white shadow-sm border border-slate-200 rounded-xl overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-slate-50 border-b border-slate-200">
+                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Employee</th>
+                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Type</th>
+                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Credited</th>
+                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Recorded At</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {accruals.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-6 py-8 text-center text-slate-400 text-sm">
+                    No accruals recorded for {period}.
+                  </td>
+                </tr>
+              ) : (
+                accruals.map(a => (
+                  <tr key={a.id} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-6 py-4 text-sm font-medium text-slate-900">
+                      {users.find(u => u.id === a.user_id)?.name || 'Unknown'}
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getLeaveTypeStyle(leaveTypes, a.leave_type).badge}`}>
+                        {findLeaveType(leaveTypes, a.leave_type).label}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-green-600 font-medium">+{a.delta} day(s)</td>
+                    <td className="px-6 py-4 text-sm text-slate-500">{new Date(a.created_at).toLocaleString()}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdminAccruals;
@@ -0,0 +1,471 @@
+import React, { useState, useEffect } from 'react';
+import { User, LeaveTypeConfig, ApprovalChain, ApprovalStepConfig, ApprovalStepApprover } from '../types';
+import { DEFAULT_LEAVE_TYPES, DEFAULT_APPROVAL_STEPS, APPROVAL_APPROVER_LABELS } from '../constants';
+import * as DB from '../services/db';
+import { findLeaveType, getLeaveTypeStyle } from '../utils/leaveTypes';
+import {
+  Workflow,
+  Plus,
+  Edit2,
+  Trash2,
+  CheckCircle2,
+  AlertCircle,
+  X,
+  Save,
+  ArrowUp,
+  ArrowDown
+} from 'lucide-react';
+
+interface AdminApprovalChainsProps {
+  currentUser: User;
+}
+
+const emptyForm = () => ({
+  name: '',
+  leave_types: [] as string[],
+  has_min_days: true,
+  min_days: 5,
+  steps: [
+    { label: 'Line manager', approver: 'manager' },
+    { label: 'HR', approver: 'admin' }
+  ] as ApprovalStepConfig[]
+});
+
+const AdminApprovalChains: React.FC<AdminApprovalChainsProps> = ({ currentUser }) => {
+  const [chains, setChains] = useState<ApprovalChain[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [leaveTypes, setLeaveTypes] = useState<LeaveTypeConfig[]>(DEFAULT_LEAVE_TYPES);
+  const [editing, setEditing] = useState<ApprovalChain | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [form, setForm] = useState(emptyForm());
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    DB.getApprovalChains().then(setChains);
+    DB.getLeaveTypes().then(setLeaveTypes);
+    DB.getUsers().then(setUsers).catch(err => console.error('Error loading users:', err));
+  }, []);
+
+  const describeApprover = (step: ApprovalStepConfig) =>
+    step.approver === 'user'
+      ? users.find(u => u.id === step.user_id)?.name || 'Unknown'
+      : APPROVAL_APPROVER_LABELS[step.approver];
+
+  const describeCondition = (chain: ApprovalChain) => {
+    const types = chain.leave_types.length === 0
+      ? 'Any leave type'
+      : chain.leave_types.map(t => findLeaveType(leaveTypes, t).label).join(', ');
+    return chain.min_days === null ? types : `${types}, longer than ${chain.min_days} day(s)`;
+  };
+
+  // Save the whole list; order decides which chain wins when several match
+  const persist = async (next: ApprovalChain[], successText: string): Promise<boolean> => {
+    setMessage(null);
+    const success = await DB.saveApprovalChains(next);
+    if (success) {
+      setChains(next);
+      setMessage({ type: 'success', text: successText });
+    } else {
+      setMessage({ type: 'error', text: 'Failed to save approval chains' });
+    }
+    return success;
+  };
+
+  const openModal = (chain: ApprovalChain | null) => {
+    setEditing(chain);
+    setForm(chain ? {
+      name: chain.name,
+      leave_types: chain.leave_types,
+      has_min_days: chain.min_days !== null,
+      min_days: chain.min_days || 0,
+      steps: chain.steps
+    } : emptyForm());
+    setMessage(null);
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditing(null);
+    setMessage(null);
+  };
+
+  const updateStep = (idx: number, changes: Partial<ApprovalStepConfig>) => {
+    setForm({ ...form, steps: form.steps.map((s, i) => i === idx ? { ...s, ...changes } : s) });
+  };
+
+  const handleSave = async () => {
+    setMessage(null);
+
+    if (!form.name.trim()) {
+      setMessage({ type: 'error', text: 'Please enter a name for the chain' });
+      return;
+    }
+    if (form.steps.length === 0) {
+      setMessage({ type: 'error', text: 'A chain needs at least one step' });
+      return;
+    }
+    if (form.steps.some(s => !s.label.trim())) {
+      setMessage({ type: 'error', text: 'Every step needs a name' });
+      return;
+    }
+    if (form.steps.some(s => s.approver === 'user' && !s.user_id)) {
+      setMessage({ type: 'error', text: 'Choose the person who approves each named step' });
+      return;
+    }
+    if (form.has_min_days && form.min_days < 0) {
+      setMessage({ type: 'error', text: 'Minimum length cannot be negative' });
+      return;
+    }
+
+    const chain: ApprovalChain = {
+      id: editing ? editing.id : crypto.randomUUID(),
+      name: form.name.trim(),
+      leave_types: form.leave_types,
+      min_days: form.has_min_days ? form.min_days : null,
+      steps: form.steps.map(s => ({
+        label: s.label.trim(),
+        approver: s.approver,
+        ...(s.approver === 'user' ? { user_id: s.user_id } : {})
+      }))
+    };
+
+    setLoading(true);
+    try {
+      const next = editing ? chains.map(c => c.id === chain.id ? chain : c) : [...chains, chain];
+      if (await persist(next, `Approval chain "${chain.name}" saved`)) {
+        setShowModal(false);
+        setEditing(null);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (chain: ApprovalChain) => {
+    if (!window.confirm(`Delete the "${chain.name}" chain? Requests already submitted keep their steps.`)) return;
+    await persist(chains.filter(c => c.id !== chain.id), 'Approval chain deleted');
+  };
+
+  const handleMove = async (idx: number, direction: -1 | 1) => {
+    const next = [...chains];
+    [next[idx], next[idx + direction]] = [next[idx + direction], next[idx]];
+    await persist(next, 'Chain order updated');
+  };
+
+  if (currentUser.role !== 'admin') {
+    return (
+      <div className="flex flex-col items-center justify-center h-96 text-center">
+        <div className="bg-red-100 p-4 rounded-full mb-4">
+          <AlertCircle className="w-8 h-8 text-red-600" />
+        </div>
+        <h2 className="text-xl font-bold text-slate-900">Access Denied</h2>
+        <p className="text-slate-500 mt-2">Only administrators can access this page.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">Approval Chains</h1>
+          <p className="text-slate-500">Requests that need more than the line manager's approval</p>
+        </div>
+        <button
+          onClick={() => openModal(null)}
+          className="bg-primary-600 hover:bg-primary-700 text-white px-5 py-2.5 rounded-lg font-medium flex items-center gap-2 shadow-lg shadow-primary-600/30 transition-all active:scale-95"
+        >
+          <Plus size={20} />
+          Add Chain
+        </button>
+      </div>
+
+      {message && !showModal && (
+        <div className={`p-4 rounded-lg flex items-center gap-2 ${
+          message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+        }`}>
+          {message.type === 'success' ? <CheckCircle2 size={20} /> : <AlertCircle size={20} />}
+          {message.text}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+        <table className="w-full">
+          <thead className="bg-slate-50 border-b border-slate-200">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase">Order</th>
+              <th className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase">Chain</th>
+              <th className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase">Applies To</th>
+              <th className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase">Steps</th>
+              <th className="px-6 py-3 text-right text-xs font-semibold text-slate-500 uppercase">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {chains.map((chain, idx) => (
+              <tr key={chain.id} className="hover:bg-slate-50 transition-colors">
+                <td className="px-6 py-4 text-sm text-slate-500">
+                  <div className="inline-flex items-center gap-1">
+                    <span className="w-5">{idx + 1}</span>
+                    <button
+                      onClick={() => handleMove(idx, -1)}
+                      disabled={idx === 0}
+                      className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                      title="Check earlier"
+                    >
+                      <ArrowUp size={14} />
+                    </button>
+                    <button
+                      onClick={() => handleMove(idx, 1)}
+                      disabled={idx === chains.length - 1}
+                      className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                      title="Check later"
+                    >
+                      <ArrowDown size={14} />
+                    </button>
+                  </div>
+                </td>
+                <td className="px-6 py-4 text-sm font-medium text-slate-900">{chain.name}</td>
+                <td className="px-6 py-4 text-sm text-slate-700">
+                  {chain.leave_types.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mb-1">
+                      {chain.leave_types.map(type => (
+                        <span key={type} className={`px-2 py-0.5 rounded-full text-xs font-medium ${getLeaveTypeStyle(leaveTypes, type).badge}`}>
+                          {findLeaveType(leaveTypes, type).label}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  <span className="text-xs text-slate-500">{describeCondition(chain)}</span>
+                </td>
+                <td className="px-6 py-4 text-sm text-slate-700">
+                  <ol className="space-y-0.5">
+                    {chain.steps.map((step, stepIdx) => (
+                      <li key={stepIdx}>
+                        {stepIdx + 1}. <strong>{step.label}</strong>
+                        <span className="text-xs text-slate-500"> ({describeApprover(step)})</span>
+                      </li>
+                    ))}
+                  </ol>
+                </td>
+                <td className="px-6 py-4 text-right">
+                  <div className="inline-flex gap-2">
+                    <button
+                      onClick={() => openModal(chain)}
+                      className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-primary-600 hover:bg-primary-700 text-white text-sm rounded-lg font-medium transition-colors"
+                    >
+                      <Edit2 size={14} />
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(chain)}
+                      className="inline-flex items-center gap-1.5 px-3 py-1.5 border border-red-200 text-red-600 hover:bg-red-50 text-sm rounded-lg font-medium transition-colors"
+                    >
+                      <Trash2 size={14} />
+                      Delete
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+            <tr className="bg-slate-50/50">
+              <td className="px-6 py-4 text-sm text-slate-400">—</td>
+              <td className="px-6 py-4 text-sm text-slate-500 italic">Default</td>
+              <td className="px-6 py-4 text-xs text-slate-500">Requests no chain above matches</td>
+              <td className="px-6 py-4 text-sm text-slate-500">
+                {DEFAULT_APPROVAL_STEPS.map((step, stepIdx) => (
+                  <p key={stepIdx}>{stepIdx + 1}. {step.label}</p>
+                ))}
+              </td>
+              <td className="px-6 py-4" />
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-slate-500">
+        Chains are checked from the top and the first match applies. A request that is edited starts its chain again.
+      </p>
+
+      {/* Add / Edit Modal */}
+      {showModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto animate-fade-in-up">
+            <div className="bg-gradient-to-r from-primary-600 to-primary-700 px-6 py-4 text-white">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 bg-white/20 rounded-lg flex items-center justify-center">
+                    <Workflow className="w-5 h-5" />
+                  </div>
+                  <h3 className="text-lg font-bold">{editing ? 'Edit Approval Chain' : 'New Approval Chain'}</h3>
+                </div>
+                <button onClick={closeModal} className="text-white/80 hover:text-white transition-colors">
+                  <X size={20} />
+                </button>
+              </div>
+            </div>
+
+            <div className="p-6 space-y-4">
+              {message && (
+                <div className={`p-3 rounded-lg text-sm flex items-center gap-2 ${
+                  message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+                }`}>
+                  {message.type === 'success' ? <CheckCircle2 size={16} /> : <AlertCircle size={16} />}
+                  {message.text}
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={e => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. Long leave"
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+                  disabled={loading}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Leave Types</label>
+                <div className="flex flex-wrap gap-2">
+                  {leaveTypes.map(type => (
+                    <label key={type.id} className="flex items-center gap-1.5 text-sm text-slate-600 border border-slate-200 rounded-lg px-2.5 py-1">
+                      <input
+                        type="checkbox"
+                        checked={form.leave_types.includes(type.id)}
+                        onChange={() => setForm({
+                          ...form,
+                          leave_types: form.leave_types.includes(type.id)
+                            ? form.leave_types.filter(t => t !== type.id)
+                            : [...form.leave_types, type.id]
+                        })}
+                        disabled={loading}
+                        className="rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                      />
+                      {type.label}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-500 mt-1">None selected = every leave type</p>
+              </div>
+
+              <div className="flex items-center gap-2 text-sm text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={form.has_min_days}
+                  onChange={e => setForm({ ...form, has_min_days: e.target.checked })}
+                  disabled={loading}
+                  className="rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                />
+                <span>Only requests longer than</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={form.min_days}
+                  onChange={e => setForm({ ...form, min_days: parseFloat(e.target.value) || 0 })}
+                  className="w-20 px-2 py-1 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none disabled:bg-slate-50"
+                  disabled={loading || !form.has_min_days}
+                />
+                <span>day(s)</span>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Steps</label>
+                <div className="space-y-2">
+                  {form.steps.map((step, idx) => (
+                    <div key={idx} className="flex items-center gap-2">
+                      <span className="text-sm text-slate-500 w-5">{idx + 1}.</span>
+                      <input
+                        type="text"
+                        value={step.label}
+                        onChange={e => updateStep(idx, { label: e.target.value })}
+                        placeholder="Step name"
+                        className="w-28 px-2 py-1.5 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+                        disabled={loading}
+                      />
+                      <select
+                        value={step.approver}
+                        onChange={e => updateStep(idx, { approver: e.target.value as ApprovalStepApprover })}
+                        className="flex-1 px-2 py-1.5 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none bg-white"
+                        disabled={loading}
+                      >
+                        {(Object.keys(APPROVAL_APPROVER_LABELS) as ApprovalStepApprover[]).map(approver => (
+                          <option key={approver} value={approver}>{APPROVAL_APPROVER_LABELS[approver]}</option>
+                        ))}
+                      </select>
+                      {step.approver === 'user' && (
+                        <select
+                          value={step.user_id || ''}
+                          onChange={e => updateStep(idx, { user_id: e.target.value })}
+                          className="flex-1 px-2 py-1.5 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none bg-white"
+                          disabled={loading}
+                        >
+                          <option value="">Choose...</option>
+                          {users.map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+                        </select>
+                      )}
+                      <button
+                        onClick={() => setForm({ ...form, steps: form.steps.filter((_, i) => i !== idx) })}
+                        disabled={loading || form.steps.length === 1}
+                        className="p-1 text-slate-400 hover:text-red-600 disabled:opacity-30"
+                        title="Remove step"
+                      >
+                        <X size={16} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={() => setForm({ ...form, steps: [...form.steps, { label: '', approver: 'admin' }] })}
+                  disabled={loading}
+                  className="mt-2 inline-flex items-center gap-1 text-sm text-primary-600 hover:text-primary-700 font-medium"
+                >
+                  <Plus size={14} />
+                  Add step
+                </button>
+                <p className="text-xs text-slate-500 mt-1">
+                  Steps are decided in order. A line-manager step for someone without a manager goes to the administrators.
+                </p>
+              </div>
+
+              <div className="flex gap-3 pt-2">
+                <button
+                  type="button"
+                  onClick={closeModal}
+                  disabled={loading}
+                  className="flex-1 px-4 py-2.5 border border-slate-300 text-slate-700 rounded-lg font-medium hover:bg-slate-50 transition-colors disabled:opacity-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={loading}
+                  className="flex-1 px-4 py-2.5 bg-primary-600 hover:bg-primary-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                >
+                  {loading ? (
+                    <>
+                      <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    <>
+                      <Save size={16} />
+                      Save
+                    </>
+                  )}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminApprovalChains;
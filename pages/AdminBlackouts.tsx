@@ -0,0 +1,455 @@
+import React, { useState, useEffect } from 'react';
+import { User, LeaveTypeConfig, BlackoutPeriod, BlackoutOverride } from '../types';
+import { DEFAULT_LEAVE_TYPES } from '../constants';
+import * as DB from '../services/db';
+import { findLeaveType, getLeaveTypeStyle } from '../utils/leaveTypes';
+import { formatLeaveDates } from '../utils/leaveDays';
+import {
+  CalendarX,
+  Plus,
+  Edit2,
+  Trash2,
+  CheckCircle2,
+  AlertCircle,
+  X,
+  Save,
+  UserCheck
+} from 'lucide-react';
+
+interface AdminBlackoutsProps {
+  currentUser: User;
+}
+
+const emptyForm = () => ({
+  start_date: '',
+  end_date: '',
+  leave_types: [] as string[],
+  manager_ids: [] as string[],
+  user_ids: [] as string[],
+  message: ''
+});
+
+// Add or remove a value from a list of selected ids
+const toggle = (list: string[], value: string) =>
+  list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+const AdminBlackouts: React.FC<AdminBlackoutsProps> = ({ currentUser }) => {
+  const [periods, setPeriods] = useState<BlackoutPeriod[]>([]);
+  const [overrides, setOverrides] = useState<BlackoutOverride[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [leaveTypes, setLeaveTypes] = useState<LeaveTypeConfig[]>(DEFAULT_LEAVE_TYPES);
+  const [editing, setEditing] = useState<BlackoutPeriod | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [form, setForm] = useState(emptyForm());
+  // Override being added, per blackout
+  const [overrideForm, setOverrideForm] = useState<Record<string, { user_id: string; reason: string }>>({});
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    loadBlackouts();
+    DB.getLeaveTypes().then(setLeaveTypes);
+    DB.getUsers().then(setUsers).catch(err => console.error('Error loading users:', err));
+  }, []);
+
+  const loadBlackouts = async () => {
+    const [periodList, overrideList] = await Promise.all([DB.getBlackoutPeriods(), DB.getBlackoutOverrides()]);
+    setPeriods(periodList);
+    setOverrides(overrideList);
+  };
+
+  const managers = users.filter(m => users.some(u => u.reporting_to === m.id));
+  const nameOf = (userId: string) => users.find(u => u.id === userId)?.name || 'Unknown';
+
+  const describeScope = (period: BlackoutPeriod) => {
+    if (period.manager_ids.length === 0 && period.user_ids.length === 0) return 'Everyone';
+    return [
+      ...period.manager_ids.map(id => `${nameOf(id)}'s team`),
+      ...period.user_ids.map(nameOf)
+    ].join(', ');
+  };
+
+  const openModal = (period: BlackoutPeriod | null) => {
+    setEditing(period);
+    setForm(period ? {
+      start_date: period.start_date,
+      end_date: period.end_date,
+      leave_types: period.leave_types,
+      manager_ids: period.manager_ids,
+      user_ids: period.user_ids,
+      message: period.message
+    } : emptyForm());
+    setMessage(null);
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditing(null);
+    setMessage(null);
+  };
+
+  const handleSave = async () => {
+    setMessage(null);
+    setLoading(true);
+    try {
+      const result = await DB.saveBlackoutPeriod({
+        id: editing ? editing.id : crypto.randomUUID(),
+        ...form
+      });
+
+      if (result.success) {
+        await loadBlackouts();
+        setShowModal(false);
+        setEditing(null);
+        setMessage({ type: 'success', text: `Blackout ${formatLeaveDates({ date: form.start_date, end_date: form.end_date })} saved` });
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to save blackout period' });
+      }
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (period: BlackoutPeriod) => {
+    if (!window.confirm('Delete this blackout period? Its overrides are removed too.')) return;
+
+    setMessage(null);
+    const success = await DB.deleteBlackoutPeriod(period.id);
+    setMessage(success
+      ? { type: 'success', text: 'Blackout period deleted' }
+      : { type: 'error', text: 'Failed to delete blackout period' });
+    await loadBlackouts();
+  };
+
+  const handleAddOverride = async (period: BlackoutPeriod) => {
+    const draft = overrideForm[period.id];
+    if (!draft?.user_id) {
+      setMessage({ type: 'error', text: 'Choose the employee to exempt' });
+      return;
+    }
+
+    setMessage(null);
+    const result = await DB.addBlackoutOverride(period.id, draft.user_id, draft.reason, currentUser.id);
+    if (result.success) {
+      setMessage({ type: 'success', text: `${nameOf(draft.user_id)} can now request leave during this blackout` });
+      setOverrideForm({ ...overrideForm, [period.id]: { user_id: '', reason: '' } });
+      await loadBlackouts();
+    } else {
+      setMessage({ type: 'error', text: result.error || 'Failed to record override' });
+    }
+  };
+
+  const handleDeleteOverride = async (override: BlackoutOverride) => {
+    setMessage(null);
+    const success = await DB.deleteBlackoutOverride(override.id);
+    setMessage(success
+      ? { type: 'success', text: 'Override removed' }
+      : { type: 'error', text: 'Failed to remove override' });
+    await loadBlackouts();
+  };
+
+  if (currentUser.role !== 'admin') {
+    return (
+      <div className="flex flex-col items-center justify-center h-96 text-center">
+        <div className="bg-red-100 p-4 rounded-full mb-4">
+          <AlertCircle className="w-8 h-8 text-red-600" />
+        </div>
+        <h2 className="text-xl font-bold text-slate-900">Access Denied</h2>
+        <p className="text-slate-500 mt-2">Only administrators can access this page.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">Blackout Periods</h1>
+          <p className="text-slate-500">Dates when some leave cannot be requested, e.g. quarter-end or a launch</p>
+        </div>
+        <button
+          onClick={() => openModal(null)}
+          className="bg-primary-600 hover:bg-primary-700 text-white px-5 py-2.5 rounded-lg font-medium flex items-center gap-2 shadow-lg shadow-primary-600/30 transition-all active:scale-95"
+        >
+          <Plus size={20} />
+          Add Blackout
+        </button>
+      </div>
+
+      {message && !showModal && (
+        <div className={`p-4 rounded-lg flex items-center gap-2 ${
+          message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+        }`}>
+          {message.type === 'success' ? <CheckCircle2 size={20} /> : <AlertCircle size={20} />}
+          {message.text}
+        </div>
+      )}
+
+      {periods.length === 0 ? (
+        <div className="bg-white rounded-xl border border-slate-200 p-12 text-center">
+          <CalendarX className="w-8 h-8 text-slate-300 mx-auto mb-3" />
+          <p className="text-slate-500">No blackout periods defined.</p>
+        </div>
+      ) : (
+        <div className="grid gap-4">
+          {periods.map(period => {
+            const periodOverrides = overrides.filter(o => o.blackout_id === period.id);
+            const draft = overrideForm[period.id] || { user_id: '', reason: '' };
+            return (
+              <div key={period.id} className="bg-white rounded-xl border border-slate-200 p-6 space-y-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-2">
+                    <p className="font-semibold text-slate-900">{formatLeaveDates({ date: period.start_date, end_date: period.end_date })}</p>
+                    <p className="text-sm text-slate-600">{period.message}</p>
+                    <div className="flex flex-wrap items-center gap-2 text-xs">
+                      {period.leave_types.length === 0 ? (
+                        <span className="px-2.5 py-0.5 rounded-full bg-slate-100 text-slate-700 font-medium">All leave types</span>
+                      ) : period.leave_types.map(type => (
+                        <span key={type} className={`px-2.5 py-0.5 rounded-full font-medium ${getLeaveTypeStyle(leaveTypes, type).badge}`}>
+                          {findLeaveType(leaveTypes, type).label}
+                        </span>
+                      ))}
+                      <span className="text-slate-500">Applies to: {describeScope(period)}</span>
+                    </div>
+                  </div>
+                  <div className="inline-flex gap-2">
+                    <button
+                      onClick={() => openModal(period)}
+                      className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-primary-600 hover:bg-primary-700 text-white text-sm rounded-lg font-medium transition-colors"
+                    >
+                      <Edit2 size={14} />
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(period)}
+                      className="inline-flex items-center gap-1.5 px-3 py-1.5 border border-red-200 text-red-600 hover:bg-red-50 text-sm rounded-lg font-medium transition-colors"
+                    >
+                      <Trash2 size={14} />
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                <div className="border-t border-slate-100 pt-4 space-y-2">
+                  <p className="text-xs font-semibold text-slate-500 uppercase">Overrides</p>
+                  {periodOverrides.map(o => (
+                    <div key={o.id} className="flex items-center justify-between gap-3 text-sm bg-slate-50 rounded-lg px-3 py-2">
+                      <span className="text-slate-700">
+                        <UserCheck size={14} className="inline mr-1.5 text-green-600" />
+                        <strong>{o.user_name || nameOf(o.user_id)}</strong>: {o.reason}
+                        <span className="text-xs text-slate-400 ml-2">
+                          by {nameOf(o.created_by)}, {new Date(o.created_at).toLocaleDateString()}
+                        </span>
+                      </span>
+                      <button
+                        onClick={() => handleDeleteOverride(o)}
+                        className="text-slate-400 hover:text-red-600"
+                        title="Remove override"
+                      >
+                        <X size={16} />
+                      </button>
+                    </div>
+                  ))}
+                  <div className="flex flex-col md:flex-row gap-2">
+                    <select
+                      value={draft.user_id}
+                      onChange={e => setOverrideForm({ ...overrideForm, [period.id]: { ...draft, user_id: e.target.value } })}
+                      className="border border-slate-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none bg-white"
+                    >
+                      <option value="">Exempt an employee...</option>
+                      {users
+                        .filter(u => !periodOverrides.some(o => o.user_id === u.id))
+                        .map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+                    </select>
+                    <input
+                      type="text"
+                      value={draft.reason}
+                      onChange={e => setOverrideForm({ ...overrideForm, [period.id]: { ...draft, reason: e.target.value } })}
+                      placeholder="Reason, e.g. wedding booked before the launch date"
+                      className="flex-1 border border-slate-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+                    />
+                    <button
+                      onClick={() => handleAddOverride(period)}
+                      disabled={!draft.user_id || !draft.reason.trim()}
+                      className="inline-flex items-center justify-center gap-1.5 px-3 py-1.5 border border-slate-300 text-slate-700 hover:bg-slate-50 text-sm rounded-lg font-medium transition-colors disabled:opacity-50"
+                    >
+                      <Plus size={14} />
+                      Add Override
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Add / Edit Modal */}
+      {showModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto animate-fade-in-up">
+            <div className="bg-gradient-to-r from-primary-600 to-primary-700 px-6 py-4 text-white">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 bg-white/20 rounded-lg flex items-center justify-center">
+                    <CalendarX className="w-5 h-5" />
+                  </div>
+                  <h3 className="text-lg font-bold">{editing ? 'Edit Blackout' : 'New Blackout'}</h3>
+                </div>
+                <button onClick={closeModal} className="text-white/80 hover:text-white transition-colors">
+                  <X size={20} />
+                </button>
+              </div>
+            </div>
+
+            <div className="p-6 space-y-4">
+              {message && (
+                <div className={`p-3 rounded-lg text-sm flex items-center gap-2 ${
+                  message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+                }`}>
+                  {message.type === 'success' ? <CheckCircle2 size={16} /> : <AlertCircle size={16} />}
+                  {message.text}
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">From</label>
+                  <input
+                    type="date"
+                    value={form.start_date}
+                    onChange={e => setForm({
+                      ...form,
+                      start_date: e.target.value,
+                      end_date: !form.end_date || form.end_date < e.target.value ? e.target.value : form.end_date
+                    })}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+                    disabled={loading}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">To</label>
+                  <input
+                    type="date"
+                    min={form.start_date}
+                    value={form.end_date}
+                    onChange={e => setForm({ ...form, end_date: e.target.value })}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+                    disabled={loading}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Leave Types</label>
+                <div className="flex flex-wrap gap-2">
+                  {leaveTypes.map(type => (
+                    <label key={type.id} className="flex items-center gap-1.5 text-sm text-slate-600 border border-slate-200 rounded-lg px-2.5 py-1">
+                      <input
+                        type="checkbox"
+                        checked={form.leave_types.includes(type.id)}
+                        onChange={() => setForm({ ...form, leave_types: toggle(form.leave_types, type.id) })}
+                        disabled={loading}
+                        className="rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                      />
+                      {type.label}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-500 mt-1">None selected = every leave type</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Teams</label>
+                {managers.length === 0 ? (
+                  <p className="text-xs text-slate-400">No teams yet</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {managers.map(manager => (
+                      <label key={manager.id} className="flex items-center gap-1.5 text-sm text-slate-600 border border-slate-200 rounded-lg px-2.5 py-1">
+                        <input
+                          type="checkbox"
+                          checked={form.manager_ids.includes(manager.id)}
+                          onChange={() => setForm({ ...form, manager_ids: toggle(form.manager_ids, manager.id) })}
+                          disabled={loading}
+                          className="rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                        />
+                        {manager.name}'s team
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Employees</label>
+                <div className="max-h-32 overflow-y-auto border border-slate-200 rounded-lg p-2 space-y-1">
+                  {users.map(u => (
+                    <label key={u.id} className="flex items-center gap-2 text-sm text-slate-600">
+                      <input
+                        type="checkbox"
+                        checked={form.user_ids.includes(u.id)}
+                        onChange={() => setForm({ ...form, user_ids: toggle(form.user_ids, u.id) })}
+                        disabled={loading}
+                        className="rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                      />
+                      {u.name} <span className="text-xs text-slate-400">{u.email}</span>
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-500 mt-1">No teams and no employees selected = everyone</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Message</label>
+                <textarea
+                  value={form.message}
+                  onChange={e => setForm({ ...form, message: e.target.value })}
+                  placeholder="e.g. Annual leave is frozen during quarter-end close"
+                  rows={2}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+                  disabled={loading}
+                />
+                <p className="text-xs text-slate-500 mt-1">Shown to employees who pick these dates</p>
+              </div>
+
+              <div className="flex gap-3 pt-2">
+                <button
+                  type="button"
+                  onClick={closeModal}
+                  disabled={loading}
+                  className="flex-1 px-4 py-2.5 border border-slate-300 text-slate-700 rounded-lg font-medium hover:bg-slate-50 transition-colors disabled:opacity-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={loading}
+                  className="flex-1 px-4 py-2.5 bg-primary-600 hover:bg-primary-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                >
+                  {loading ? (
+                    <>
+                      <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    <>
+                      <Save size={16} />
+                      Save
+                    </>
+                  )}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminBlackouts;
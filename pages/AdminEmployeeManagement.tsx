@@ -1,6 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { User } from '../types';
+import { Link } from 'react-router-dom';
+import { User, LeaveTypeConfig, UserBalance, WorkWeek } from '../types';
+import { DEFAULT_LEAVE_TYPES, DEFAULT_WORK_WEEK, WEEKDAY_LABELS } from '../constants';
 import * as DB from '../services/db';
+import { getLeaveTypeStyle, tracksBalance } from '../utils/leaveTypes';
+import WorkWeekPicker from '../components/WorkWeekPicker';
 import { 
   Users, 
   Search, 
@@ -9,7 +13,8 @@ import {
   AlertCircle,
   X,
   Save,
-  UserCircle
+  UserCircle,
+  ScrollText
 } from 'lucide-react';
 
 interface AdminEmployeeManagementProps {
@@ -24,17 +29,23 @@ const AdminEmployeeManagement: React.FC<AdminEmployeeManagementProps> = ({ curre
   const [showEditModal, setShowEditModal] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
   const [loading, setLoading] = useState(false);
+  const [leaveTypes, setLeaveTypes] = useState<LeaveTypeConfig[]>(DEFAULT_LEAVE_TYPES);
+  const [defaultWorkWeek, setDefaultWorkWeek] = useState<WorkWeek>(DEFAULT_WORK_WEEK);
+  const balanceTypes = leaveTypes.filter(t => tracksBalance(t));
   
   // Edit form state
   const [editForm, setEditForm] = useState({
     reporting_to: '',
-    casual: 0,
-    sick: 0,
-    annual: 0
+    balance: {} as UserBalance,
+    custom_work_week: false,
+    work_week: DEFAULT_WORK_WEEK,
+    reason: ''
   });
 
   useEffect(() => {
     loadEmployees();
+    DB.getLeaveTypes().then(setLeaveTypes);
+    DB.getDefaultWorkWeek().then(setDefaultWorkWeek);
   }, []);
 
   useEffect(() => {
@@ -63,9 +74,10 @@ const AdminEmployeeManagement: React.FC<AdminEmployeeManagementProps> = ({ curre
     setSelectedEmployee(employee);
     setEditForm({
       reporting_to: employee.reporting_to || '',
-      casual: employee.balance.casual,
-      sick: employee.balance.sick,
-      annual: employee.balance.annual
+      balance: leaveTypes.reduce((acc, t) => ({ ...acc, [t.id]: employee.balance[t.id] || 0 }), {} as UserBalance),
+      custom_work_week: !!employee.work_week,
+      work_week: employee.work_week || defaultWorkWeek,
+      reason: ''
     });
     setMessage(null);
     setShowEditModal(true);
@@ -79,20 +91,26 @@ const AdminEmployeeManagement: React.FC<AdminEmployeeManagementProps> = ({ curre
 
     try {
       // Validate balances
-      if (editForm.casual < 0 || editForm.sick < 0 || editForm.annual < 0) {
+      if (leaveTypes.some(t => (editForm.balance[t.id] || 0) < 0)) {
         setMessage({ type: 'error', text: 'Leave balances cannot be negative' });
         setLoading(false);
         return;
       }
 
+      if (editForm.custom_work_week && editForm.work_week.length === 0) {
+        setMessage({ type: 'error', text: 'Select at least one working day' });
+        setLoading(false);
+        return;
+      }
+
       const success = await DB.updateEmployeeSettings(
         selectedEmployee.id,
         editForm.reporting_to || undefined,
-        {
-          casual: editForm.casual,
-          sick: editForm.sick,
-          annual: editForm.annual
-        }
+        editForm.balance,
+        selectedEmployee.balance,
+        editForm.custom_work_week ? editForm.work_week : null,
+        currentUser.id,
+        editForm.reason
       );
 
       if (success) {
@@ -116,10 +134,32 @@ const AdminEmployeeManagement: React.FC<AdminEmployeeManagementProps> = ({ curre
     }
   };
 
-  // Get potential managers (excluding the selected employee)
+  // Leave types whose balance differs from the saved value
+  const changedLeaveTypes = selectedEmployee
+    ? balanceTypes.filter(t => (editForm.balance[t.id] ?? 0) !== (selectedEmployee.balance[t.id] || 0))
+    : [];
+
+  const formatWorkWeek = (workWeek: WorkWeek) => workWeek.map(d => WEEKDAY_LABELS[d]).join(', ');
+
+  const workWeekChanged = selectedEmployee
+    ? formatWorkWeek(editForm.custom_work_week ? editForm.work_week : []) !== formatWorkWeek(selectedEmployee.work_week || [])
+    : false;
+
+  // Get potential managers: anyone but the selected employee and everyone
+  // below them, so the reporting lines cannot loop
   const getPotentialManagers = () => {
     if (!selectedEmployee) return [];
-    return employees.filter(emp => emp.role === 'admin' && emp.id !== selectedEmployee.id);
+    const below = new Set([selectedEmployee.id]);
+    for (let added = true; added;) {
+      added = false;
+      for (const emp of employees) {
+        if (emp.reporting_to && below.has(emp.reporting_to) && !below.has(emp.id)) {
+          below.add(emp.id);
+          added = true;
+        }
+      }
+    }
+    return employees.filter(emp => !below.has(emp.id));
   };
 
   if (currentUser.role !== 'admin') {
@@ -197,6 +237,9 @@ const AdminEmployeeManagement: React.FC<AdminEmployeeManagementProps> = ({ curre
                         <div>
                           <p className="text-sm font-semibold text-slate-900">{employee.name}</p>
                           <p className="text-xs text-slate-500">{employee.email}</p>
+                          {employee.joining_date && (
+                            <p className="text-xs text-slate-400">Joined {employee.joining_date}</p>
+                          )}
                         </div>
                       </div>
                     </td>
@@ -206,6 +249,11 @@ const AdminEmployeeManagement: React.FC<AdminEmployeeManagementProps> = ({ curre
                       }`}>
                         {employee.role}
                       </span>
+                      {employee.is_manager && (
+                        <span className="ml-1 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                          Manager
+                        </span>
+                      )}
                     </td>
                     <td className="px-6 py-4">
                       {employee.manager_name ? (
@@ -218,19 +266,26 @@ const AdminEmployeeManagement: React.FC<AdminEmployeeManagementProps> = ({ curre
                       )}
                     </td>
                     <td className="px-6 py-4">
-                      <div className="flex gap-2">
-                        <span className="inline-flex items-center px-2 py-1 rounded bg-blue-50 text-blue-700 text-xs font-medium">
-                          C: {employee.balance.casual}
-                        </span>
-                        <span className="inline-flex items-center px-2 py-1 rounded bg-red-50 text-red-700 text-xs font-medium">
-                          S: {employee.balance.sick}
-                        </span>
-                        <span className="inline-flex items-center px-2 py-1 rounded bg-green-50 text-green-700 text-xs font-medium">
-                          A: {employee.balance.annual}
-                        </span>
+                      <div className="flex flex-wrap gap-2">
+                        {balanceTypes.map(t => (
+                          <span
+                            key={t.id}
+                            title={t.label}
+                            className={`inline-flex items-center px-2 py-1 rounded text-xs font-medium ${getLeaveTypeStyle(leaveTypes, t.id).chip}`}
+                          >
+                            {t.label.charAt(0).toUpperCase()}: {employee.balance[t.id] || 0}
+                          </span>
+                        ))}
                       </div>
                     </td>
-                    <td className="px-6 py-4 text-right">
+                    <td className="px-6 py-4 text-right whitespace-nowrap">
+                      <Link
+                        to={`/statement/${employee.id}`}
+                        className="inline-flex items-center gap-1.5 px-3 py-1.5 mr-2 border border-slate-300 text-slate-700 hover:bg-slate-50 text-sm rounded-lg font-medium transition-colors"
+                      >
+                        <ScrollText size={14} />
+                        Statement
+                      </Link>
                       <button
                         onClick={() => openEditModal(employee)}
                         className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-primary-600 hover:bg-primary-700 text-white text-sm rounded-lg font-medium transition-colors"
@@ -327,66 +382,60 @@ const AdminEmployeeManagement: React.FC<AdminEmployeeManagementProps> = ({ curre
               <div>
                 <h4 className="text-sm font-semibold text-slate-700 mb-3">Leave Balance Quotas</h4>
                 <div className="grid grid-cols-3 gap-4">
-                  <div>
-                    <label className="block text-xs font-medium text-slate-600 mb-2">
-                      Casual Leave
-                    </label>
-                    <input
-                      type="number"
-                      min="0"
-                      step="0.5"
-                      value={editForm.casual}
-                      onChange={(e) => setEditForm({...editForm, casual: parseFloat(e.target.value) || 0})}
-                      className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
-                      disabled={loading}
-                    />
-                    <div className="mt-1 text-xs text-slate-500">
-                      Current: {selectedEmployee.balance.casual}
-                    </div>
-                  </div>
-
-                  <div>
-                    <label className="block text-xs font-medium text-slate-600 mb-2">
-                      Sick Leave
-                    </label>
-                    <input
-                      type="number"
-                      min="0"
-                      step="0.5"
-                      value={editForm.sick}
-                      onChange={(e) => setEditForm({...editForm, sick: parseFloat(e.target.value) || 0})}
-                      className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 outline-none"
-                      disabled={loading}
-                    />
-                    <div className="mt-1 text-xs text-slate-500">
-                      Current: {selectedEmployee.balance.sick}
+                  {balanceTypes.map(t => (
+                    <div key={t.id}>
+                      <label className="block text-xs font-medium text-slate-600 mb-2">
+                        {t.label}
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        value={editForm.balance[t.id] ?? 0}
+                        onChange={(e) => setEditForm({...editForm, balance: {...editForm.balance, [t.id]: parseFloat(e.target.value) || 0}})}
+                        className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+                        disabled={loading}
+                      />
+                      <div className="mt-1 text-xs text-slate-500">
+                        Current: {selectedEmployee.balance[t.id] || 0}
+                      </div>
                     </div>
-                  </div>
+                  ))}
+                </div>
+              </div>
 
-                  <div>
-                    <label className="block text-xs font-medium text-slate-600 mb-2">
-                      Annual Leave
-                    </label>
+              {/* Work Week Section */}
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="text-sm font-semibold text-slate-700">Work Week</h4>
+                  <label className="flex items-center gap-2 text-xs text-slate-600">
                     <input
-                      type="number"
-                      min="0"
-                      step="0.5"
-                      value={editForm.annual}
-                      onChange={(e) => setEditForm({...editForm, annual: parseFloat(e.target.value) || 0})}
-                      className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 outline-none"
+                      type="checkbox"
+                      checked={!editForm.custom_work_week}
+                      onChange={(e) => setEditForm({
+                        ...editForm,
+                        custom_work_week: !e.target.checked,
+                        work_week: e.target.checked ? defaultWorkWeek : editForm.work_week
+                      })}
                       disabled={loading}
+                      className="rounded border-slate-300 text-primary-600 focus:ring-primary-500"
                     />
-                    <div className="mt-1 text-xs text-slate-500">
-                      Current: {selectedEmployee.balance.annual}
-                    </div>
-                  </div>
+                    Use company default
+                  </label>
                 </div>
+                <WorkWeekPicker
+                  value={editForm.custom_work_week ? editForm.work_week : defaultWorkWeek}
+                  onChange={(work_week) => setEditForm({...editForm, custom_work_week: true, work_week})}
+                  disabled={loading}
+                />
+                <p className="text-xs text-slate-500 mt-1">
+                  Leave is only charged on working days
+                </p>
               </div>
 
               {/* Summary of Changes */}
-              {(editForm.casual !== selectedEmployee.balance.casual ||
-                editForm.sick !== selectedEmployee.balance.sick ||
-                editForm.annual !== selectedEmployee.balance.annual ||
+              {(changedLeaveTypes.length > 0 ||
+                workWeekChanged ||
                 editForm.reporting_to !== (selectedEmployee.reporting_to || '')) && (
                 <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                   <h5 className="text-xs font-bold text-blue-900 mb-2">Changes to be made:</h5>
@@ -403,25 +452,33 @@ const AdminEmployeeManagement: React.FC<AdminEmployeeManagementProps> = ({ curre
                         </span>
                       </li>
                     )}
-                    {editForm.casual !== selectedEmployee.balance.casual && (
+                    {workWeekChanged && (
                       <li className="flex items-start gap-2">
                         <span className="text-blue-500 mt-0.5">•</span>
-                        <span>Casual Leave: {selectedEmployee.balance.casual} → {editForm.casual}</span>
+                        <span>
+                          Work Week: {selectedEmployee.work_week ? formatWorkWeek(selectedEmployee.work_week) : 'Company default'} → {
+                            editForm.custom_work_week ? formatWorkWeek(editForm.work_week) : 'Company default'
+                          }
+                        </span>
                       </li>
                     )}
-                    {editForm.sick !== selectedEmployee.balance.sick && (
-                      <li className="flex items-start gap-2">
+                    {changedLeaveTypes.map(t => (
+                      <li key={t.id} className="flex items-start gap-2">
                         <span className="text-blue-500 mt-0.5">•</span>
-                        <span>Sick Leave: {selectedEmployee.balance.sick} → {editForm.sick}</span>
+                        <span>{t.label}: {selectedEmployee.balance[t.id] || 0} → {editForm.balance[t.id]}</span>
                       </li>
-                    )}
-                    {editForm.annual !== selectedEmployee.balance.annual && (
-                      <li className="flex items-start gap-2">
-                        <span className="text-blue-500 mt-0.5">•</span>
-                        <span>Annual Leave: {selectedEmployee.balance.annual} → {editForm.annual}</span>
-                      </li>
-                    )}
+                    ))}
                   </ul>
+                  {changedLeaveTypes.length > 0 && (
+                    <input
+                      type="text"
+                      value={editForm.reason}
+                      onChange={(e) => setEditForm({...editForm, reason: e.target.value})}
+                      placeholder="Reason for balance change (shown on the employee's statement)"
+                      className="mt-3 w-full px-3 py-2 border border-blue-200 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none bg-white"
+                      disabled={loading}
+                    />
+                  )}
                 </div>
               )}
 
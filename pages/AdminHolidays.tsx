@@ -0,0 +1,238 @@
+import React, { useState, useEffect } from 'react';
+import { User, Holiday, WorkWeek } from '../types';
+import { DEFAULT_WORK_WEEK } from '../constants';
+import * as DB from '../services/db';
+import WorkWeekPicker from '../components/WorkWeekPicker';
+import {
+  CalendarDays,
+  ChevronLeft,
+  ChevronRight,
+  Plus,
+  Trash2,
+  CheckCircle2,
+  AlertCircle,
+  Save
+} from 'lucide-react';
+
+interface AdminHolidaysProps {
+  currentUser: User;
+}
+
+const AdminHolidays: React.FC<AdminHolidaysProps> = ({ currentUser }) => {
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [formData, setFormData] = useState({ date: '', name: '' });
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [workWeek, setWorkWeek] = useState<WorkWeek>(DEFAULT_WORK_WEEK);
+
+  useEffect(() => {
+    loadHolidays();
+  }, [year]);
+
+  useEffect(() => {
+    DB.getDefaultWorkWeek().then(setWorkWeek);
+  }, []);
+
+  const loadHolidays = async () => {
+    try {
+      const list = await DB.getHolidays(year);
+      setHolidays(list);
+    } catch (err) {
+      console.error('Error loading holidays:', err);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+
+    if (!formData.date || !formData.name.trim()) {
+      setMessage({ type: 'error', text: 'Please enter a date and a name.' });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const result = await DB.addHoliday({
+        id: crypto.randomUUID(),
+        date: formData.date,
+        name: formData.name.trim()
+      });
+
+      if (result.success) {
+        setMessage({ type: 'success', text: `${formData.name.trim()} added on ${formData.date}` });
+        setFormData({ date: '', name: '' });
+        // Jump to the year of the new holiday so it is visible
+        const addedYear = Number(formData.date.slice(0, 4));
+        if (addedYear !== year) {
+          setYear(addedYear);
+        } else {
+          await loadHolidays();
+        }
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to add holiday' });
+      }
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveWorkWeek = async () => {
+    setMessage(null);
+
+    if (workWeek.length === 0) {
+      setMessage({ type: 'error', text: 'Select at least one working day.' });
+      return;
+    }
+
+    setLoading(true);
+    const success = await DB.saveDefaultWorkWeek(workWeek);
+    setLoading(false);
+    setMessage(success
+      ? { type: 'success', text: 'Company work week updated' }
+      : { type: 'error', text: 'Failed to update company work week' });
+  };
+
+  const handleDelete = async (holiday: Holiday) => {
+    setMessage(null);
+    const success = await DB.deleteHoliday(holiday.id);
+    if (success) {
+      setMessage({ type: 'success', text: `${holiday.name} removed` });
+      await loadHolidays();
+    } else {
+      setMessage({ type: 'error', text: 'Failed to remove holiday' });
+    }
+  };
+
+  if (currentUser.role !== 'admin') {
+    return (
+      <div className="flex flex-col items-center justify-center h-96 text-center">
+        <div className="bg-red-100 p-4 rounded-full mb-4">
+          <AlertCircle className="w-8 h-8 text-red-600" />
+        </div>
+        <h2 className="text-xl font-bold text-slate-900">Access Denied</h2>
+        <p className="text-slate-500 mt-2">Only administrators can access this page.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-slate-900">Holiday Calendar</h1>
+        <p className="text-slate-500">Public holidays and non-working days are not charged against leave balances</p>
+      </div>
+
+      {message && (
+        <div className={`p-4 rounded-lg flex items-center gap-2 ${
+          message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+        }`}>
+          {message.type === 'success' ? <CheckCircle2 size={20} /> : <AlertCircle size={20} />}
+          {message.text}
+        </div>
+      )}
+
+      {/* Company Work Week */}
+      <div className="bg-white rounded-xl border border-slate-200 p-4 flex flex-col md:flex-row gap-3 md:items-center md:justify-between">
+        <div>
+          <h3 className="text-sm font-semibold text-slate-900">Company Work Week</h3>
+          <p className="text-xs text-slate-500 mb-2">Default for employees without their own work week</p>
+          <WorkWeekPicker value={workWeek} onChange={setWorkWeek} disabled={loading} />
+        </div>
+        <button
+          onClick={handleSaveWorkWeek}
+          disabled={loading}
+          className="px-5 py-2 border border-slate-300 text-slate-700 rounded-lg font-medium hover:bg-slate-50 flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+        >
+          <Save size={18} />
+          Save Work Week
+        </button>
+      </div>
+
+      {/* Add Holiday */}
+      <form onSubmit={handleAdd} className="bg-white rounded-xl border border-slate-200 p-4 flex flex-col md:flex-row gap-3 md:items-end">
+        <div>
+          <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Date</label>
+          <input
+            type="date"
+            value={formData.date}
+            onChange={e => setFormData({...formData, date: e.target.value})}
+            className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+            disabled={loading}
+          />
+        </div>
+        <div className="flex-1">
+          <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Name</label>
+          <input
+            type="text"
+            value={formData.name}
+            onChange={e => setFormData({...formData, name: e.target.value})}
+            placeholder="e.g. Eid al-Fitr"
+            className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+            disabled={loading}
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={loading}
+          className="bg-primary-600 hover:bg-primary-700 text-white px-5 py-2 rounded-lg font-medium flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+        >
+          <Plus size={18} />
+          Add Holiday
+        </button>
+      </form>
+
+      {/* Holidays for the selected year */}
+      <div className="bg-white shadow-sm border border-slate-200 rounded-xl overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200 bg-slate-50">
+          <button onClick={() => setYear(year - 1)} className="p-1.5 text-slate-500 hover:bg-slate-200 rounded-lg">
+            <ChevronLeft size={18} />
+          </button>
+          <div className="flex items-center gap-2 font-semibold text-slate-900">
+            <CalendarDays size={18} className="text-primary-600" />
+            {year}
+            <span className="text-xs font-normal text-slate-500">({holidays.length} holiday{holidays.length === 1 ? '' : 's'})</span>
+          </div>
+          <button onClick={() => setYear(year + 1)} className="p-1.5 text-slate-500 hover:bg-slate-200 rounded-lg">
+            <ChevronRight size={18} />
+          </button>
+        </div>
+        <table className="w-full text-left border-collapse">
+          <tbody className="divide-y divide-slate-100">
+            {holidays.length === 0 ? (
+              <tr>
+                <td className="px-6 py-8 text-center text-slate-400 text-sm">
+                  No holidays defined for {year}.
+                </td>
+              </tr>
+            ) : (
+              holidays.map(holiday => (
+                <tr key={holiday.id} className="hover:bg-slate-50 transition-colors">
+                  <td className="px-6 py-4 text-sm font-medium text-slate-900 w-40">{holiday.date}</td>
+                  <td className="px-6 py-4 text-sm text-slate-500 w-32">
+                    {new Date(`${holiday.date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'long' })}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-slate-700">{holiday.name}</td>
+                  <td className="px-6 py-4 text-right">
+                    <button
+                      onClick={() => handleDelete(holiday)}
+                      className="inline-flex items-center gap-1.5 px-3 py-1.5 border border-red-200 text-red-600 hover:bg-red-50 text-sm rounded-lg font-medium transition-colors"
+                    >
+                      <Trash2 size={14} />
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AdminHolidays;
@@ -0,0 +1,301 @@
+import React, { useState, useEffect } from 'react';
+import { User, CancellationPolicy, StaffingRule, ApprovalSlaPolicy, ApprovalSlaAction } from '../types';
+import { DEFAULT_CANCELLATION_POLICY, DEFAULT_COMP_OFF_EXPIRY_DAYS, DEFAULT_APPROVAL_SLA, APPROVAL_SLA_ACTION_LABELS } from '../constants';
+import * as DB from '../services/db';
+import { CheckCircle2, AlertCircle, Save } from 'lucide-react';
+
+// Staffing rule being edited for one team; a blank minimum means no rule
+type StaffingDraft = { min_present: string; mode: StaffingRule['mode'] };
+
+interface AdminLeavePoliciesProps {
+  currentUser: User;
+}
+
+const CANCELLATION_OPTIONS: { value: CancellationPolicy; label: string; description: string }[] = [
+  {
+    value: 'approval',
+    label: 'Approver must confirm',
+    description: 'The leave stays approved until the approver accepts the cancellation, then the days are credited back.'
+  },
+  {
+    value: 'immediate',
+    label: 'Cancel immediately',
+    description: 'The leave is cancelled and the days are credited back as soon as the employee cancels.'
+  }
+];
+
+const AdminLeavePolicies: React.FC<AdminLeavePoliciesProps> = ({ currentUser }) => {
+  const [cancellationPolicy, setCancellationPolicy] = useState<CancellationPolicy>(DEFAULT_CANCELLATION_POLICY);
+  const [compOffExpiryDays, setCompOffExpiryDays] = useState(DEFAULT_COMP_OFF_EXPIRY_DAYS);
+  const [users, setUsers] = useState<User[]>([]);
+  const [staffing, setStaffing] = useState<Record<string, StaffingDraft>>({});
+  const [sla, setSla] = useState<ApprovalSlaPolicy>(DEFAULT_APPROVAL_SLA);
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    DB.getCancellationPolicy().then(setCancellationPolicy);
+    DB.getCompOffExpiryDays().then(setCompOffExpiryDays);
+    DB.getApprovalSla().then(setSla);
+    DB.getUsers().then(setUsers).catch(err => console.error('Error loading users:', err));
+    DB.getStaffingRules().then(rules => setStaffing(Object.fromEntries(
+      rules.map(r => [r.manager_id, { min_present: String(r.min_present), mode: r.mode }])
+    )));
+  }, []);
+
+  // A team is everyone reporting to the same manager
+  const teams = users
+    .map(manager => ({ manager, size: users.filter(u => u.reporting_to === manager.id).length }))
+    .filter(t => t.size > 0);
+
+  const draftFor = (managerId: string): StaffingDraft => staffing[managerId] || { min_present: '', mode: 'warn' };
+
+  const handleSave = async () => {
+    setMessage(null);
+
+    if (!Number.isInteger(compOffExpiryDays) || compOffExpiryDays < 0) {
+      setMessage({ type: 'error', text: 'Comp-off expiry must be a whole number of days (0 for never)' });
+      return;
+    }
+
+    if (sla.enabled && (!Number.isInteger(sla.after_days) || sla.after_days < 1)) {
+      setMessage({ type: 'error', text: 'Approval deadline must be a whole number of working days (at least 1)' });
+      return;
+    }
+
+    const staffingRules: StaffingRule[] = [];
+    for (const { manager, size } of teams) {
+      const draft = draftFor(manager.id);
+      if (draft.min_present.trim() === '') continue;
+
+      const minPresent = Number(draft.min_present);
+      if (!Number.isInteger(minPresent) || minPresent < 1 || minPresent > size) {
+        setMessage({ type: 'error', text: `Minimum staffing for ${manager.name}'s team must be a whole number from 1 to ${size}` });
+        return;
+      }
+      staffingRules.push({ manager_id: manager.id, min_present: minPresent, mode: draft.mode });
+    }
+
+    setLoading(true);
+    const results = await Promise.all([
+      DB.saveCancellationPolicy(cancellationPolicy),
+      DB.saveCompOffExpiryDays(compOffExpiryDays),
+      DB.saveStaffingRules(staffingRules),
+      DB.saveApprovalSla(sla)
+    ]);
+    const success = results.every(Boolean);
+    setLoading(false);
+    setMessage(success
+      ? { type: 'success', text: 'Leave policies updated' }
+      : { type: 'error', text: 'Failed to update leave policies' });
+  };
+
+  if (currentUser.role !== 'admin') {
+    return (
+      <div className="flex flex-col items-center justify-center h-96 text-center">
+        <div className="bg-red-100 p-4 rounded-full mb-4">
+          <AlertCircle className="w-8 h-8 text-red-600" />
+        </div>
+        <h2 className="text-xl font-bold text-slate-900">Access Denied</h2>
+        <p className="text-slate-500 mt-2">Only administrators can access this page.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">Leave Policies</h1>
+          <p className="text-slate-500">Company rules for requesting and cancelling leave</p>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={loading}
+          className="bg-primary-600 hover:bg-primary-700 text-white px-5 py-2.5 rounded-lg font-medium flex items-center gap-2 shadow-lg shadow-primary-600/30 transition-all active:scale-95 disabled:opacity-50"
+        >
+          <Save size={20} />
+          Save Policies
+        </button>
+      </div>
+
+      {message && (
+        <div className={`p-4 rounded-lg flex items-center gap-2 ${
+          message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+        }`}>
+          {message.type === 'success' ? <CheckCircle2 size={20} /> : <AlertCircle size={20} />}
+          {message.text}
+        </div>
+      )}
+
+      {/* Cancellation */}
+      <div className="bg-white rounded-xl border border-slate-200 p-6 space-y-4">
+        <div>
+          <h3 className="text-sm font-bold text-slate-900 uppercase tracking-wider">Cancelling Approved Leave</h3>
+          <p className="text-sm text-slate-500">
+            Employees can withdraw pending requests at any time and cancel approved leave that has not started yet.
+          </p>
+        </div>
+        <div className="space-y-2">
+          {CANCELLATION_OPTIONS.map(option => (
+            <label
+              key={option.value}
+              className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                cancellationPolicy === option.value ? 'border-primary-500 bg-primary-50' : 'border-slate-200 hover:bg-slate-50'
+              }`}
+            >
+              <input
+                type="radio"
+                name="cancellation_policy"
+                checked={cancellationPolicy === option.value}
+                onChange={() => setCancellationPolicy(option.value)}
+                className="mt-1"
+                disabled={loading}
+              />
+              <div>
+                <p className="text-sm font-medium text-slate-900">{option.label}</p>
+                <p className="text-xs text-slate-500">{option.description}</p>
+              </div>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Comp-off */}
+      <div className="bg-white rounded-xl border border-slate-200 p-6 space-y-4">
+        <div>
+          <h3 className="text-sm font-bold text-slate-900 uppercase tracking-wider">Comp-Off Expiry</h3>
+          <p className="text-sm text-slate-500">
+            How long a comp-off credit can be used after the weekend or holiday that was worked. Applies to claims approved from now on.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <input
+            type="number"
+            min="0"
+            value={compOffExpiryDays}
+            onChange={e => setCompOffExpiryDays(Number(e.target.value))}
+            className="w-28 border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+            disabled={loading}
+          />
+          <span className="text-sm text-slate-600">
+            {compOffExpiryDays === 0 ? 'days (never expires)' : 'days'}
+          </span>
+        </div>
+      </div>
+
+      {/* Approval SLA */}
+      <div className="bg-white rounded-xl border border-slate-200 p-6 space-y-4">
+        <div>
+          <h3 className="text-sm font-bold text-slate-900 uppercase tracking-wider">Approval Deadline</h3>
+          <p className="text-sm text-slate-500">
+            What happens when an approval step waits too long. Each escalation is recorded on the request and shown to the employee.
+          </p>
+        </div>
+        <div className="flex items-center gap-3 text-sm text-slate-600">
+          <input
+            type="checkbox"
+            checked={sla.enabled}
+            onChange={e => setSla({ ...sla, enabled: e.target.checked })}
+            className="rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+            disabled={loading}
+          />
+          <span>Act on steps with no decision after</span>
+          <input
+            type="number"
+            min="1"
+            value={sla.after_days}
+            onChange={e => setSla({ ...sla, after_days: Number(e.target.value) })}
+            className="w-20 border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none disabled:bg-slate-50"
+            disabled={loading || !sla.enabled}
+          />
+          <span>working days</span>
+        </div>
+        <div className="space-y-2">
+          {(Object.keys(APPROVAL_SLA_ACTION_LABELS) as ApprovalSlaAction[]).map(action => (
+            <label
+              key={action}
+              className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                !sla.enabled ? 'opacity-50 border-slate-200'
+                  : sla.action === action ? 'border-primary-500 bg-primary-50' : 'border-slate-200 hover:bg-slate-50'
+              }`}
+            >
+              <input
+                type="radio"
+                name="sla_action"
+                checked={sla.action === action}
+                onChange={() => setSla({ ...sla, action })}
+                className="mt-1"
+                disabled={loading || !sla.enabled}
+              />
+              <div>
+                <p className="text-sm font-medium text-slate-900">{APPROVAL_SLA_ACTION_LABELS[action].label}</p>
+                <p className="text-xs text-slate-500">{APPROVAL_SLA_ACTION_LABELS[action].description}</p>
+              </div>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Minimum staffing */}
+      <div className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+        <div className="p-6 pb-4">
+          <h3 className="text-sm font-bold text-slate-900 uppercase tracking-wider">Minimum Staffing</h3>
+          <p className="text-sm text-slate-500">
+            How many of a manager's reportees must be working on any day. Approvers see a warning, or cannot approve, when leave would breach it.
+          </p>
+        </div>
+        {teams.length === 0 ? (
+          <p className="px-6 pb-6 text-sm text-slate-400">No employee has a manager assigned yet.</p>
+        ) : (
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-slate-50 border-y border-slate-200">
+                <th className="px-6 py-3 text-xs font-semibold text-slate-500 uppercase tracking-wider">Team</th>
+                <th className="px-6 py-3 text-xs font-semibold text-slate-500 uppercase tracking-wider">Members</th>
+                <th className="px-6 py-3 text-xs font-semibold text-slate-500 uppercase tracking-wider">Minimum Working</th>
+                <th className="px-6 py-3 text-xs font-semibold text-slate-500 uppercase tracking-wider">When Breached</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {teams.map(({ manager, size }) => {
+                const draft = draftFor(manager.id);
+                return (
+                  <tr key={manager.id}>
+                    <td className="px-6 py-3 text-sm font-medium text-slate-900">{manager.name}'s team</td>
+                    <td className="px-6 py-3 text-sm text-slate-600">{size}</td>
+                    <td className="px-6 py-3">
+                      <input
+                        type="number"
+                        min="1"
+                        max={size}
+                        value={draft.min_present}
+                        placeholder="No rule"
+                        onChange={e => setStaffing({ ...staffing, [manager.id]: { ...draft, min_present: e.target.value } })}
+                        className="w-28 border border-slate-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+                        disabled={loading}
+                      />
+                    </td>
+                    <td className="px-6 py-3">
+                      <select
+                        value={draft.mode}
+                        onChange={e => setStaffing({ ...staffing, [manager.id]: { ...draft, mode: e.target.value as StaffingRule['mode'] } })}
+                        className="border border-slate-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none bg-white disabled:bg-slate-50"
+                        disabled={loading || draft.min_present.trim() === ''}
+                      >
+                        <option value="warn">Warn the approver</option>
+                        <option value="block">Block approval</option>
+                      </select>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminLeavePolicies;
@@ -0,0 +1,529 @@
+import React, { useState, useEffect } from 'react';
+import { User, LeaveTypeConfig, LeaveTypeColor, ProrationRounding } from '../types';
+import { LEAVE_TYPE_COLORS, DEFAULT_PRORATION_ROUNDING, PRORATION_ROUNDING_LABELS } from '../constants';
+import * as DB from '../services/db';
+import { slugifyLeaveType } from '../utils/leaveTypes';
+import {
+  Tags,
+  Plus,
+  Edit2,
+  Trash2,
+  CheckCircle2,
+  AlertCircle,
+  X,
+  Save
+} from 'lucide-react';
+
+interface AdminLeaveTypesProps {
+  currentUser: User;
+}
+
+const emptyForm = {
+  label: '',
+  color: 'blue' as LeaveTypeColor,
+  default_entitlement: 0,
+  accrual_rate: 0,
+  year_end: 'carry_all' as 'carry_all' | 'carry_limited' | 'expire',
+  carry_forward_max: 0,
+  year_start_grant: false,
+  requires_attachment: false,
+  attachment_required_after: 0,
+  requires_notice: false,
+  min_notice_days: 0,
+  limits_backdate: false,
+  max_backdate_days: 0
+};
+
+const describeYearEnd = (type: LeaveTypeConfig) => {
+  const carry = type.carry_forward_max === null
+    ? 'Carry all'
+    : type.carry_forward_max === 0 ? 'Expires' : `Carry up to ${type.carry_forward_max}`;
+  return type.year_start_grant ? `${carry}, then re-grant` : carry;
+};
+
+const AdminLeaveTypes: React.FC<AdminLeaveTypesProps> = ({ currentUser }) => {
+  const [leaveTypes, setLeaveTypes] = useState<LeaveTypeConfig[]>([]);
+  const [editing, setEditing] = useState<LeaveTypeConfig | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [rounding, setRounding] = useState<ProrationRounding>(DEFAULT_PRORATION_ROUNDING);
+
+  useEffect(() => {
+    loadLeaveTypes();
+    DB.getProrationRounding().then(setRounding);
+  }, []);
+
+  const loadLeaveTypes = async () => {
+    try {
+      const types = await DB.getLeaveTypes();
+      setLeaveTypes(types);
+    } catch (err) {
+      console.error('Error loading leave types:', err);
+    }
+  };
+
+  const openModal = (type: LeaveTypeConfig | null) => {
+    setEditing(type);
+    setForm(type ? {
+      label: type.label,
+      color: type.color,
+      default_entitlement: type.default_entitlement,
+      accrual_rate: type.accrual_rate,
+      year_end: type.carry_forward_max === null ? 'carry_all' : type.carry_forward_max === 0 ? 'expire' : 'carry_limited',
+      carry_forward_max: type.carry_forward_max || 0,
+      year_start_grant: type.year_start_grant,
+      requires_attachment: type.attachment_required_after !== null,
+      attachment_required_after: type.attachment_required_after || 0,
+      requires_notice: type.min_notice_days !== null,
+      min_notice_days: type.min_notice_days || 0,
+      limits_backdate: type.max_backdate_days !== null,
+      max_backdate_days: type.max_backdate_days || 0
+    } : emptyForm);
+    setMessage(null);
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditing(null);
+    setMessage(null);
+  };
+
+  const handleSave = async () => {
+    setMessage(null);
+
+    const id = editing ? editing.id : slugifyLeaveType(form.label);
+    if (!form.label.trim() || !id) {
+      setMessage({ type: 'error', text: 'Please enter a name for the leave type' });
+      return;
+    }
+    if (!editing && leaveTypes.some(t => t.id === id)) {
+      setMessage({ type: 'error', text: `A leave type with id "${id}" already exists` });
+      return;
+    }
+    if (form.default_entitlement < 0 || form.accrual_rate < 0) {
+      setMessage({ type: 'error', text: 'Entitlement and accrual rate cannot be negative' });
+      return;
+    }
+    if (form.year_end === 'carry_limited' && form.carry_forward_max <= 0) {
+      setMessage({ type: 'error', text: 'Carry-forward limit must be greater than 0' });
+      return;
+    }
+    if (form.requires_attachment && form.attachment_required_after < 0) {
+      setMessage({ type: 'error', text: 'Document threshold cannot be negative' });
+      return;
+    }
+    if ((form.requires_notice && form.min_notice_days < 0) || (form.limits_backdate && form.max_backdate_days < 0)) {
+      setMessage({ type: 'error', text: 'Notice and backdating limits cannot be negative' });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const result = await DB.saveLeaveType({
+        id,
+        label: form.label.trim(),
+        color: form.color,
+        default_entitlement: form.default_entitlement,
+        accrual_rate: form.accrual_rate,
+        carry_forward_max: form.year_end === 'carry_all' ? null : form.year_end === 'expire' ? 0 : form.carry_forward_max,
+        year_start_grant: form.year_start_grant,
+        attachment_required_after: form.requires_attachment ? form.attachment_required_after : null,
+        min_notice_days: form.requires_notice ? form.min_notice_days : null,
+        max_backdate_days: form.limits_backdate ? form.max_backdate_days : null,
+        sort_order: editing ? editing.sort_order : Math.max(0, ...leaveTypes.map(t => t.sort_order)) + 1
+      });
+
+      if (result.success) {
+        await loadLeaveTypes();
+        setShowModal(false);
+        setEditing(null);
+        setMessage({ type: 'success', text: `Leave type "${form.label.trim()}" saved` });
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to save leave type' });
+      }
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRoundingChange = async (value: ProrationRounding) => {
+    setMessage(null);
+    setRounding(value);
+    const success = await DB.saveProrationRounding(value);
+    setMessage(success
+      ? { type: 'success', text: `Pro-rated entitlements will be rounded: ${PRORATION_ROUNDING_LABELS[value].toLowerCase()}` }
+      : { type: 'error', text: 'Failed to update rounding rule' });
+  };
+
+  const handleDelete = async (type: LeaveTypeConfig) => {
+    if (!window.confirm(`Delete "${type.label}"? Existing balances for this type will no longer be shown.`)) return;
+
+    setMessage(null);
+    const result = await DB.deleteLeaveType(type.id);
+    if (result.success) {
+      setMessage({ type: 'success', text: `Leave type "${type.label}" deleted` });
+      await loadLeaveTypes();
+    } else {
+      setMessage({ type: 'error', text: result.error || 'Failed to delete leave type' });
+    }
+  };
+
+  if (currentUser.role !== 'admin') {
+    return (
+      <div className="flex flex-col items-center justify-center h-96 text-center">
+        <div className="bg-red-100 p-4 rounded-full mb-4">
+          <AlertCircle className="w-8 h-8 text-red-600" />
+        </div>
+        <h2 className="text-xl font-bold text-slate-900">Access Denied</h2>
+        <p className="text-slate-500 mt-2">Only administrators can access this page.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">Leave Types</h1>
+          <p className="text-slate-500">Manage the leave categories available to employees</p>
+        </div>
+        <button
+          onClick={() => openModal(null)}
+          className="bg-primary-600 hover:bg-primary-700 text-white px-5 py-2.5 rounded-lg font-medium flex items-center gap-2 shadow-lg shadow-primary-600/30 transition-all active:scale-95"
+        >
+          <Plus size={20} />
+          Add Leave Type
+        </button>
+      </div>
+
+      {message && !showModal && (
+        <div className={`p-4 rounded-lg flex items-center gap-2 ${
+          message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+        }`}>
+          {message.type === 'success' ? <CheckCircle2 size={20} /> : <AlertCircle size={20} />}
+          {message.text}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl border border-slate-200 p-4 flex flex-col md:flex-row gap-3 md:items-center md:justify-between">
+        <div>
+          <h3 className="text-sm font-semibold text-slate-900">Pro-rating</h3>
+          <p className="text-xs text-slate-500">
+            Employees joining mid-year get the default entitlement for the months left, including the joining month
+          </p>
+        </div>
+        <select
+          value={rounding}
+          onChange={e => handleRoundingChange(e.target.value as ProrationRounding)}
+          className="border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none bg-white"
+        >
+          {(Object.keys(PRORATION_ROUNDING_LABELS) as ProrationRounding[]).map(key => (
+            <option key={key} value={key}>{PRORATION_ROUNDING_LABELS[key]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="bg-white shadow-sm border border-slate-200 rounded-xl overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-slate-50 border-b border-slate-200">
+                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Leave Type</th>
+                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Id</th>
+                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Default Entitlement</th>
+                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Monthly Accrual</th>
+                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Year End</th>
+                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {leaveTypes.map((type) => (
+                <tr key={type.id} className="hover:bg-slate-50 transition-colors">
+                  <td className="px-6 py-4">
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${LEAVE_TYPE_COLORS[type.color]?.badge || LEAVE_TYPE_COLORS.slate.badge}`}>
+                      {type.label}
+                    </span>
+                    {type.attachment_required_after !== null && (
+                      <p className="text-xs text-slate-500 mt-1">
+                        Document required {type.attachment_required_after > 0 ? `over ${type.attachment_required_after} day(s)` : 'always'}
+                      </p>
+                    )}
+                    {type.min_notice_days !== null && (
+                      <p className="text-xs text-slate-500 mt-1">{type.min_notice_days} day(s) notice</p>
+                    )}
+                    {type.max_backdate_days !== null && (
+                      <p className="text-xs text-slate-500 mt-1">
+                        {type.max_backdate_days > 0 ? `Backdate up to ${type.max_backdate_days} day(s)` : 'No backdating'}
+                      </p>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-slate-500 font-mono">{type.id}</td>
+                  <td className="px-6 py-4 text-sm text-slate-700">{type.default_entitlement} day(s)</td>
+                  <td className="px-6 py-4 text-sm text-slate-700">
+                    {type.accrual_rate > 0 ? `${type.accrual_rate} day(s) / month` : <span className="text-xs text-slate-400 italic">None</span>}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-slate-700">{describeYearEnd(type)}</td>
+                  <td className="px-6 py-4 text-right">
+                    <div className="inline-flex gap-2">
+                      <button
+                        onClick={() => openModal(type)}
+                        className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-primary-600 hover:bg-primary-700 text-white text-sm rounded-lg font-medium transition-colors"
+                      >
+                        <Edit2 size={14} />
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(type)}
+                        className="inline-flex items-center gap-1.5 px-3 py-1.5 border border-red-200 text-red-600 hover:bg-red-50 text-sm rounded-lg font-medium transition-colors"
+                      >
+                        <Trash2 size={14} />
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Add / Edit Modal */}
+      {showModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden animate-fade-in-up">
+            <div className="bg-gradient-to-r from-primary-600 to-primary-700 px-6 py-4 text-white">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 bg-white/20 rounded-lg flex items-center justify-center">
+                    <Tags className="w-5 h-5" />
+                  </div>
+                  <h3 className="text-lg font-bold">{editing ? 'Edit Leave Type' : 'New Leave Type'}</h3>
+                </div>
+                <button onClick={closeModal} className="text-white/80 hover:text-white transition-colors">
+                  <X size={20} />
+                </button>
+              </div>
+            </div>
+
+            <div className="p-6 space-y-4">
+              {message && (
+                <div className={`p-3 rounded-lg text-sm flex items-center gap-2 ${
+                  message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+                }`}>
+                  {message.type === 'success' ? <CheckCircle2 size={16} /> : <AlertCircle size={16} />}
+                  {message.text}
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={form.label}
+                  onChange={e => setForm({...form, label: e.target.value})}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+                  placeholder="e.g. Hajj Leave"
+                  disabled={loading}
+                />
+                <p className="text-xs text-slate-500 mt-1">
+                  Id: <span className="font-mono">{editing ? editing.id : (slugifyLeaveType(form.label) || '—')}</span>
+                  {editing && ' (cannot be changed)'}
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Default Entitlement (Days)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={form.default_entitlement}
+                  onChange={e => setForm({...form, default_entitlement: parseFloat(e.target.value) || 0})}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+                  disabled={loading}
+                />
+                <p className="text-xs text-slate-500 mt-1">Pre-filled when enrolling a new employee</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Monthly Accrual (Days)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.25"
+                  value={form.accrual_rate}
+                  onChange={e => setForm({...form, accrual_rate: parseFloat(e.target.value) || 0})}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+                  disabled={loading}
+                />
+                <p className="text-xs text-slate-500 mt-1">Credited to every employee by the monthly accrual run (0 = no accrual)</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">At Year End</label>
+                <div className="flex gap-2">
+                  <select
+                    value={form.year_end}
+                    onChange={e => setForm({...form, year_end: e.target.value as typeof form.year_end})}
+                    className="flex-1 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none bg-white"
+                    disabled={loading}
+                  >
+                    <option value="carry_all">Carry forward everything</option>
+                    <option value="carry_limited">Carry forward up to a limit</option>
+                    <option value="expire">Unused balance expires</option>
+                  </select>
+                  {form.year_end === 'carry_limited' && (
+                    <input
+                      type="number"
+                      min="0.5"
+                      step="0.5"
+                      value={form.carry_forward_max}
+                      onChange={e => setForm({...form, carry_forward_max: parseFloat(e.target.value) || 0})}
+                      className="w-24 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+                      disabled={loading}
+                    />
+                  )}
+                </div>
+                <label className="flex items-center gap-2 text-sm text-slate-600 mt-2">
+                  <input
+                    type="checkbox"
+                    checked={form.year_start_grant}
+                    onChange={e => setForm({...form, year_start_grant: e.target.checked})}
+                    disabled={loading}
+                    className="rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  Grant the default entitlement when the new year opens
+                </label>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Supporting Document</label>
+                <div className="flex items-center gap-2 text-sm text-slate-600">
+                  <input
+                    type="checkbox"
+                    checked={form.requires_attachment}
+                    onChange={e => setForm({...form, requires_attachment: e.target.checked})}
+                    disabled={loading}
+                    className="rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span>Required for requests longer than</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={form.attachment_required_after}
+                    onChange={e => setForm({...form, attachment_required_after: parseFloat(e.target.value) || 0})}
+                    className="w-20 px-2 py-1 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none disabled:bg-slate-50"
+                    disabled={loading || !form.requires_attachment}
+                  />
+                  <span>day(s)</span>
+                </div>
+                <p className="text-xs text-slate-500 mt-1">e.g. a medical certificate; approval waits until one is attached</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Notice &amp; Backdating</label>
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2 text-sm text-slate-600">
+                    <input
+                      type="checkbox"
+                      checked={form.requires_notice}
+                      onChange={e => setForm({...form, requires_notice: e.target.checked})}
+                      disabled={loading}
+                      className="rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    <span>Request at least</span>
+                    <input
+                      type="number"
+                      min="0"
+                      value={form.min_notice_days}
+                      onChange={e => setForm({...form, min_notice_days: parseInt(e.target.value) || 0})}
+                      className="w-20 px-2 py-1 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none disabled:bg-slate-50"
+                      disabled={loading || !form.requires_notice}
+                    />
+                    <span>day(s) ahead</span>
+                  </div>
+                  <div className="flex items-center gap-2 text-sm text-slate-600">
+                    <input
+                      type="checkbox"
+                      checked={form.limits_backdate}
+                      onChange={e => setForm({...form, limits_backdate: e.target.checked})}
+                      disabled={loading}
+                      className="rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    <span>Backdate by at most</span>
+                    <input
+                      type="number"
+                      min="0"
+                      value={form.max_backdate_days}
+                      onChange={e => setForm({...form, max_backdate_days: parseInt(e.target.value) || 0})}
+                      className="w-20 px-2 py-1 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none disabled:bg-slate-50"
+                      disabled={loading || !form.limits_backdate}
+                    />
+                    <span>day(s)</span>
+                  </div>
+                </div>
+                <p className="text-xs text-slate-500 mt-1">Employees can still submit an emergency request, which is flagged for the approver</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Color</label>
+                <div className="flex flex-wrap gap-2">
+                  {(Object.keys(LEAVE_TYPE_COLORS) as LeaveTypeColor[]).map(color => (
+                    <button
+                      key={color}
+                      type="button"
+                      onClick={() => setForm({...form, color})}
+                      disabled={loading}
+                      title={color}
+                      className={`w-8 h-8 rounded-full ${LEAVE_TYPE_COLORS[color].bar} ${
+                        form.color === color ? 'ring-2 ring-offset-2 ring-slate-900' : ''
+                      }`}
+                    />
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex gap-3 pt-2">
+                <button
+                  type="button"
+                  onClick={closeModal}
+                  disabled={loading}
+                  className="flex-1 px-4 py-2.5 border border-slate-300 text-slate-700 rounded-lg font-medium hover:bg-slate-50 transition-colors disabled:opacity-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={loading}
+                  className="flex-1 px-4 py-2.5 bg-primary-600 hover:bg-primary-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                >
+                  {loading ? (
+                    <>
+                      <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    <>
+                      <Save size={16} />
+                      Save
+                    </>
+                  )}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminLeaveTypes;
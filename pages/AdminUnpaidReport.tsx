@@ -0,0 +1,148 @@
+import React, { useState, useEffect } from 'react';
+import { User, UnpaidLeaveReportRow } from '../types';
+import * as DB from '../services/db';
+import { AlertCircle, Download } from 'lucide-react';
+
+interface AdminUnpaidReportProps {
+  currentUser: User;
+}
+
+const AdminUnpaidReport: React.FC<AdminUnpaidReportProps> = ({ currentUser }) => {
+  const [period, setPeriod] = useState(new Date().toISOString().slice(0, 7));
+  const [rows, setRows] = useState<UnpaidLeaveReportRow[]>([]);
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!period) return;
+    const load = async () => {
+      setMessage(null);
+      setLoading(true);
+      try {
+        setRows(await DB.getUnpaidLeaveReport(period));
+      } catch (err: any) {
+        setRows([]);
+        setMessage({ type: 'error', text: err.message || 'Failed to load unpaid leave' });
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [period]);
+
+  const totalDays = rows.reduce((sum, r) => sum + r.days, 0);
+
+  const handleDownload = () => {
+    const lines = [
+      ['Employee', 'Email', 'Unpaid Days', 'Dates'],
+      ...rows.map(r => [r.user_name, r.user_email, String(r.days), r.dates.join(' ')])
+    ].map(cells => cells.map(c => `"${c.replace(/"/g, '""')}"`).join(','));
+
+    const url = URL.createObjectURL(new Blob([lines.join('\n')], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `unpaid-leave-${period}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (currentUser.role !== 'admin') {
+    return (
+      <div className="flex flex-col items-center justify-center h-96 text-center">
+        <div className="bg-red-100 p-4 rounded-full mb-4">
+          <AlertCircle className="w-8 h-8 text-red-600" />
+        </div>
+        <h2 className="text-xl font-bold text-slate-900">Access Denied</h2>
+        <p className="text-slate-500 mt-2">Only administrators can access this page.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">Unpaid Leave</h1>
+          <p className="text-slate-500">Approved unpaid days per employee, for payroll</p>
+        </div>
+        <div className="flex items-end gap-3">
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Month</label>
+            <input
+              type="month"
+              value={period}
+              onChange={e => setPeriod(e.target.value)}
+              className="border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none bg-white"
+            />
+          </div>
+          <button
+            onClick={handleDownload}
+            disabled={loading || rows.length === 0}
+            className="bg-primary-600 hover:bg-primary-700 text-white px-5 py-2.5 rounded-lg font-medium flex items-center gap-2 shadow-lg shadow-primary-600/30 transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download size={18} />
+            Download CSV
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div className={`p-4 rounded-lg flex items-center gap-2 ${
+          message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+        }`}>
+          <AlertCircle size={20} />
+          {message.text}
+        </div>
+      )}
+
+      <div className="bg-white shadow-sm border border-slate-200 rounded-xl overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-slate-50 border-b border-slate-200">
+                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Employee</th>
+                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Unpaid Days</th>
+                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Dates</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {loading ? (
+                <tr>
+                  <td colSpan={3} className="px-6 py-8 text-center text-slate-400 text-sm">Loading...</td>
+                </tr>
+              ) : rows.length === 0 ? (
+                <tr>
+                  <td colSpan={3} className="px-6 py-8 text-center text-slate-400 text-sm">
+                    No unpaid leave in {period}.
+                  </td>
+                </tr>
+              ) : (
+                rows.map(row => (
+                  <tr key={row.user_id} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-6 py-4">
+                      <p className="text-sm font-medium text-slate-900">{row.user_name}</p>
+                      <p className="text-xs text-slate-500">{row.user_email}</p>
+                    </td>
+                    <td className="px-6 py-4 text-sm font-semibold text-slate-900">{row.days}</td>
+                    <td className="px-6 py-4 text-xs text-slate-600">{row.dates.join(', ')}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+            {rows.length > 0 && !loading && (
+              <tfoot>
+                <tr className="bg-slate-50 border-t border-slate-200">
+                  <td className="px-6 py-4 text-sm font-semibold text-slate-700">Total</td>
+                  <td className="px-6 py-4 text-sm font-semibold text-slate-900">{totalDays}</td>
+                  <td className="px-6 py-4"></td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdminUnpaidReport;
@@ -0,0 +1,188 @@
+import React, { useState, useEffect } from 'react';
+import { User, LeaveTypeConfig, YearEndPreviewRow } from '../types';
+import { DEFAULT_LEAVE_TYPES } from '../constants';
+import * as DB from '../services/db';
+import { findLeaveType, getLeaveTypeStyle } from '../utils/leaveTypes';
+import { CalendarCheck, Eye, CheckCircle2, AlertCircle, Lock } from 'lucide-react';
+
+interface AdminYearEndProps {
+  currentUser: User;
+}
+
+// Only a finished year can be closed, so the latest one is the previous year
+const defaultYear = () => new Date().getFullYear() - 1;
+
+const AdminYearEnd: React.FC<AdminYearEndProps> = ({ currentUser }) => {
+  const [year, setYear] = useState(defaultYear());
+  const [leaveTypes, setLeaveTypes] = useState<LeaveTypeConfig[]>(DEFAULT_LEAVE_TYPES);
+  const [closedYears, setClosedYears] = useState<number[]>([]);
+  const [preview, setPreview] = useState<YearEndPreviewRow[] | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    DB.getLeaveTypes().then(setLeaveTypes);
+    DB.getClosedLeaveYears().then(setClosedYears);
+  }, []);
+
+  const isClosed = closedYears.includes(year);
+  const isUnfinished = year >= new Date().getFullYear();
+  const changedRows = (preview || []).filter(r => r.expired !== 0 || r.granted !== 0);
+
+  const handlePreview = async () => {
+    setMessage(null);
+    setLoading(true);
+    try {
+      setPreview(await DB.previewYearEndClose(year));
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!window.confirm(`Close leave year ${year}? This updates ${changedRows.length} balance(s) and cannot be undone.`)) return;
+
+    setMessage(null);
+    setLoading(true);
+    try {
+      const result = await DB.commitYearEndClose(year, currentUser.id);
+      if (result.success) {
+        setMessage({ type: 'success', text: `Leave year ${year} closed. ${changedRows.length} balance(s) updated.` });
+        setPreview(null);
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to close leave year' });
+      }
+      setClosedYears(await DB.getClosedLeaveYears());
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (currentUser.role !== 'admin') {
+    return (
+      <div className="flex flex-col items-center justify-center h-96 text-center">
+        <div className="bg-red-100 p-4 rounded-full mb-4">
+          <AlertCircle className="w-8 h-8 text-red-600" />
+        </div>
+        <h2 className="text-xl font-bold text-slate-900">Access Denied</h2>
+        <p className="text-slate-500 mt-2">Only administrators can access this page.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-slate-900">Year-End Close</h1>
+        <p className="text-slate-500">Apply carry-forward and expiry rules, then open the new leave year</p>
+      </div>
+
+      {message && (
+        <div className={`p-4 rounded-lg flex items-center gap-2 ${
+          message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+        }`}>
+          {message.type === 'success' ? <CheckCircle2 size={20} /> : <AlertCircle size={20} />}
+          {message.text}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl border border-slate-200 p-6 flex flex-col md:flex-row gap-4 md:items-end md:justify-between">
+        <div>
+          <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Leave Year</label>
+          <input
+            type="number"
+            value={year}
+            onChange={e => { setYear(Number(e.target.value)); setPreview(null); }}
+            className="w-32 border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+            disabled={loading}
+          />
+          {isClosed && (
+            <p className="text-xs text-amber-700 mt-2 flex items-center gap-1">
+              <Lock size={12} /> {year} has already been closed
+            </p>
+          )}
+          {isUnfinished && (
+            <p className="text-xs text-amber-700 mt-2 flex items-center gap-1">
+              <Lock size={12} /> {year} can be closed once it has ended
+            </p>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handlePreview}
+            disabled={loading || isClosed}
+            className="px-5 py-2.5 border border-slate-300 text-slate-700 rounded-lg font-medium hover:bg-slate-50 flex items-center gap-2 transition-colors disabled:opacity-50"
+          >
+            <Eye size={18} />
+            Preview
+          </button>
+          <button
+            onClick={handleCommit}
+            disabled={loading || isClosed || isUnfinished || !preview}
+            className="bg-primary-600 hover:bg-primary-700 text-white px-5 py-2.5 rounded-lg font-medium flex items-center gap-2 shadow-lg shadow-primary-600/30 transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <CalendarCheck size={18} />
+            Close {year}
+          </button>
+        </div>
+      </div>
+
+      {preview && (
+        <div className="bg-white shadow-sm border border-slate-200 rounded-xl overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-200">
+            <h3 className="text-lg font-bold text-slate-900">Preview</h3>
+            <p className="text-sm text-slate-500">
+              {changedRows.length} balance(s) will change. Nothing is saved until you close the year.
+            </p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="bg-slate-50 border-b border-slate-200">
+                  <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Employee</th>
+                  <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Type</th>
+                  <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Balance at Dec 31</th>
+                  <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Expires</th>
+                  <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Carried</th>
+                  <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Granted</th>
+                  <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">New Balance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {changedRows.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-8 text-center text-slate-400 text-sm">
+                      No balances change under the current rules.
+                    </td>
+                  </tr>
+                ) : (
+                  changedRows.map(row => (
+                    <tr key={`${row.user_id}-${row.leave_type}`} className="hover:bg-slate-50 transition-colors">
+                      <td className="px-6 py-3 text-sm font-medium text-slate-900">{row.user_name}</td>
+                      <td className="px-6 py-3 text-sm">
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getLeaveTypeStyle(leaveTypes, row.leave_type).badge}`}>
+                          {findLeaveType(leaveTypes, row.leave_type).label}
+                        </span>
+                      </td>
+                      <td className="px-6 py-3 text-sm text-slate-600">{row.current}</td>
+                      <td className="px-6 py-3 text-sm text-red-600">{row.expired > 0 ? `-${row.expired}` : '—'}</td>
+                      <td className="px-6 py-3 text-sm text-slate-600">{row.carried}</td>
+                      <td className="px-6 py-3 text-sm text-green-600">{row.granted > 0 ? `+${row.granted}` : '—'}</td>
+                      <td className="px-6 py-3 text-sm font-semibold text-slate-900">{row.new_balance}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminYearEnd;
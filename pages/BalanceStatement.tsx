@@ -0,0 +1,166 @@
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { User, LeaveTypeConfig, LedgerEntry, LedgerEntryKind } from '../types';
+import { DEFAULT_LEAVE_TYPES } from '../constants';
+import * as DB from '../services/db';
+import { findLeaveType, getLeaveTypeStyle } from '../utils/leaveTypes';
+import { formatLeaveDates } from '../utils/leaveDays';
+import { AlertCircle } from 'lucide-react';
+
+interface BalanceStatementProps {
+  currentUser: User;
+}
+
+const KIND_LABELS: Record<LedgerEntryKind, string> = {
+  grant: 'Grant',
+  accrual: 'Accrual',
+  approval: 'Leave Taken',
+  reversal: 'Reversal',
+  adjustment: 'Adjustment',
+  year_end: 'Year-End',
+  comp_off: 'Comp-Off Earned',
+  expiry: 'Expired'
+};
+
+const BalanceStatement: React.FC<BalanceStatementProps> = ({ currentUser }) => {
+  const { userId } = useParams<{ userId: string }>();
+  const targetId = userId || currentUser.id;
+  const canView = targetId === currentUser.id || currentUser.role === 'admin';
+
+  const [employee, setEmployee] = useState<User | null>(null);
+  const [leaveTypes, setLeaveTypes] = useState<LeaveTypeConfig[]>(DEFAULT_LEAVE_TYPES);
+  const [entries, setEntries] = useState<LedgerEntry[]>([]);
+  const [typeFilter, setTypeFilter] = useState('all');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    DB.getLeaveTypes().then(setLeaveTypes);
+  }, []);
+
+  useEffect(() => {
+    if (!canView) return;
+    const load = async () => {
+      setLoading(true);
+      try {
+        const [user, ledger] = await Promise.all([DB.getUserById(targetId), DB.getLedger(targetId)]);
+        setEmployee(user);
+        setEntries(ledger);
+      } catch (err) {
+        console.error('Error loading statement:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [targetId, canView]);
+
+  if (!canView) {
+    return (
+      <div className="flex flex-col items-center justify-center h-96 text-center">
+        <div className="bg-red-100 p-4 rounded-full mb-4">
+          <AlertCircle className="w-8 h-8 text-red-600" />
+        </div>
+        <h2 className="text-xl font-bold text-slate-900">Access Denied</h2>
+        <p className="text-slate-500 mt-2">You can only view your own balance statement.</p>
+      </div>
+    );
+  }
+
+  // Running balance is per leave type, accumulated oldest first
+  const running: Record<string, number> = {};
+  const rows = entries.map(entry => {
+    running[entry.leave_type] = (running[entry.leave_type] || 0) + entry.delta;
+    return { entry, balance: running[entry.leave_type] };
+  });
+  const visibleRows = rows
+    .filter(r => typeFilter === 'all' || r.entry.leave_type === typeFilter)
+    .reverse();
+  const ledgerTypes = [...new Set<string>(entries.map(e => e.leave_type))];
+
+  const describeLeave = (leaveId?: string) => {
+    const leave = leaveId ? employee?.history.find(h => h.id === leaveId) : undefined;
+    return leave ? formatLeaveDates(leave) : null;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">Balance Statement</h1>
+          <p className="text-slate-500">
+            {employee && employee.id !== currentUser.id
+              ? `Every change to ${employee.name}'s leave balance`
+              : 'Every change to your leave balance'}
+          </p>
+        </div>
+        <select
+          value={typeFilter}
+          onChange={e => setTypeFilter(e.target.value)}
+          className="border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none bg-white"
+        >
+          <option value="all">All leave types</option>
+          {ledgerTypes.map(id => (
+            <option key={id} value={id}>{findLeaveType(leaveTypes, id).label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="bg-white shadow-sm border border-slate-200 rounded-xl overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-slate-50 border-b border-slate-200">
+                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Date</th>
+                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Type</th>
+                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Entry</th>
+                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Change</th>
+                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Balance</th>
+                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">By</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {loading ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-slate-400 text-sm">Loading...</td>
+                </tr>
+              ) : visibleRows.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-slate-400 text-sm">
+                    No balance changes recorded.
+                  </td>
+                </tr>
+              ) : (
+                visibleRows.map(({ entry, balance }) => (
+                  <tr key={entry.id} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-6 py-4 text-sm text-slate-500 whitespace-nowrap">
+                      {new Date(entry.created_at).toLocaleDateString()}
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getLeaveTypeStyle(leaveTypes, entry.leave_type).badge}`}>
+                        {findLeaveType(leaveTypes, entry.leave_type).label}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <p className="font-medium text-slate-900">{KIND_LABELS[entry.kind] || entry.kind}</p>
+                      <p className="text-xs text-slate-500">{entry.reason}</p>
+                      {describeLeave(entry.leave_id) && (
+                        <p className="text-xs text-slate-400">Leave: {describeLeave(entry.leave_id)}</p>
+                      )}
+                    </td>
+                    <td className={`px-6 py-4 text-sm font-medium ${entry.delta < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {entry.delta > 0 ? `+${entry.delta}` : entry.delta}
+                    </td>
+                    <td className="px-6 py-4 text-sm font-semibold text-slate-900">{balance}</td>
+                    <td className="px-6 py-4 text-sm text-slate-600">{entry.created_by_name || 'System'}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BalanceStatement;
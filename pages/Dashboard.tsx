@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { 
   Calendar, 
   PlusCircle, 
@@ -8,11 +8,20 @@ import {
   CheckCircle2,
   AlertCircle,
   X,
-  AlertTriangle
+  AlertTriangle,
+  Hourglass,
+  Paperclip
 } from 'lucide-react';
-import { User, LeaveType, LeaveRecord } from '../types';
-import { LEAVE_TYPES } from '../constants';
+import { User, LeaveType, LeaveRecord, LeaveTypeConfig, Holiday, WorkWeek, CompOffCredit, LeaveComment, BlackoutPeriod } from '../types';
+import { DEFAULT_LEAVE_TYPES, DEFAULT_WORK_WEEK, LEAVE_STATUS_STYLES, ATTACHMENT_CONTENT_TYPES } from '../constants';
 import * as DB from '../services/db';
+import { findLeaveType, getLeaveTypeStyle, tracksBalance, requiresAttachment, checkNoticePolicy } from '../utils/leaveTypes';
+import { calculateLeaveDays, formatLeaveDates, eachDateInRange, getWeekday, addDays, splitLeaveRange, findOverlappingLeave, getChargeableDates, getLocalDate } from '../utils/leaveDays';
+import LeaveCalendar from '../components/LeaveCalendar';
+import LeaveActions from '../components/LeaveActions';
+import CompOffClaimModal from '../components/CompOffClaimModal';
+import CommentThread from '../components/CommentThread';
+import { blackoutApplies, findBlackoutConflicts } from '../utils/blackouts';
 import {
   BarChart,
   Bar,
@@ -50,43 +59,163 @@ const StatCard: React.FC<{
   </div>
 );
 
+const emptyForm = () => ({
+  date: getLocalDate(),
+  end_date: getLocalDate(),
+  half_day: false,
+  type: 'casual' as LeaveType,
+  reason: '',
+  emergency: false
+});
+
 const Dashboard: React.FC<DashboardProps> = ({ user, refreshUser }) => {
   const [showModal, setShowModal] = useState(false);
-  const [formData, setFormData] = useState({
-    date: new Date().toISOString().split('T')[0],
-    amount: 1,
-    type: 'casual' as LeaveType
-  });
+  const [formData, setFormData] = useState(emptyForm());
+  // The pending request being edited, if the modal is in edit mode
+  const [editing, setEditing] = useState<LeaveRecord | null>(null);
+  // Documents to upload once the request is saved
+  const [files, setFiles] = useState<File[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [submitting, setSubmitting] = useState(false);
+  const [notice, setNotice] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+  const [showCompOffModal, setShowCompOffModal] = useState(false);
+  const [compOffCredits, setCompOffCredits] = useState<CompOffCredit[]>([]);
+  const [comments, setComments] = useState<LeaveComment[]>([]);
+  const [leaveTypes, setLeaveTypes] = useState<LeaveTypeConfig[]>(DEFAULT_LEAVE_TYPES);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [blackouts, setBlackouts] = useState<BlackoutPeriod[]>([]);
+  const [defaultWorkWeek, setDefaultWorkWeek] = useState<WorkWeek>(DEFAULT_WORK_WEEK);
+
+  useEffect(() => {
+    const loadLeaveTypes = async () => {
+      const types = await DB.getLeaveTypes();
+      setLeaveTypes(types);
+      // Keep the selected type valid if the catalog changed
+      if (types.length > 0 && !types.some(t => t.id === formData.type)) {
+        setFormData(prev => ({ ...prev, type: types[0].id }));
+      }
+    };
+    loadLeaveTypes();
+
+    // Holidays for this year and next, for the date picker and day counts
+    const year = new Date().getFullYear();
+    DB.getHolidaysBetween(`${year}-01-01`, `${year + 1}-12-31`).then(setHolidays);
+    DB.getBlackoutsForUser(user.id, `${year}-01-01`, `${year + 1}-12-31`).then(setBlackouts);
+    DB.getDefaultWorkWeek().then(setDefaultWorkWeek);
+  }, []);
+
+  // Re-read after every refresh so credits used or expired are reflected
+  useEffect(() => {
+    DB.getCompOffCredits(user.id).then(setCompOffCredits);
+    loadComments();
+  }, [user]);
+
+  // Threads for the requests shown in Recent History
+  const recentHistory = user.history.slice(0, 4);
+  const loadComments = async () => {
+    setComments(await DB.getLeaveComments(recentHistory.map(h => h.id)));
+  };
+
+  const workWeek = user.work_week || defaultWorkWeek;
+
+  // Comp-off credits that lapse within the next 30 days
+  const today = getLocalDate();
+  const expiringCredits = compOffCredits.filter(c => c.claim.expires_on && c.claim.expires_on <= addDays(today, 30));
+
+  const balanceOf = (type: LeaveType) => user.balance[type] || 0;
 
   // Calculate pending leaves by type
   const pendingLeaves = useMemo(() => {
     const pending = user.history.filter(h => h.status === 'pending');
+    const byType = pending.reduce((acc, h) => ({ ...acc, [h.type]: (acc[h.type] || 0) + h.amount }), {} as Record<LeaveType, number>);
     return {
-      casual: pending.filter(h => h.type === 'casual').reduce((sum, h) => sum + h.amount, 0),
-      sick: pending.filter(h => h.type === 'sick').reduce((sum, h) => sum + h.amount, 0),
-      annual: pending.filter(h => h.type === 'annual').reduce((sum, h) => sum + h.amount, 0),
+      byType,
       total: pending.length
     };
   }, [user.history]);
 
-  // Calculate available balance (total - pending)
-  const availableBalance = {
-    casual: user.balance.casual - pendingLeaves.casual,
-    sick: user.balance.sick - pendingLeaves.sick,
-    annual: user.balance.annual - pendingLeaves.annual
-  };
+  const pendingOf = (type: LeaveType) => pendingLeaves.byType[type] || 0;
+
+  // Calculate available balance (total - pending); a request being edited does not count against itself
+  const availableOf = (type: LeaveType) =>
+    balanceOf(type) - pendingOf(type) + (editing && editing.type === type ? editing.amount : 0);
+
+  // Unpaid leave has no balance, so it is left out of balance figures
+  const paidTypes = leaveTypes.filter(t => tracksBalance(t));
 
   // Stats Logic
-  const totalAvailable = user.balance.casual + user.balance.sick + user.balance.annual;
+  const totalAvailable = paidTypes.reduce((sum, t) => sum + balanceOf(t.id), 0);
   const leavesLast30Days = user.history.filter(h => {
     const dayDiff = (Date.now() - h.timestamp) / (1000 * 3600 * 24);
     return dayDiff <= 30;
   }).reduce((acc, curr) => acc + curr.amount, 0);
 
+  // Days covered by the selected range
+  const isSingleDay = formData.date === formData.end_date;
+  const requestedDays = calculateLeaveDays(formData.date, formData.end_date, {
+    halfDay: formData.half_day,
+    holidays: holidays.map(h => h.date),
+    workWeek
+  });
+  const holidaysInRange = holidays.filter(h => h.date >= formData.date && h.date <= formData.end_date);
+  const offDaysInRange = eachDateInRange(formData.date, formData.end_date)
+    .filter(d => !workWeek.includes(getWeekday(d)) && !holidaysInRange.some(h => h.date === d)).length;
+
+  // When a new request needs more days than are available, offer the rest as unpaid leave
+  const split = !editing && tracksBalance(formData.type) && requestedDays > 0 && availableOf(formData.type) < requestedDays
+    ? splitLeaveRange(formData.date, formData.end_date, availableOf(formData.type), {
+        halfDay: formData.half_day,
+        holidays: holidays.map(h => h.date),
+        workWeek
+      })
+    : null;
+
+  // Leave already booked on the selected days; the service rejects these as well
+  const bookedLeave = user.history.filter(h =>
+    ['pending', 'approved', 'cancellation_requested'].includes(h.status) && h.id !== editing?.id
+  );
+  const overlaps = requestedDays > 0
+    ? findOverlappingLeave<LeaveRecord>(
+        { date: formData.date, end_date: formData.end_date, amount: requestedDays },
+        bookedLeave,
+        { holidays: holidays.map(h => h.date), workWeek }
+      )
+    : [];
+
+  // Blackouts for the selected type; the service refuses these as well
+  const typeBlackouts = blackouts.filter(b => blackoutApplies(b, user, formData.type));
+  const blackoutConflicts = requestedDays > 0
+    ? findBlackoutConflicts(
+        typeBlackouts,
+        user,
+        formData.type,
+        getChargeableDates(formData.date, formData.end_date, { holidays: holidays.map(h => h.date), workWeek })
+      )
+    : [];
+
+  const selectedType = findLeaveType(leaveTypes, formData.type);
+  const documentRequired = requiresAttachment(selectedType, requestedDays);
+
+  // Notice or backdating rule the dates break; only an emergency request may go ahead
+  const noticeBreach = checkNoticePolicy(selectedType, formData.date, today);
+
+  // Upload the chosen documents to a saved request; returns a message for any that failed
+  const uploadFiles = async (leaveId: string): Promise<string | null> => {
+    const failed: string[] = [];
+    for (const file of files) {
+      try {
+        await DB.uploadLeaveAttachment(user.id, leaveId, file);
+      } catch (err: any) {
+        failed.push(err.message);
+      }
+    }
+    return failed.length > 0
+      ? `Request saved, but some documents were not attached (${failed.join('; ')}). You can attach them from History.`
+      : null;
+  };
+
   // Form Handlers
   const handleTakeLeave = async () => {
     setError(null);
@@ -94,37 +223,89 @@ const Dashboard: React.FC<DashboardProps> = ({ user, refreshUser }) => {
     setSubmitting(true);
 
     // Basic Validation
-    if (formData.amount <= 0) {
+    if (formData.end_date < formData.date) {
+      setError("End date cannot be before start date");
+      setSubmitting(false);
+      return;
+    }
+
+    if (requestedDays <= 0) {
       setError("Amount must be greater than 0");
       setSubmitting(false);
       return;
     }
 
+    if (overlaps.length > 0) {
+      setError("These dates overlap leave you have already requested");
+      setSubmitting(false);
+      return;
+    }
+
+    if (blackoutConflicts.length > 0) {
+      setError(blackoutConflicts[0].period.message);
+      setSubmitting(false);
+      return;
+    }
+
+    if (noticeBreach && !formData.emergency) {
+      setError(`${noticeBreach}. Mark the request as an emergency if it cannot wait.`);
+      setSubmitting(false);
+      return;
+    }
+
+    if (noticeBreach && !formData.reason.trim()) {
+      setError("Add a reason so your approver knows why this is an emergency");
+      setSubmitting(false);
+      return;
+    }
+
     // Check available balance (this will now be caught by the backend too)
-    const available = availableBalance[formData.type];
-    if (available < formData.amount) {
-      setError(`Insufficient ${formData.type} leave balance. Available: ${available} (${user.balance[formData.type]} total - ${pendingLeaves[formData.type]} pending)`);
+    const available = availableOf(formData.type);
+    if (split) {
+      const parts = [
+        split.paid && `${split.paid.amount} day(s) of ${findLeaveType(leaveTypes, formData.type).label} (${formatLeaveDates(split.paid)})`,
+        split.unpaid && `${split.unpaid.amount} day(s) of unpaid leave (${formatLeaveDates(split.unpaid)})`
+      ].filter(Boolean);
+      if (!window.confirm(`Your balance does not cover the whole request. Submit it as ${parts.join(' and ')}? Unpaid days are deducted from your salary.`)) {
+        setSubmitting(false);
+        return;
+      }
+      await handleSplitSubmit();
+      return;
+    }
+    if (tracksBalance(formData.type) && available < requestedDays) {
+      setError(`Insufficient ${formData.type} leave balance. Available: ${available} (${balanceOf(formData.type)} total - ${pendingOf(formData.type)} pending)`);
       setSubmitting(false);
       return;
     }
 
     // Action
     try {
-      const newLeave: LeaveRecord = {
-        id: crypto.randomUUID(),
+      const leave: LeaveRecord = {
+        id: editing ? editing.id : crypto.randomUUID(),
         date: formData.date,
-        amount: formData.amount,
+        end_date: formData.end_date,
+        amount: requestedDays,
         type: formData.type,
-        timestamp: new Date(formData.date).getTime(),
-        status: 'pending'
+        timestamp: editing ? editing.timestamp : new Date(formData.date).getTime(),
+        status: 'pending',
+        reason: formData.reason.trim() || undefined,
+        emergency: formData.emergency && !!noticeBreach
       };
       
-      const success = await DB.submitLeaveRequest(user.id, newLeave);
+      const success = editing
+        ? await DB.updateLeaveRequest(user.id, leave)
+        : await DB.submitLeaveRequest(user.id, leave);
       
       if (success) {
+        const uploadError = await uploadFiles(leave.id);
+        // Shown on the page, since the modal closes on success
+        if (uploadError) setNotice({ type: 'error', text: uploadError });
         await refreshUser();
         
-        if (user.reporting_to && user.manager_name) {
+        if (editing) {
+          setSuccess("Leave request updated. Your approver will see what changed.");
+        } else if (user.reporting_to && user.manager_name) {
           setSuccess(`Leave request submitted! Waiting for ${user.manager_name}'s approval.`);
         } else {
           setSuccess("Leave request submitted successfully!");
@@ -132,15 +313,12 @@ const Dashboard: React.FC<DashboardProps> = ({ user, refreshUser }) => {
         
         setTimeout(() => {
           setSuccess(null);
-          setShowModal(false);
-          setFormData({
-            date: new Date().toISOString().split('T')[0],
-            amount: 1,
-            type: 'casual'
-          });
+          closeModal();
         }, 3000);
       } else {
-        setError("Failed to submit leave request. Please try again.");
+        setError(editing
+          ? "Failed to update leave request. Please try again."
+          : "Failed to submit leave request. Please try again.");
       }
     } catch (err: any) {
       setError(err.message);
@@ -149,13 +327,71 @@ const Dashboard: React.FC<DashboardProps> = ({ user, refreshUser }) => {
     }
   };
 
+  const handleSplitSubmit = async () => {
+    const leaveId = crypto.randomUUID();
+    try {
+      const result = await DB.submitLeaveWithUnpaidRemainder(user.id, {
+        id: leaveId,
+        date: formData.date,
+        end_date: formData.end_date,
+        amount: requestedDays,
+        type: formData.type,
+        timestamp: new Date(formData.date).getTime(),
+        status: 'pending',
+        reason: formData.reason.trim() || undefined,
+        emergency: formData.emergency && !!noticeBreach
+      });
+
+      if (result.success) {
+        const uploadError = await uploadFiles(leaveId);
+        if (uploadError) setNotice({ type: 'error', text: uploadError });
+        await refreshUser();
+        setSuccess(`Submitted ${result.paidDays} paid and ${result.unpaidDays} unpaid day(s)${user.manager_name ? ` for ${user.manager_name}'s approval` : ''}.`);
+        setTimeout(() => {
+          setSuccess(null);
+          closeModal();
+        }, 3000);
+      } else {
+        setError(result.error || "Failed to submit leave request. Please try again.");
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const openEdit = (record: LeaveRecord) => {
+    setEditing(record);
+    setFormData({
+      date: record.date,
+      end_date: record.end_date || record.date,
+      half_day: record.amount === 0.5,
+      type: record.type,
+      reason: record.reason || '',
+      emergency: !!record.emergency
+    });
+    setError(null);
+    setSuccess(null);
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditing(null);
+    setFiles([]);
+    setError(null);
+    setSuccess(null);
+    setFormData({ ...emptyForm(), type: leaveTypes[0]?.id || 'casual' });
+  };
+
   const getEmailTemplate = () => {
-    const typeLabel = LEAVE_TYPES.find(t => t.id === formData.type)?.label;
+    const typeLabel = findLeaveType(leaveTypes, formData.type).label;
     return `Subject: Leave Application - ${user.name}
 
 Dear ${user.manager_name || 'HR/Manager'},
 
-I would like to request ${formData.amount} day(s) of ${typeLabel} on ${formData.date}.
+I would like to request ${requestedDays} day(s) of ${typeLabel} ${isSingleDay ? `on ${formData.date}` : `from ${formData.date} to ${formData.end_date}`}.
 
 I have checked my leave balance and verified that I have sufficient leaves available. I will ensure all my pending tasks are handed over before my leave.
 
@@ -168,33 +404,23 @@ ${user.name}`;
     alert("Email template copied to clipboard!");
   };
 
-  const chartData = [
-    { name: 'Casual', value: user.balance.casual, color: '#3b82f6' },
-    { name: 'Sick', value: user.balance.sick, color: '#ef4444' },
-    { name: 'Annual', value: user.balance.annual, color: '#22c55e' },
-  ];
-
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case 'pending':
-        return 'bg-yellow-100 text-yellow-700';
-      case 'approved':
-        return 'bg-green-100 text-green-700';
-      case 'rejected':
-        return 'bg-red-100 text-red-700';
-      default:
-        return 'bg-gray-100 text-gray-700';
-    }
-  };
+  const chartData = paidTypes.map(t => ({
+    name: t.label.replace(/ Leave$/, ''),
+    value: balanceOf(t.id),
+    color: getLeaveTypeStyle(leaveTypes, t.id).hex
+  }));
 
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'pending':
+      case 'cancellation_requested':
         return '⏱';
       case 'approved':
         return '✓';
       case 'rejected':
         return '✗';
+      case 'cancelled':
+        return '⊘';
       default:
         return '';
     }
@@ -207,15 +433,33 @@ ${user.name}`;
           <h1 className="text-2xl font-bold text-slate-900">Dashboard</h1>
           <p className="text-slate-500">Overview of your leave status</p>
         </div>
-        <button
-          onClick={() => setShowModal(true)}
-          className="bg-primary-600 hover:bg-primary-700 text-white px-5 py-2.5 rounded-lg font-medium flex items-center gap-2 shadow-lg shadow-primary-600/30 transition-all active:scale-95"
-        >
-          <PlusCircle size={20} />
-          Request Leave
-        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setShowCompOffModal(true)}
+            className="border border-slate-300 bg-white hover:bg-slate-50 text-slate-700 px-5 py-2.5 rounded-lg font-medium flex items-center gap-2 transition-all active:scale-95"
+          >
+            <Briefcase size={20} />
+            Claim Comp-Off
+          </button>
+          <button
+            onClick={() => setShowModal(true)}
+            className="bg-primary-600 hover:bg-primary-700 text-white px-5 py-2.5 rounded-lg font-medium flex items-center gap-2 shadow-lg shadow-primary-600/30 transition-all active:scale-95"
+          >
+            <PlusCircle size={20} />
+            Request Leave
+          </button>
+        </div>
       </div>
 
+      {notice && (
+        <div className={`p-4 rounded-lg flex items-center gap-2 ${
+          notice.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+        }`}>
+          {notice.type === 'success' ? <CheckCircle2 size={20} /> : <AlertCircle size={20} />}
+          {notice.text}
+        </div>
+      )}
+
       {user.reporting_to && user.manager_name && (
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
           <div className="flex items-start gap-3">
@@ -244,10 +488,30 @@ ${user.name}`;
               <p className="text-sm font-medium text-yellow-900">
                 You have {pendingLeaves.total} leave request{pendingLeaves.total > 1 ? 's' : ''} pending approval
               </p>
-              <div className="flex gap-3 mt-2 text-xs text-yellow-700">
-                {pendingLeaves.casual > 0 && <span>Casual: {pendingLeaves.casual}</span>}
-                {pendingLeaves.sick > 0 && <span>Sick: {pendingLeaves.sick}</span>}
-                {pendingLeaves.annual > 0 && <span>Annual: {pendingLeaves.annual}</span>}
+              <div className="flex flex-wrap gap-3 mt-2 text-xs text-yellow-700">
+                {leaveTypes.filter(t => pendingOf(t.id) > 0).map(t => (
+                  <span key={t.id}>{t.label.replace(/ Leave$/, '')}: {pendingOf(t.id)}</span>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {expiringCredits.length > 0 && (
+        <div className="bg-orange-50 border border-orange-200 rounded-lg p-4">
+          <div className="flex items-start gap-3">
+            <Hourglass className="w-5 h-5 text-orange-600 flex-shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <p className="text-sm font-medium text-orange-900">
+                {expiringCredits.reduce((sum, c) => sum + c.remaining, 0)} comp-off day(s) expiring soon
+              </p>
+              <div className="flex flex-wrap gap-3 mt-2 text-xs text-orange-700">
+                {expiringCredits.map(c => (
+                  <span key={c.claim.id}>
+                    {c.remaining} day(s) from {c.claim.work_date}, use by {c.claim.expires_on}
+                  </span>
+                ))}
               </div>
             </div>
           </div>
@@ -263,20 +527,6 @@ ${user.name}`;
           icon={Briefcase} 
           colorClass="bg-indigo-500 text-indigo-500" 
         />
-        <StatCard 
-          title="Casual Leaves" 
-          value={user.balance.casual} 
-          subtitle={pendingLeaves.casual > 0 ? `${availableBalance.casual} available` : undefined}
-          icon={Clock} 
-          colorClass="bg-blue-500 text-blue-500" 
-        />
-        <StatCard 
-          title="Sick Leaves" 
-          value={user.balance.sick}
-          subtitle={pendingLeaves.sick > 0 ? `${availableBalance.sick} available` : undefined}
-          icon={Activity} 
-          colorClass="bg-red-500 text-red-500" 
-        />
         <StatCard 
           title="Recent Usage" 
           value={leavesLast30Days} 
@@ -284,6 +534,19 @@ ${user.name}`;
           icon={Calendar} 
           colorClass="bg-orange-500 text-orange-500" 
         />
+        {paidTypes.map(t => {
+          const style = getLeaveTypeStyle(leaveTypes, t.id);
+          return (
+            <StatCard 
+              key={t.id}
+              title={t.label}
+              value={balanceOf(t.id)}
+              subtitle={pendingOf(t.id) > 0 ? `${availableOf(t.id)} available` : undefined}
+              icon={t.id === 'sick' ? Activity : Clock}
+              colorClass={`${style.bar} ${style.text}`}
+            />
+          );
+        })}
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -314,19 +577,36 @@ ${user.name}`;
             {user.history.length === 0 ? (
               <p className="text-slate-400 text-sm text-center py-8">No leave history found.</p>
             ) : (
-              user.history.slice(0, 4).map((record) => (
-                <div key={record.id} className="flex items-center gap-3 p-3 rounded-lg bg-slate-50 border border-slate-100">
-                  <div className={`w-2 h-10 rounded-full ${
-                    record.type === 'casual' ? 'bg-blue-500' : 
-                    record.type === 'sick' ? 'bg-red-500' : 'bg-green-500'
-                  }`} />
-                  <div className="flex-1">
-                    <p className="text-sm font-semibold text-slate-800 capitalize">{record.type} Leave</p>
-                    <p className="text-xs text-slate-500">{record.date} • {record.amount} day(s)</p>
+              recentHistory.map((record) => (
+                <div key={record.id} className="flex items-start gap-3 p-3 rounded-lg bg-slate-50 border border-slate-100">
+                  <div className={`w-2 h-10 rounded-full ${getLeaveTypeStyle(leaveTypes, record.type).bar}`} />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-semibold text-slate-800">{findLeaveType(leaveTypes, record.type).label}</p>
+                    <p className="text-xs text-slate-500">{formatLeaveDates(record)} • {record.amount} day(s)</p>
+                    {record.reason && (
+                      <p className="text-xs text-slate-400 truncate" title={record.reason}>{record.reason}</p>
+                    )}
+                    <div className="mt-1">
+                      <CommentThread
+                        leaveId={record.id}
+                        currentUserId={user.id}
+                        comments={comments.filter(c => c.leave_id === record.id)}
+                        onPosted={loadComments}
+                        placeholder="Reply to your approver"
+                      />
+                    </div>
+                  </div>
+                  <div className="flex flex-col items-end gap-1">
+                    <span className={`text-xs px-2 py-1 rounded-full font-medium ${LEAVE_STATUS_STYLES[record.status].badge}`}>
+                      {getStatusIcon(record.status)} {LEAVE_STATUS_STYLES[record.status].label}
+                    </span>
+                    <LeaveActions
+                      userId={user.id}
+                      record={record}
+                      onDone={(result) => { setNotice(result); refreshUser(); }}
+                      onEdit={openEdit}
+                    />
                   </div>
-                  <span className={`text-xs px-2 py-1 rounded-full font-medium ${getStatusBadge(record.status)}`}>
-                    {getStatusIcon(record.status)} {record.status === 'pending' ? 'Pending' : record.status === 'approved' ? 'Approved' : 'Rejected'}
-                  </span>
                 </div>
               ))
             )}
@@ -337,18 +617,25 @@ ${user.name}`;
         </div>
       </div>
 
+      {showCompOffModal && (
+        <CompOffClaimModal
+          user={user}
+          onClose={() => setShowCompOffModal(false)}
+          onSubmitted={() => {
+            setNotice({ type: 'success', text: 'Comp-off claim submitted' });
+            refreshUser();
+          }}
+        />
+      )}
+
       {/* Take Leave Modal */}
       {showModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm">
           <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden animate-fade-in-up">
             <div className="bg-slate-50 px-6 py-4 border-b border-slate-100 flex justify-between items-center">
-              <h3 className="text-lg font-bold text-slate-900">Request Leave</h3>
+              <h3 className="text-lg font-bold text-slate-900">{editing ? 'Edit Leave Request' : 'Request Leave'}</h3>
               <button 
-                onClick={() => {
-                  setShowModal(false);
-                  setError(null);
-                  setSuccess(null);
-                }}
+                onClick={closeModal}
                 disabled={submitting}
                 className="text-slate-400 hover:text-slate-600 disabled:opacity-50"
               >
@@ -369,16 +656,16 @@ ${user.name}`;
               )}
 
               {/* Available Balance Warning */}
-              {(pendingLeaves.casual > 0 || pendingLeaves.sick > 0 || pendingLeaves.annual > 0) && (
+              {pendingLeaves.total > 0 && (
                 <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
                   <div className="flex items-start gap-2">
                     <AlertTriangle className="w-4 h-4 text-amber-600 flex-shrink-0 mt-0.5" />
                     <div className="text-xs text-amber-800">
                       <p className="font-semibold mb-1">You have pending leave requests</p>
                       <div className="space-y-0.5">
-                        <p>Casual: {user.balance.casual} total - {pendingLeaves.casual} pending = <strong>{availableBalance.casual} available</strong></p>
-                        <p>Sick: {user.balance.sick} total - {pendingLeaves.sick} pending = <strong>{availableBalance.sick} available</strong></p>
-                        <p>Annual: {user.balance.annual} total - {pendingLeaves.annual} pending = <strong>{availableBalance.annual} available</strong></p>
+                        {paidTypes.map(t => (
+                          <p key={t.id}>{t.label.replace(/ Leave$/, '')}: {balanceOf(t.id)} total - {pendingOf(t.id)} pending = <strong>{availableOf(t.id)} available</strong></p>
+                        ))}
                       </div>
                     </div>
                   </div>
@@ -387,35 +674,120 @@ ${user.name}`;
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Date</label>
+                  <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Start Date</label>
                   <input 
                     type="date" 
                     value={formData.date}
-                    onChange={(e) => setFormData({...formData, date: e.target.value})}
+                    onChange={(e) => setFormData({
+                      ...formData,
+                      date: e.target.value,
+                      // Keep the range valid when the start moves past the end
+                      end_date: formData.end_date < e.target.value ? e.target.value : formData.end_date
+                    })}
                     className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none transition-all"
                     disabled={submitting}
                   />
                 </div>
                 <div>
-                  <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Duration (Days)</label>
+                  <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">End Date</label>
                   <input 
-                    type="number" 
-                    step="0.5" 
-                    min="0.5"
-                    value={formData.amount}
-                    onChange={(e) => setFormData({...formData, amount: parseFloat(e.target.value)})}
+                    type="date" 
+                    min={formData.date}
+                    value={formData.end_date}
+                    onChange={(e) => setFormData({...formData, end_date: e.target.value})}
                     className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none transition-all"
                     disabled={submitting}
                   />
                 </div>
               </div>
 
+              <div className="flex items-center justify-between bg-slate-50 border border-slate-200 rounded-lg px-3 py-2">
+                <label className={`flex items-center gap-2 text-sm ${isSingleDay ? 'text-slate-700' : 'text-slate-400'}`}>
+                  <input
+                    type="checkbox"
+                    checked={isSingleDay && formData.half_day}
+                    onChange={(e) => setFormData({...formData, half_day: e.target.checked})}
+                    disabled={submitting || !isSingleDay}
+                    className="rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  Half day
+                </label>
+                <span className="text-sm text-slate-600">
+                  Duration: <strong>{requestedDays} day(s)</strong>
+                  {offDaysInRange > 0 && (
+                    <span className="text-xs text-slate-400 ml-1">
+                      ({offDaysInRange} non-working day{offDaysInRange > 1 ? 's' : ''} skipped)
+                    </span>
+                  )}
+                </span>
+              </div>
+
+              <LeaveCalendar
+                start={formData.date}
+                end={formData.end_date}
+                markers={[
+                  ...holidays.map(h => ({ date: h.date, label: h.name, tone: 'holiday' as const })),
+                  ...typeBlackouts.flatMap(b =>
+                    eachDateInRange(b.start_date, b.end_date).map(date => ({
+                      date,
+                      label: `Blackout: ${b.message}`,
+                      tone: 'blackout' as const
+                    }))
+                  ),
+                  ...bookedLeave.flatMap(h =>
+                    getChargeableDates(h.date, h.end_date || h.date, { workWeek }).map(date => ({
+                      date,
+                      label: `${findLeaveType(leaveTypes, h.type).label} (${LEAVE_STATUS_STYLES[h.status].label.toLowerCase()})`,
+                      tone: 'booked' as const
+                    }))
+                  )
+                ]}
+                workWeek={workWeek}
+                onSelect={(date, end_date) => setFormData({...formData, date, end_date})}
+                disabled={submitting}
+              />
+
+              {holidaysInRange.length > 0 && (
+                <div className="bg-purple-50 border border-purple-200 rounded-lg p-3 text-xs text-purple-800">
+                  <p className="font-semibold mb-1">
+                    {holidaysInRange.length} company holiday{holidaysInRange.length > 1 ? 's' : ''} in this period (not charged)
+                  </p>
+                  {holidaysInRange.map(h => (
+                    <p key={h.id}>{h.date}: {h.name}</p>
+                  ))}
+                </div>
+              )}
+
+              {blackoutConflicts.length > 0 && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs text-red-800">
+                  <p className="font-semibold mb-1">{selectedType.label} cannot be requested on these dates</p>
+                  {blackoutConflicts.map(({ period, dates }) => (
+                    <p key={period.id}>{period.message} ({dates.join(', ')})</p>
+                  ))}
+                  <p className="mt-1 text-red-700">Ask an administrator if you need an exception.</p>
+                </div>
+              )}
+
+              {overlaps.length > 0 && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs text-red-800">
+                  <p className="font-semibold mb-1">These dates are already booked</p>
+                  {overlaps.map(({ record, dates }) => (
+                    <p key={record.id}>
+                      {findLeaveType(leaveTypes, record.type).label}, {formatLeaveDates(record)} ({LEAVE_STATUS_STYLES[record.status].label.toLowerCase()}): clashes on {dates.join(', ')}
+                    </p>
+                  ))}
+                  <p className="mt-1 text-red-700">
+                    Pick other dates, or edit or withdraw the existing request first. Two half days on the same date are allowed.
+                  </p>
+                </div>
+              )}
+
               <div>
                 <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Leave Type</label>
                 <div className="grid grid-cols-3 gap-2">
-                  {LEAVE_TYPES.map((type) => {
-                    const available = availableBalance[type.id];
-                    const hasPending = pendingLeaves[type.id] > 0;
+                  {leaveTypes.map((type) => {
+                    const available = availableOf(type.id);
+                    const hasPending = pendingOf(type.id) > 0;
                     return (
                       <button
                         key={type.id}
@@ -431,16 +803,113 @@ ${user.name}`;
                       >
                         <div>{type.label}</div>
                         <div className="text-[10px] mt-0.5">
-                          {hasPending ? (
+                          {!tracksBalance(type) ? (
+                            <span className="text-slate-400">unpaid</span>
+                          ) : hasPending ? (
                             <span className="text-amber-600">{available} avail</span>
                           ) : (
-                            <span className="text-slate-400">{user.balance[type.id]} total</span>
+                            <span className="text-slate-400">{balanceOf(type.id)} total</span>
                           )}
                         </div>
                       </button>
                     );
                   })}
                 </div>
+                {(selectedType.min_notice_days !== null || selectedType.max_backdate_days !== null) && (
+                  <p className="text-xs text-slate-500 mt-2">
+                    {[
+                      selectedType.min_notice_days !== null && `Request ${selectedType.min_notice_days} day(s) ahead`,
+                      selectedType.max_backdate_days !== null && (selectedType.max_backdate_days > 0
+                        ? `Can be backdated up to ${selectedType.max_backdate_days} day(s)`
+                        : 'Cannot be backdated')
+                    ].filter(Boolean).join(' · ')}
+                  </p>
+                )}
+              </div>
+
+              {noticeBreach && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-xs text-amber-800">
+                  <p className="font-semibold mb-1">{noticeBreach}</p>
+                  <label className="flex items-center gap-2 mt-2 text-sm text-amber-900">
+                    <input
+                      type="checkbox"
+                      checked={formData.emergency}
+                      onChange={(e) => setFormData({...formData, emergency: e.target.checked})}
+                      disabled={submitting}
+                      className="rounded border-amber-300 text-amber-600 focus:ring-amber-500"
+                    />
+                    This is an emergency
+                  </label>
+                  <p className="mt-1 text-amber-700">
+                    Emergency requests are flagged to your approver with the rule they break. Explain why in the reason.
+                  </p>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">
+                  Supporting Documents {documentRequired ? '' : '(optional)'}
+                </label>
+                {documentRequired && (
+                  <p className="text-xs text-amber-700 mb-2">
+                    {selectedType.label} over {selectedType.attachment_required_after} day(s) needs a document, e.g. a medical certificate.
+                    You can also attach it later from History, but the request cannot be approved without it.
+                  </p>
+                )}
+                <input
+                  type="file"
+                  multiple
+                  accept={ATTACHMENT_CONTENT_TYPES.join(',')}
+                  onChange={(e) => { setFiles([...files, ...Array.from(e.target.files || [])]); e.target.value = ''; }}
+                  className="block w-full text-xs text-slate-500 file:mr-3 file:py-1.5 file:px-3 file:rounded-lg file:border-0 file:text-xs file:font-medium file:bg-primary-50 file:text-primary-700 hover:file:bg-primary-100"
+                  disabled={submitting}
+                />
+                {files.length > 0 && (
+                  <div className="flex flex-wrap gap-1.5 mt-2">
+                    {files.map((file, idx) => (
+                      <span key={idx} className="inline-flex items-center gap-1 pl-2 pr-1 py-0.5 rounded border border-slate-200 text-xs text-slate-600">
+                        <Paperclip size={12} />
+                        <span className="max-w-[10rem] truncate">{file.name}</span>
+                        <button
+                          onClick={() => setFiles(files.filter((_, i) => i !== idx))}
+                          disabled={submitting}
+                          className="p-0.5 text-slate-400 hover:text-red-600"
+                        >
+                          <X size={12} />
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {split && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-xs text-amber-800">
+                  <p className="font-semibold mb-1">
+                    Only {availableOf(formData.type)} day(s) of {findLeaveType(leaveTypes, formData.type).label} available
+                  </p>
+                  {split.paid && (
+                    <p>Paid: {formatLeaveDates(split.paid)} ({split.paid.amount} day(s))</p>
+                  )}
+                  {split.unpaid && (
+                    <p>Unpaid: {formatLeaveDates(split.unpaid)} ({split.unpaid.amount} day(s))</p>
+                  )}
+                  <p className="mt-1 text-amber-700">Unpaid days are deducted from your salary.</p>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">
+                  Reason {noticeBreach && formData.emergency ? '' : '(optional)'}
+                </label>
+                <textarea
+                  value={formData.reason}
+                  onChange={(e) => setFormData({...formData, reason: e.target.value})}
+                  placeholder="Anything your approver should know"
+                  rows={2}
+                  className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none transition-all"
+                  disabled={submitting}
+                />
               </div>
 
               <div className="bg-slate-50 rounded-lg p-4 border border-slate-200">
@@ -462,18 +931,18 @@ ${user.name}`;
               <div className="pt-2">
                 <button
                   onClick={handleTakeLeave}
-                  disabled={submitting}
+                  disabled={submitting || overlaps.length > 0 || blackoutConflicts.length > 0 || (!!noticeBreach && !formData.emergency)}
                   className="w-full bg-primary-600 hover:bg-primary-700 text-white font-bold py-3 rounded-lg shadow-lg shadow-primary-600/20 transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                 >
                   {submitting ? (
                     <>
                       <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                      Submitting...
+                      {editing ? 'Saving...' : 'Submitting...'}
                     </>
                   ) : (
                     <>
                       <CheckCircle2 size={18} />
-                      Submit Request
+                      {editing ? 'Save Changes' : 'Submit Request'}
                     </>
                   )}
                 </button>
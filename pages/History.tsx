@@ -1,11 +1,72 @@
-import React from 'react';
-import { User } from '../types';
+import React, { useState, useEffect } from 'react';
+import { User, LeaveTypeConfig, CompOffClaim, LeaveAttachment, LeaveRecord, LeaveComment } from '../types';
+import { DEFAULT_LEAVE_TYPES, LEAVE_STATUS_STYLES, ATTACHMENT_CONTENT_TYPES } from '../constants';
+import * as DB from '../services/db';
+import { findLeaveType, getLeaveTypeStyle, requiresAttachment } from '../utils/leaveTypes';
+import { formatLeaveDates } from '../utils/leaveDays';
+import LeaveActions from '../components/LeaveActions';
+import AttachmentList from '../components/AttachmentList';
+import CommentThread from '../components/CommentThread';
+import ApprovalProgress from '../components/ApprovalProgress';
+import { CheckCircle2, AlertCircle, Upload } from 'lucide-react';
 
 interface HistoryProps {
   user: User;
+  refreshUser: () => void;
 }
 
-const HistoryPage: React.FC<HistoryProps> = ({ user }) => {
+const HistoryPage: React.FC<HistoryProps> = ({ user, refreshUser }) => {
+  const [leaveTypes, setLeaveTypes] = useState<LeaveTypeConfig[]>(DEFAULT_LEAVE_TYPES);
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+  const [claims, setClaims] = useState<CompOffClaim[]>([]);
+  const [attachments, setAttachments] = useState<LeaveAttachment[]>([]);
+  const [comments, setComments] = useState<LeaveComment[]>([]);
+  const [uploadingId, setUploadingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    DB.getLeaveTypes().then(setLeaveTypes);
+  }, []);
+
+  useEffect(() => {
+    DB.getCompOffClaims(user.id).then(setClaims);
+    loadAttachments();
+    loadComments();
+  }, [user]);
+
+  const loadComments = async () => {
+    setComments(await DB.getLeaveComments(user.history.map(h => h.id)));
+  };
+
+  const loadAttachments = async () => {
+    setAttachments(await DB.getLeaveAttachments(user.history.map(h => h.id)));
+  };
+
+  const handleAttach = async (record: LeaveRecord, files: File[]) => {
+    if (files.length === 0) return;
+    setMessage(null);
+    setUploadingId(record.id);
+    try {
+      for (const file of files) {
+        await DB.uploadLeaveAttachment(user.id, record.id, file);
+      }
+      setMessage({ type: 'success', text: `${files.length} document(s) attached` });
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message });
+    } finally {
+      setUploadingId(null);
+      await loadAttachments();
+    }
+  };
+
+  const handleRemoveAttachment = async (attachment: LeaveAttachment) => {
+    if (!window.confirm(`Remove ${attachment.file_name}?`)) return;
+    const result = await DB.deleteLeaveAttachment(user.id, attachment);
+    setMessage(result.success
+      ? { type: 'success', text: 'Document removed' }
+      : { type: 'error', text: result.error || 'Failed to remove document' });
+    await loadAttachments();
+  };
+
   return (
     <div className="space-y-6">
        <div>
@@ -13,56 +74,178 @@ const HistoryPage: React.FC<HistoryProps> = ({ user }) => {
           <p className="text-slate-500">Record of all leaves taken</p>
         </div>
 
+      {message && (
+        <div className={`p-4 rounded-lg flex items-center gap-2 ${
+          message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+        }`}>
+          {message.type === 'success' ? <CheckCircle2 size={20} /> : <AlertCircle size={20} />}
+          {message.text}
+        </div>
+      )}
+
       <div className="bg-white shadow-sm border border-slate-200 rounded-xl overflow-hidden">
         <div className="overflow-x-auto">
           <table className="w-full text-left border-collapse">
             <thead>
               <tr className="bg-slate-50 border-b border-slate-200">
-                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Date</th>
+                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Dates</th>
                 <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Type</th>
                 <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Duration</th>
                 <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Documents</th>
+                <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider text-right">Actions</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-100">
               {user.history.length === 0 ? (
                 <tr>
-                  <td colSpan={4} className="px-6 py-8 text-center text-slate-400 text-sm">
+                  <td colSpan={6} className="px-6 py-8 text-center text-slate-400 text-sm">
                     No records found.
                   </td>
                 </tr>
               ) : (
-                user.history.map((record) => (
+                user.history.map((record) => {
+                  const recordAttachments = attachments.filter(a => a.leave_id === record.id);
+                  const canAttach = ['pending', 'approved', 'cancellation_requested'].includes(record.status);
+                  const missingDocument = record.status === 'pending'
+                    && recordAttachments.length === 0
+                    && requiresAttachment(findLeaveType(leaveTypes, record.type), record.amount);
+                  return (
                   <tr key={record.id} className="hover:bg-slate-50 transition-colors">
                     <td className="px-6 py-4 text-sm text-slate-900 font-medium">
-                      {record.date}
+                      {formatLeaveDates(record)}
+                      {record.revisions && record.revisions.length > 0 && (
+                        <p className="text-xs font-normal text-slate-400">
+                          Edited {record.revisions.length === 1 ? 'once' : `${record.revisions.length} times`}
+                        </p>
+                      )}
+                      {record.emergency && (
+                        <p className="text-xs font-normal text-amber-700 mt-1 max-w-xs" title={record.policy_breach}>
+                          Emergency request
+                        </p>
+                      )}
+                      {record.reason && (
+                        <p className="text-xs font-normal text-slate-500 mt-1 max-w-xs">{record.reason}</p>
+                      )}
+                      <div className="mt-1 font-normal">
+                        <CommentThread
+                          leaveId={record.id}
+                          currentUserId={user.id}
+                          comments={comments.filter(c => c.leave_id === record.id)}
+                          onPosted={loadComments}
+                          placeholder="Reply or add a note for your approver"
+                        />
+                      </div>
                     </td>
                     <td className="px-6 py-4 text-sm">
                       <span className={`
-                        inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize
-                        ${record.type === 'casual' ? 'bg-blue-100 text-blue-800' : 
-                          record.type === 'sick' ? 'bg-red-100 text-red-800' : 
-                          'bg-green-100 text-green-800'}
+                        inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium
+                        ${getLeaveTypeStyle(leaveTypes, record.type).badge}
                       `}>
-                        {record.type}
+                        {findLeaveType(leaveTypes, record.type).label}
                       </span>
                     </td>
                     <td className="px-6 py-4 text-sm text-slate-600">
                       {record.amount} Day(s)
                     </td>
                     <td className="px-6 py-4 text-sm">
-                      <span className="inline-flex items-center gap-1.5 text-green-600 font-medium text-xs">
-                        <span className="w-1.5 h-1.5 rounded-full bg-green-600"></span>
-                        Approved
+                      <span className={`inline-flex items-center gap-1.5 font-medium text-xs ${LEAVE_STATUS_STYLES[record.status].text}`}>
+                        <span className={`w-1.5 h-1.5 rounded-full ${LEAVE_STATUS_STYLES[record.status].dot}`}></span>
+                        {LEAVE_STATUS_STYLES[record.status].label}
                       </span>
+                      <ApprovalProgress record={record} />
+                      {record.status === 'rejected' && record.rejection_reason && (
+                        <p className="text-xs text-slate-400 mt-1">{record.rejection_reason}</p>
+                      )}
+                      {(record.status === 'cancelled' || record.status === 'cancellation_requested') && record.cancellation_reason && (
+                        <p className="text-xs text-slate-400 mt-1">{record.cancellation_reason}</p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm max-w-xs">
+                      <div className="space-y-2">
+                        <AttachmentList
+                          attachments={recordAttachments}
+                          onRemove={record.status === 'pending' ? handleRemoveAttachment : undefined}
+                          disabled={uploadingId !== null}
+                        />
+                        {missingDocument && (
+                          <p className="text-xs text-amber-600">Document required before approval</p>
+                        )}
+                        {canAttach && (
+                          <label className={`inline-flex items-center gap-1 text-xs font-medium text-primary-600 hover:text-primary-700 cursor-pointer ${uploadingId ? 'opacity-50 pointer-events-none' : ''}`}>
+                            <Upload size={12} />
+                            {uploadingId === record.id ? 'Uploading...' : 'Attach'}
+                            <input
+                              type="file"
+                              multiple
+                              accept={ATTACHMENT_CONTENT_TYPES.join(',')}
+                              onChange={(e) => { handleAttach(record, Array.from(e.target.files || [])); e.target.value = ''; }}
+                              className="hidden"
+                            />
+                          </label>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      <LeaveActions
+                        userId={user.id}
+                        record={record}
+                        onDone={(result) => { setMessage(result); refreshUser(); }}
+                      />
                     </td>
                   </tr>
-                ))
+                  );
+                })
               )}
             </tbody>
           </table>
         </div>
       </div>
+
+      {claims.length > 0 && (
+        <div className="bg-white shadow-sm border border-slate-200 rounded-xl overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-200">
+            <h3 className="text-lg font-bold text-slate-900">Comp-Off Claims</h3>
+            <p className="text-sm text-slate-500">Weekends and holidays worked</p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="bg-slate-50 border-b border-slate-200">
+                  <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Day Worked</th>
+                  <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Credit</th>
+                  <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Work Done</th>
+                  <th className="px-6 py-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {claims.map((claim) => (
+                  <tr key={claim.id} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-6 py-4 text-sm text-slate-900 font-medium">{claim.work_date}</td>
+                    <td className="px-6 py-4 text-sm text-slate-600">{claim.days} Day(s)</td>
+                    <td className="px-6 py-4 text-sm text-slate-600">{claim.reason}</td>
+                    <td className="px-6 py-4 text-sm">
+                      <span className={`inline-flex items-center gap-1.5 font-medium text-xs ${LEAVE_STATUS_STYLES[claim.status].text}`}>
+                        <span className={`w-1.5 h-1.5 rounded-full ${LEAVE_STATUS_STYLES[claim.status].dot}`}></span>
+                        {LEAVE_STATUS_STYLES[claim.status].label}
+                      </span>
+                      {claim.status === 'approved' && claim.expired_days !== undefined && (
+                        <p className="text-xs text-slate-400 mt-1">Expired on {claim.expires_on}</p>
+                      )}
+                      {claim.status === 'approved' && claim.expired_days === undefined && claim.expires_on && (
+                        <p className="text-xs text-slate-400 mt-1">Use by {claim.expires_on}</p>
+                      )}
+                      {claim.status === 'rejected' && claim.rejection_reason && (
+                        <p className="text-xs text-slate-400 mt-1">{claim.rejection_reason}</p>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
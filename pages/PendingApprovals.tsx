@@ -1,26 +1,94 @@
 import React, { useState, useEffect } from 'react';
-import { User, PendingLeaveRequest } from '../types';
+import { User, PendingLeaveRequest, PendingCompOffClaim, LeaveTypeConfig, LeaveRevision, LeaveComment, TeamAvailability, BulkDecisionResult, LeaveActionErrorCode } from '../types';
+import { DEFAULT_LEAVE_TYPES } from '../constants';
 import * as DB from '../services/db';
-import { Clock, CheckCircle, XCircle, Calendar, User as UserIcon, AlertCircle } from 'lucide-react';
+import { findLeaveType, getLeaveTypeStyle, requiresAttachment } from '../utils/leaveTypes';
+import { formatLeaveDates } from '../utils/leaveDays';
+import AttachmentList from '../components/AttachmentList';
+import CommentThread from '../components/CommentThread';
+import TeamAbsencePanel from '../components/TeamAbsencePanel';
+import ApprovalProgress from '../components/ApprovalProgress';
+import DelegationPanel from '../components/DelegationPanel';
+import DecisionHistory from '../components/DecisionHistory';
+import { findStaffingBreaches } from '../utils/staffing';
+import { Clock, CheckCircle, XCircle, Calendar, User as UserIcon, AlertCircle, Ban, History, Briefcase, Paperclip, Siren, X } from 'lucide-react';
 
 interface PendingApprovalsProps {
   user: User;
   refreshUser: () => void;
 }
 
+// Fields that differ between the previous version of a request and the current one
+const describeChanges = (previous: LeaveRevision, current: PendingLeaveRequest, leaveTypes: LeaveTypeConfig[]) => {
+  const changes: { field: string; from: string; to: string }[] = [];
+  const previousDates = formatLeaveDates(previous);
+  const currentDates = formatLeaveDates(current);
+
+  if (previousDates !== currentDates) {
+    changes.push({ field: 'Dates', from: previousDates, to: currentDates });
+  }
+  if (previous.type !== current.type) {
+    changes.push({
+      field: 'Type',
+      from: findLeaveType(leaveTypes, previous.type).label,
+      to: findLeaveType(leaveTypes, current.type).label
+    });
+  }
+  if (previous.amount !== current.amount) {
+    changes.push({ field: 'Duration', from: `${previous.amount} day(s)`, to: `${current.amount} day(s)` });
+  }
+  if ((previous.reason || '') !== (current.reason || '')) {
+    changes.push({ field: 'Reason', from: previous.reason || '(none)', to: current.reason || '(none)' });
+  }
+  return changes;
+};
+
+// Refusals meaning another approver got there first, so the queue is out of date
+const isStaleDecision = (code?: LeaveActionErrorCode) => code === 'not_pending' || code === 'step_changed';
+
 const PendingApprovalsPage: React.FC<PendingApprovalsProps> = ({ user, refreshUser }) => {
   const [pendingRequests, setPendingRequests] = useState<PendingLeaveRequest[]>([]);
+  const [pendingClaims, setPendingClaims] = useState<PendingCompOffClaim[]>([]);
+  const [comments, setComments] = useState<LeaveComment[]>([]);
+  // Availability of each requester's team, by their line manager's id
+  const [teams, setTeams] = useState<Record<string, TeamAvailability>>({});
   const [loading, setLoading] = useState(true);
   const [processing, setProcessing] = useState<string | null>(null);
   const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
   const [rejectReason, setRejectReason] = useState<{ [key: string]: string }>({});
   const [showRejectModal, setShowRejectModal] = useState<string | null>(null);
+  const [leaveTypes, setLeaveTypes] = useState<LeaveTypeConfig[]>(DEFAULT_LEAVE_TYPES);
+  const [tab, setTab] = useState<'pending' | 'decisions'>('pending');
+  // Requests ticked for a bulk decision, and the outcome of the last one
+  const [selected, setSelected] = useState<string[]>([]);
+  const [bulkNote, setBulkNote] = useState('');
+  const [bulkProcessing, setBulkProcessing] = useState(false);
+  const [bulkResults, setBulkResults] = useState<{ request: PendingLeaveRequest; result: BulkDecisionResult }[]>([]);
 
   const loadPendingRequests = async () => {
     setLoading(true);
     try {
-      const requests = await DB.getPendingApprovals(user.id);
+      const [requests, claims] = await Promise.all([
+        DB.getPendingApprovals(user.id),
+        DB.getPendingCompOffClaims(user.id)
+      ]);
+      // Loaded with the requests so threads with comments start expanded
+      setComments(await DB.getLeaveComments(requests.map(r => r.id)));
+      // Each requester's team leave across the dates of that team's pending requests
+      const managerIds = [...new Set(requests.map(r => r.user_reporting_to).filter((id): id is string => !!id))];
+      const availability = await Promise.all(managerIds.map(managerId => {
+        const teamRequests = requests.filter(r => r.user_reporting_to === managerId);
+        return DB.getTeamAvailability(
+          managerId,
+          teamRequests.reduce((min, r) => r.date < min ? r.date : min, teamRequests[0].date),
+          teamRequests.reduce((max, r) => (r.end_date || r.date) > max ? (r.end_date || r.date) : max, teamRequests[0].end_date || teamRequests[0].date)
+        );
+      }));
+      setTeams(Object.fromEntries(managerIds.map((id, i) => [id, availability[i]])));
       setPendingRequests(requests);
+      setPendingClaims(claims);
+      // Drop selections for requests that have left the queue
+      setSelected(prev => prev.filter(id => requests.some(r => r.id === id && r.status === 'pending')));
     } catch (err) {
       console.error('Error loading pending requests:', err);
     } finally {
@@ -32,16 +100,48 @@ const PendingApprovalsPage: React.FC<PendingApprovalsProps> = ({ user, refreshUs
     loadPendingRequests();
   }, [user.id]);
 
-  const handleApprove = async (leaveId: string, employeeName: string) => {
+  const loadComments = async () => {
+    setComments(await DB.getLeaveComments(pendingRequests.map(r => r.id)));
+  };
+
+  useEffect(() => {
+    DB.getLeaveTypes().then(setLeaveTypes);
+  }, []);
+
+  const teamFor = (request: PendingLeaveRequest) =>
+    request.user_reporting_to ? teams[request.user_reporting_to] || null : null;
+
+  // Dates a decision covers, with the unpaid part of a split request
+  const coveredBy = (request: PendingLeaveRequest): PendingLeaveRequest =>
+    request.unpaid_part ? { ...request, end_date: request.unpaid_part.end_date } : request;
+
+  const handleApprove = async (request: PendingLeaveRequest) => {
+    const { id: leaveId, user_name: employeeName } = request;
+    const requestTeam = teamFor(request);
+    const breaches = requestTeam ? findStaffingBreaches(coveredBy(request), requestTeam) : [];
+    if (breaches.length > 0 && !window.confirm(
+      `Approving leaves the team below its minimum staffing on ${breaches.map(b => b.date).join(', ')}. Approve anyway?`
+    )) {
+      return;
+    }
+
     setProcessing(leaveId);
     setMessage(null);
 
     try {
       const result = await DB.approveLeave(leaveId, user.id);
       if (result.success) {
-        setMessage({ type: 'success', text: `Leave approved for ${employeeName}` });
+        setMessage({
+          type: 'success',
+          text: result.next_step
+            ? `Approved your step for ${employeeName}; now waiting for ${result.next_step}`
+            : `Leave approved for ${employeeName}`
+        });
         await loadPendingRequests();
         refreshUser();
+      } else if (isStaleDecision(result.code)) {
+        setMessage({ type: 'error', text: `${employeeName}'s request was decided by someone else in the meantime` });
+        await loadPendingRequests();
       } else {
         setMessage({ type: 'error', text: result.error || 'Failed to approve leave' });
       }
@@ -65,6 +165,10 @@ const PendingApprovalsPage: React.FC<PendingApprovalsProps> = ({ user, refreshUs
         await loadPendingRequests();
         setShowRejectModal(null);
         setRejectReason({ ...rejectReason, [leaveId]: '' });
+      } else if (isStaleDecision(result.code)) {
+        setMessage({ type: 'error', text: `${employeeName}'s request was decided by someone else in the meantime` });
+        setShowRejectModal(null);
+        await loadPendingRequests();
       } else {
         setMessage({ type: 'error', text: result.error || 'Failed to reject leave' });
       }
@@ -75,15 +179,139 @@ const PendingApprovalsPage: React.FC<PendingApprovalsProps> = ({ user, refreshUs
     }
   };
 
-  const getTypeColor = (type: string) => {
-    switch (type) {
-      case 'casual': return 'bg-blue-100 text-blue-800';
-      case 'sick': return 'bg-red-100 text-red-800';
-      case 'annual': return 'bg-green-100 text-green-800';
-      default: return 'bg-gray-100 text-gray-800';
+  // Only pending requests can be decided in bulk; cancellations stay one at a time
+  const selectable = pendingRequests.filter(r => r.status === 'pending');
+
+  const toggleSelected = (leaveId: string) => {
+    setSelected(selected.includes(leaveId) ? selected.filter(id => id !== leaveId) : [...selected, leaveId]);
+  };
+
+  const handleBulk = async (approve: boolean) => {
+    const requests = selectable.filter(r => selected.includes(r.id));
+    if (requests.length === 0) return;
+
+    if (approve) {
+      const short = requests.filter(r => {
+        const requestTeam = teamFor(r);
+        return requestTeam?.rule?.mode === 'warn' && findStaffingBreaches(coveredBy(r), requestTeam).length > 0;
+      });
+      if (short.length > 0 && !window.confirm(
+        `Approving leaves the team below its minimum staffing for ${short.map(r => r.user_name).join(', ')}. Approve all ${requests.length} anyway?`
+      )) {
+        return;
+      }
+    } else if (!window.confirm(`Reject ${requests.length} request(s)${bulkNote.trim() ? '' : ' without a reason'}?`)) {
+      return;
+    }
+
+    setBulkProcessing(true);
+    setMessage(null);
+    setBulkResults([]);
+
+    try {
+      const ids = requests.map(r => r.id);
+      const results = approve
+        ? await DB.bulkApproveLeave(ids, user.id, bulkNote)
+        : await DB.bulkRejectLeave(ids, user.id, bulkNote.trim() || 'No reason provided');
+
+      setBulkResults(results.map(result => ({ request: requests.find(r => r.id === result.leave_id)!, result })));
+      const failed = results.filter(r => !r.success).length;
+      setMessage({
+        type: failed === 0 ? 'success' : 'error',
+        text: `${approve ? 'Approved' : 'Rejected'} ${results.length - failed} of ${results.length} request(s)${failed > 0 ? `; ${failed} failed, see below` : ''}`
+      });
+      setBulkNote('');
+      await loadPendingRequests();
+      refreshUser();
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message });
+    } finally {
+      setBulkProcessing(false);
     }
   };
 
+  const handleCancellation = async (leaveId: string, employeeName: string, accept: boolean) => {
+    setProcessing(leaveId);
+    setMessage(null);
+
+    try {
+      const result = accept
+        ? await DB.approveCancellation(leaveId, user.id)
+        : await DB.rejectCancellation(leaveId, user.id);
+      if (result.success) {
+        setMessage({
+          type: 'success',
+          text: accept ? `Leave cancelled for ${employeeName}` : `${employeeName}'s leave stays approved`
+        });
+        await loadPendingRequests();
+        refreshUser();
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to process cancellation' });
+      }
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message });
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  const handleClaim = async (claimId: string, employeeName: string, approve: boolean) => {
+    setProcessing(claimId);
+    setMessage(null);
+
+    try {
+      const result = approve
+        ? await DB.approveCompOffClaim(claimId, user.id)
+        : await DB.rejectCompOffClaim(claimId, user.id, rejectReason[claimId] || 'No reason provided');
+      if (result.success) {
+        setMessage({ type: 'success', text: `Comp-off ${approve ? 'approved' : 'rejected'} for ${employeeName}` });
+        await loadPendingRequests();
+        setShowRejectModal(null);
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to process comp-off claim' });
+      }
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message });
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  const getTypeColor = (type: string) => getLeaveTypeStyle(leaveTypes, type).badge;
+
+  const pageHeader = (
+    <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+      <div>
+        <h1 className="text-2xl font-bold text-slate-900">{tab === 'pending' ? 'Pending Approvals' : 'Decisions'}</h1>
+        <p className="text-slate-500">
+          {tab === 'pending' ? 'Review and approve leave requests from your team' : 'Requests you have already approved or rejected'}
+        </p>
+      </div>
+      <div className="inline-flex bg-slate-100 rounded-lg p-1 self-start md:self-auto">
+        {(['pending', 'decisions'] as const).map(t => (
+          <button
+            key={t}
+            onClick={() => setTab(t)}
+            className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${
+              tab === t ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+            }`}
+          >
+            {t === 'pending' ? `Pending${pendingRequests.length + pendingClaims.length > 0 ? ` (${pendingRequests.length + pendingClaims.length})` : ''}` : 'Decisions'}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  if (tab === 'decisions') {
+    return (
+      <div className="space-y-6">
+        {pageHeader}
+        <DecisionHistory user={user} leaveTypes={leaveTypes} />
+      </div>
+    );
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -97,10 +325,9 @@ const PendingApprovalsPage: React.FC<PendingApprovalsProps> = ({ user, refreshUs
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-2xl font-bold text-slate-900">Pending Approvals</h1>
-        <p className="text-slate-500">Review and approve leave requests from your team</p>
-      </div>
+      {pageHeader}
+
+      <DelegationPanel user={user} onChanged={loadPendingRequests} />
 
       {message && (
         <div className={`p-4 rounded-lg flex items-center gap-2 ${
@@ -111,7 +338,83 @@ const PendingApprovalsPage: React.FC<PendingApprovalsProps> = ({ user, refreshUs
         </div>
       )}
 
-      {pendingRequests.length === 0 ? (
+      {bulkResults.length > 0 && (
+        <div className="bg-white rounded-xl border border-slate-200 p-4">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-sm font-semibold text-slate-900">Bulk decision results</p>
+            <button onClick={() => setBulkResults([])} className="text-slate-400 hover:text-slate-600" title="Dismiss">
+              <X size={16} />
+            </button>
+          </div>
+          <ul className="divide-y divide-slate-100 text-sm">
+            {bulkResults.map(({ request, result }) => (
+              <li key={result.leave_id} className="py-1.5 flex items-start gap-2">
+                {result.success
+                  ? <CheckCircle size={16} className="text-green-600 flex-shrink-0 mt-0.5" />
+                  : <XCircle size={16} className="text-red-600 flex-shrink-0 mt-0.5" />}
+                <span className="text-slate-700">
+                  <strong>{request.user_name}</strong>, {findLeaveType(leaveTypes, request.type).label} {formatLeaveDates(request)}
+                  <span className={result.success ? 'text-slate-500' : 'text-red-600'}>
+                    {' '}· {result.success
+                      ? result.next_step ? `passed to ${result.next_step}` : 'done'
+                      : result.error || 'Failed'}
+                  </span>
+                  {result.note_error && (
+                    <span className="text-amber-600"> · note not posted: {result.note_error}</span>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {selectable.length > 1 && (
+        <div className="bg-white rounded-xl border border-slate-200 p-4 flex flex-col md:flex-row md:items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-slate-700 whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={selected.length === selectable.length}
+              onChange={e => setSelected(e.target.checked ? selectable.map(r => r.id) : [])}
+              disabled={bulkProcessing}
+              className="rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+            />
+            {selected.length > 0 ? `${selected.length} selected` : `Select all ${selectable.length}`}
+          </label>
+          <input
+            type="text"
+            value={bulkNote}
+            onChange={e => setBulkNote(e.target.value)}
+            placeholder="Shared note: the rejection reason, or a comment on each approval"
+            className="flex-1 border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+            disabled={bulkProcessing}
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleBulk(true)}
+              disabled={bulkProcessing || selected.length === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+            >
+              {bulkProcessing ? (
+                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+              ) : (
+                <CheckCircle size={16} />
+              )}
+              Approve Selected
+            </button>
+            <button
+              onClick={() => handleBulk(false)}
+              disabled={bulkProcessing || selected.length === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg font-medium text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+            >
+              <XCircle size={16} />
+              Reject Selected
+            </button>
+          </div>
+        </div>
+      )}
+
+      {pendingRequests.length === 0 && pendingClaims.length === 0 ? (
         <div className="bg-white rounded-xl border border-slate-200 p-12 text-center">
           <div className="w-16 h-16 bg-slate-100 rounded-full flex items-center justify-center mx-auto mb-4">
             <Clock className="w-8 h-8 text-slate-400" />
@@ -119,13 +422,23 @@ const PendingApprovalsPage: React.FC<PendingApprovalsProps> = ({ user, refreshUs
           <h3 className="text-lg font-semibold text-slate-900 mb-2">No Pending Requests</h3>
           <p className="text-slate-500">All leave requests have been processed.</p>
         </div>
-      ) : (
+      ) : pendingRequests.length > 0 && (
         <div className="grid gap-4">
           {pendingRequests.map((request) => (
             <div key={request.id} className="bg-white rounded-xl border border-slate-200 p-6 hover:shadow-md transition-shadow">
               <div className="flex items-start justify-between gap-4">
                 <div className="flex-1">
                   <div className="flex items-center gap-3 mb-3">
+                    {selectable.length > 1 && request.status === 'pending' && (
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(request.id)}
+                        onChange={() => toggleSelected(request.id)}
+                        disabled={bulkProcessing}
+                        className="rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                        aria-label={`Select ${request.user_name}'s request`}
+                      />
+                    )}
                     <div className="w-10 h-10 bg-primary-100 rounded-full flex items-center justify-center">
                       <UserIcon size={20} className="text-primary-600" />
                     </div>
@@ -133,55 +446,168 @@ const PendingApprovalsPage: React.FC<PendingApprovalsProps> = ({ user, refreshUs
                       <h3 className="font-semibold text-slate-900">{request.user_name}</h3>
                       <p className="text-sm text-slate-500">{request.user_email}</p>
                     </div>
+                    {request.delegated_from && (
+                      <span className="ml-auto px-2.5 py-0.5 rounded-full bg-indigo-50 text-indigo-700 text-xs font-medium">
+                        Delegated by {request.delegated_from_name || 'Unknown'}
+                      </span>
+                    )}
                   </div>
 
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
                     <div className="flex items-center gap-2 text-sm">
                       <Calendar size={16} className="text-slate-400" />
                       <span className="text-slate-600">
-                        <strong>Date:</strong> {request.date}
+                        <strong>{coveredBy(request).end_date !== request.date ? 'Dates' : 'Date'}:</strong> {formatLeaveDates(coveredBy(request))}
                       </span>
                     </div>
                     <div className="flex items-center gap-2 text-sm">
                       <Clock size={16} className="text-slate-400" />
                       <span className="text-slate-600">
                         <strong>Duration:</strong> {request.amount} day(s)
+                        {request.unpaid_part && ` + ${request.unpaid_part.amount} unpaid`}
                       </span>
                     </div>
                     <div className="flex items-center gap-2 text-sm">
-                      <span className={`px-3 py-1 rounded-full text-xs font-medium capitalize ${getTypeColor(request.type)}`}>
-                        {request.type} Leave
+                      <span className={`px-3 py-1 rounded-full text-xs font-medium ${getTypeColor(request.type)}`}>
+                        {findLeaveType(leaveTypes, request.type).label}
                       </span>
                     </div>
                   </div>
 
+                  {request.unpaid_part && (
+                    <p className="mb-3 text-sm text-slate-600 bg-slate-50 border border-slate-100 rounded-lg p-3">
+                      The balance covers {formatLeaveDates(request)}. {formatLeaveDates(request.unpaid_part)} is{' '}
+                      {findLeaveType(leaveTypes, request.unpaid_part.type).label.toLowerCase()}, decided together with it.
+                    </p>
+                  )}
+
+                  {request.emergency && (
+                    <div className="mb-3 p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800">
+                      <p className="font-medium flex items-center gap-1.5">
+                        <Siren size={14} />
+                        Emergency request
+                      </p>
+                      {request.policy_breach && <p className="text-xs mt-1">Breaks policy: {request.policy_breach}</p>}
+                    </div>
+                  )}
+
+                  {request.reason && (
+                    <p className="mb-3 text-sm text-slate-600 bg-slate-50 border border-slate-100 rounded-lg p-3">
+                      <strong>Reason:</strong> {request.reason}
+                    </p>
+                  )}
+
+                  {request.revisions && request.revisions.length > 0 && (
+                    <div className="mb-3 p-3 rounded-lg bg-blue-50 border border-blue-100 text-sm text-blue-800">
+                      <p className="font-medium flex items-center gap-1.5">
+                        <History size={14} />
+                        Edited {request.revisions.length === 1 ? 'once' : `${request.revisions.length} times`}, last on {new Date(request.revisions[request.revisions.length - 1].edited_at).toLocaleString()}
+                      </p>
+                      <ul className="mt-1 space-y-0.5 text-xs">
+                        {describeChanges(request.revisions[request.revisions.length - 1], request, leaveTypes).map(change => (
+                          <li key={change.field}>
+                            {change.field}: <span className="line-through text-blue-500">{change.from}</span> → <strong>{change.to}</strong>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {((request.approval_steps && request.approval_steps.length > 1) || (request.escalations && request.escalations.length > 0)) && (
+                    <div className="mb-3 p-3 rounded-lg bg-slate-50 border border-slate-100 text-sm">
+                      <p className="font-medium text-slate-700">
+                        Approval step {(request.current_step || 0) + 1} of {request.approval_steps?.length || 1}
+                      </p>
+                      <ApprovalProgress record={request} />
+                    </div>
+                  )}
+
+                  {teamFor(request) && request.status === 'pending' && (
+                    <TeamAbsencePanel request={coveredBy(request)} team={teamFor(request)!} leaveTypes={leaveTypes} />
+                  )}
+
+                  {request.attachments.length > 0 ? (
+                    <div className="mb-3">
+                      <p className="text-xs font-semibold text-slate-500 uppercase mb-1.5">Documents</p>
+                      <AttachmentList attachments={request.attachments} />
+                    </div>
+                  ) : request.status === 'pending' && requiresAttachment(findLeaveType(leaveTypes, request.type), request.amount) && (
+                    <p className="mb-3 text-sm text-amber-700 flex items-center gap-1.5">
+                      <Paperclip size={14} />
+                      Waiting for a supporting document; this request cannot be approved yet
+                    </p>
+                  )}
+
+                  {request.status === 'cancellation_requested' && (
+                    <div className="mb-3 p-3 rounded-lg bg-orange-50 border border-orange-100 text-sm text-orange-800">
+                      <p className="font-medium flex items-center gap-1.5"><Ban size={14} /> Cancellation requested</p>
+                      {request.cancellation_reason && <p className="text-xs mt-1">{request.cancellation_reason}</p>}
+                    </div>
+                  )}
+
+                  <div className="mb-3">
+                    <CommentThread
+                      leaveId={request.id}
+                      currentUserId={user.id}
+                      comments={comments.filter(c => c.leave_id === request.id)}
+                      onPosted={loadComments}
+                      placeholder={`Ask ${request.user_name} a question or add a note`}
+                      defaultOpen={comments.some(c => c.leave_id === request.id)}
+                    />
+                  </div>
+
                   <p className="text-xs text-slate-400">
-                    Requested on: {new Date(request.timestamp).toLocaleString()}
+                    Requested on: {new Date(request.submitted_at || request.timestamp).toLocaleString()}
                   </p>
                 </div>
 
-                <div className="flex gap-2">
-                  <button
-                    onClick={() => handleApprove(request.id, request.user_name)}
-                    disabled={processing === request.id}
-                    className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    {processing === request.id ? (
-                      <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                    ) : (
-                      <CheckCircle size={16} />
-                    )}
-                    Approve
-                  </button>
-                  <button
-                    onClick={() => setShowRejectModal(request.id)}
-                    disabled={processing === request.id}
-                    className="flex items-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg font-medium text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    <XCircle size={16} />
-                    Reject
-                  </button>
-                </div>
+                {request.status === 'cancellation_requested' ? (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleCancellation(request.id, request.user_name, true)}
+                      disabled={processing === request.id}
+                      className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {processing === request.id ? (
+                        <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                      ) : (
+                        <CheckCircle size={16} />
+                      )}
+                      Approve Cancellation
+                    </button>
+                    <button
+                      onClick={() => handleCancellation(request.id, request.user_name, false)}
+                      disabled={processing === request.id}
+                      className="flex items-center gap-2 px-4 py-2 border border-slate-300 text-slate-700 hover:bg-slate-50 rounded-lg font-medium text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <XCircle size={16} />
+                      Keep Leave
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleApprove(request)}
+                      disabled={processing === request.id || (teamFor(request)?.rule?.mode === 'block' && findStaffingBreaches(coveredBy(request), teamFor(request)!).length > 0)}
+                      className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {processing === request.id ? (
+                        <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                      ) : (
+                        <CheckCircle size={16} />
+                      )}
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => setShowRejectModal(request.id)}
+                      disabled={processing === request.id}
+                      className="flex items-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg font-medium text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <XCircle size={16} />
+                      Reject
+                    </button>
+                  </div>
+                )}
               </div>
 
               {/* Reject Modal */}
@@ -221,6 +647,115 @@ const PendingApprovalsPage: React.FC<PendingApprovalsProps> = ({ user, refreshUs
           ))}
         </div>
       )}
+
+      {/* Comp-off claims */}
+      {pendingClaims.length > 0 && (
+        <div className="space-y-4">
+          <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+            <Briefcase size={18} className="text-teal-600" />
+            Comp-Off Claims
+          </h2>
+          <div className="grid gap-4">
+            {pendingClaims.map((claim) => (
+              <div key={claim.id} className="bg-white rounded-xl border border-slate-200 p-6 hover:shadow-md transition-shadow">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-3 mb-3">
+                      <div className="w-10 h-10 bg-teal-100 rounded-full flex items-center justify-center">
+                        <UserIcon size={20} className="text-teal-600" />
+                      </div>
+                      <div>
+                        <h3 className="font-semibold text-slate-900">{claim.user_name}</h3>
+                        <p className="text-sm text-slate-500">{claim.user_email}</p>
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-3">
+                      <div className="flex items-center gap-2 text-sm">
+                        <Calendar size={16} className="text-slate-400" />
+                        <span className="text-slate-600">
+                          <strong>Worked on:</strong> {claim.work_date}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-2 text-sm">
+                        <Clock size={16} className="text-slate-400" />
+                        <span className="text-slate-600">
+                          <strong>Credit:</strong> {claim.days} day(s)
+                        </span>
+                      </div>
+                    </div>
+
+                    <p className="mb-3 text-sm text-slate-600 bg-slate-50 border border-slate-100 rounded-lg p-3">
+                      {claim.reason}
+                    </p>
+
+                    <p className="text-xs text-slate-400">
+                      Claimed on: {new Date(claim.timestamp).toLocaleString()}
+                    </p>
+                  </div>
+
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleClaim(claim.id, claim.user_name, true)}
+                      disabled={processing === claim.id}
+                      className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {processing === claim.id ? (
+                        <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                      ) : (
+                        <CheckCircle size={16} />
+                      )}
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => setShowRejectModal(claim.id)}
+                      disabled={processing === claim.id}
+                      className="flex items-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg font-medium text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <XCircle size={16} />
+                      Reject
+                    </button>
+                  </div>
+                </div>
+
+                {/* Reject Modal */}
+                {showRejectModal === claim.id && (
+                  <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm">
+                    <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md p-6">
+                      <h3 className="text-lg font-bold text-slate-900 mb-4">Reject Comp-Off Claim</h3>
+                      <p className="text-sm text-slate-600 mb-4">
+                        Are you sure you want to reject this comp-off claim from <strong>{claim.user_name}</strong>?
+                      </p>
+                      <textarea
+                        value={rejectReason[claim.id] || ''}
+                        onChange={(e) => setRejectReason({ ...rejectReason, [claim.id]: e.target.value })}
+                        placeholder="Reason for rejection (optional)"
+                        className="w-full border border-slate-300 rounded-lg p-3 text-sm mb-4 focus:ring-2 focus:ring-primary-500 outline-none"
+                        rows={3}
+                      />
+                      <div className="flex gap-3">
+                        <button
+                          onClick={() => setShowRejectModal(null)}
+                          className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg font-medium hover:bg-slate-50 transition-colors"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => handleClaim(claim.id, claim.user_name, false)}
+                          disabled={processing === claim.id}
+                          className="flex-1 px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+                        >
+                          {processing === claim.id ? 'Processing...' : 'Confirm Reject'}
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
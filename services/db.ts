@@ -1,18 +1,81 @@
-import { User, LeaveRecord, PendingLeaveRequest } from '../types';
+import {
+  User,
+  LeaveRecord,
+  LeaveRevision,
+  PendingLeaveRequest,
+  LeaveTypeConfig,
+  LeaveType,
+  UserBalance,
+  Holiday,
+  WorkWeek,
+  LedgerEntry,
+  AccrualRunResult,
+  YearEndPreviewRow,
+  ProrationRounding,
+  CancellationPolicy,
+  CompOffClaim,
+  PendingCompOffClaim,
+  CompOffCredit,
+  UnpaidLeaveReportRow,
+  LeaveAttachment,
+  LeaveComment,
+  StaffingRule,
+  TeamAvailability,
+  BlackoutPeriod,
+  BlackoutOverride,
+  ApprovalChain,
+  LeaveApprovalStep,
+  ApprovalDelegation,
+  ApprovalSlaPolicy,
+  BulkDecisionResult,
+  ApprovalDecision,
+  ApprovalDecisionFilters,
+  LeaveActionErrorCode
+} from '../types';
+import {
+  DEFAULT_LEAVE_TYPES,
+  DEFAULT_WORK_WEEK,
+  DEFAULT_PRORATION_ROUNDING,
+  DEFAULT_CANCELLATION_POLICY,
+  COMP_OFF_LEAVE_TYPE,
+  UNPAID_LEAVE_TYPE,
+  SYSTEM_LEAVE_TYPES,
+  DEFAULT_COMP_OFF_EXPIRY_DAYS,
+  ATTACHMENT_CONTENT_TYPES,
+  MAX_ATTACHMENT_BYTES,
+  DEFAULT_APPROVAL_STEPS,
+  DEFAULT_APPROVAL_SLA
+} from '../constants';
+import { calculateLeaveDays, addDays, getWeekday, getChargeableDates, findOverlappingLeave, formatLeaveDates, getLocalDate } from '../utils/leaveDays';
+import { calculateYearEnd, tracksBalance, findLeaveType, requiresAttachment, checkNoticePolicy } from '../utils/leaveTypes';
+import { allocateCompOffBalance } from '../utils/compOff';
+import { findStaffingBreaches } from '../utils/staffing';
+import { findBlackoutConflicts } from '../utils/blackouts';
+import { findApprovalChain, buildApprovalSteps, getCurrentStep, isAwaitingApprover, describeStep } from '../utils/approvals';
 import { supabase } from './supabase';
+import { attachmentStorage } from './storage';
 
-// Map database row to User type
-const mapDbToUser = async (dbUser: any, history: any[] = []): Promise<User> => {
-  // Get manager name if reporting_to exists
-  let manager_name = undefined;
-  if (dbUser.reporting_to) {
-    const { data: manager } = await supabase
-      .from('users')
-      .select('name')
-      .eq('id', dbUser.reporting_to)
-      .single();
-    manager_name = manager?.name;
+type UserRef = { id: string; name: string; reporting_to?: string | null };
+
+// PostgREST caps each response (1000 rows by default), so bulk reads go page by page
+const PAGE_SIZE = 1000;
+const fetchAllRows = async (
+  page: (from: number, to: number) => PromiseLike<{ data: any[] | null; error: any }>
+): Promise<any[]> => {
+  const rows: any[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
   }
+};
+
+// Map database row to User type. `ledger` is the user's ledger rows or their
+// per-type totals; `people` must include the user's manager, for their name,
+// and their reportees.
+const mapDbToUser = (dbUser: any, history: any[] = [], ledger: any[] = [], people: UserRef[] = []): User => {
+  const manager_name = dbUser.reporting_to ? people.find(p => p.id === dbUser.reporting_to)?.name : undefined;
 
   return {
     id: dbUser.id,
@@ -20,24 +83,37 @@ const mapDbToUser = async (dbUser: any, history: any[] = []): Promise<User> => {
     email: dbUser.email,
     password: dbUser.password,
     role: dbUser.role,
-    balance: {
-      casual: dbUser.casual_balance,
-      sick: dbUser.sick_balance,
-      annual: dbUser.annual_balance
-    },
+    balance: sumLedger(ledger),
     history: history.map(h => ({
       id: h.id,
       date: h.date,
+      end_date: h.end_date || h.date, // Single-day records predate ranges
       amount: parseFloat(h.amount),
       type: h.type,
       timestamp: h.timestamp,
+      submitted_at: h.submitted_at || undefined,
       status: h.status || 'approved', // Default for old records
       approved_by: h.approved_by,
       approved_at: h.approved_at,
-      rejection_reason: h.rejection_reason
+      rejection_reason: h.rejection_reason,
+      cancelled_at: h.cancelled_at || undefined,
+      cancellation_reason: h.cancellation_reason || undefined,
+      reason: h.reason || undefined,
+      revisions: h.revisions || undefined,
+      linked_leave_id: h.linked_leave_id || undefined,
+      emergency: !!h.emergency,
+      policy_breach: h.policy_breach || undefined,
+      approval_steps: h.approval_steps || undefined,
+      current_step: h.current_step ?? undefined,
+      approved_on_behalf_of: h.approved_on_behalf_of || undefined,
+      escalations: h.escalations || undefined
     })),
     reporting_to: dbUser.reporting_to,
-    manager_name
+    manager_name,
+    // Anyone with reportees is a line manager, whatever their role
+    is_manager: people.some(p => p.reporting_to === dbUser.id),
+    work_week: dbUser.work_week || undefined,
+    joining_date: dbUser.joining_date || undefined
   };
 };
 
@@ -47,72 +123,1751 @@ export const getUsers = async (): Promise<User[]> => {
     .select('*');
 
   if (error) throw error;
-  
-  // Fetch history for each user
-  const usersWithHistory = await Promise.all(
-    users.map(async (user) => {
-      const { data: history } = await supabase
-        .from('leave_history')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('timestamp', { ascending: false });
-      
-      return mapDbToUser(user, history || []);
-    })
-  );
 
-  return usersWithHistory;
+  // History and balances for everyone in two reads, rather than two per user
+  const [history, balances] = await Promise.all([
+    fetchAllRows((from, to) => supabase
+      .from('leave_history')
+      .select('*')
+      .order('timestamp', { ascending: false })
+      .order('id')
+      .range(from, to)),
+    fetchAllRows((from, to) => supabase
+      .from('user_balances')
+      .select('user_id, leave_type, balance')
+      .order('user_id')
+      .order('leave_type')
+      .range(from, to))
+  ]);
+
+  return users.map(user => mapDbToUser(
+    user,
+    history.filter(h => h.user_id === user.id),
+    balances.filter(b => b.user_id === user.id).map(b => ({ leave_type: b.leave_type, delta: b.balance })),
+    users
+  ));
 };
 
 export const getUserById = async (id: string): Promise<User | undefined> => {
   const { data: user, error } = await supabase
     .from('users')
-    .select('*')
-    .eq('id', id)
-    .single();
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error || !user) return undefined;
+
+  const { data: history } = await supabase
+    .from('leave_history')
+    .select('*')
+    .eq('user_id', id)
+    .order('timestamp', { ascending: false });
+
+  const { data: ledger } = await supabase
+    .from('balance_ledger')
+    .select('leave_type, delta')
+    .eq('user_id', id);
+
+  // The manager, for their name, and any reportees
+  const { data: people } = await supabase
+    .from('users')
+    .select('id, name, reporting_to')
+    .or(user.reporting_to ? `id.eq.${user.reporting_to},reporting_to.eq.${id}` : `reporting_to.eq.${id}`);
+
+  return mapDbToUser(user, history || [], ledger || [], people || []);
+};
+
+// Balances are never stored; they are the sum of ledger deltas per leave type
+const sumLedger = (rows: { leave_type: LeaveType; delta: any }[]): UserBalance => {
+  return rows.reduce((acc, r) => ({ ...acc, [r.leave_type]: (acc[r.leave_type] || 0) + parseFloat(r.delta) }), {} as UserBalance);
+};
+
+// Current balance for one leave type
+const getBalance = async (userId: string, type: LeaveType): Promise<number> => {
+  const { data } = await supabase
+    .from('balance_ledger')
+    .select('leave_type, delta')
+    .eq('user_id', userId)
+    .eq('leave_type', type);
+
+  return sumLedger(data || [])[type] || 0;
+};
+
+type NewLedgerEntry = Omit<LedgerEntry, 'id' | 'created_at' | 'created_by_name'>;
+
+// Append balance movements; entries are never updated or deleted
+const postLedgerEntries = async (entries: NewLedgerEntry[]) => {
+  if (entries.length === 0) return { error: null };
+
+  const now = new Date().toISOString();
+  return supabase
+    .from('balance_ledger')
+    .insert(entries.map(e => ({
+      id: crypto.randomUUID(),
+      created_at: now,
+      ...e
+    })));
+};
+
+const mapDbToLedgerEntry = (e: any): LedgerEntry => ({
+  id: e.id,
+  user_id: e.user_id,
+  leave_type: e.leave_type,
+  delta: parseFloat(e.delta),
+  kind: e.kind,
+  reason: e.reason,
+  leave_id: e.leave_id || undefined,
+  period: e.period || undefined,
+  created_at: e.created_at,
+  created_by: e.created_by || undefined
+});
+
+// NEW: Balance statement for one user, oldest first
+export const getLedger = async (userId: string): Promise<LedgerEntry[]> => {
+  const { data, error } = await supabase
+    .from('balance_ledger')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error || !data) return [];
+
+  // Resolve who made each entry
+  const actorIds = [...new Set(data.map(e => e.created_by).filter(Boolean))];
+  const { data: actors } = actorIds.length > 0
+    ? await supabase.from('users').select('id, name').in('id', actorIds)
+    : { data: [] as { id: string; name: string }[] };
+
+  return data.map(e => ({
+    ...mapDbToLedgerEntry(e),
+    created_by_name: actors?.find(a => a.id === e.created_by)?.name
+  }));
+};
+
+// NEW: Leave type catalog (falls back to the built-in trio until an admin saves one)
+export const getLeaveTypes = async (): Promise<LeaveTypeConfig[]> => {
+  const { data, error } = await supabase
+    .from('leave_types')
+    .select('*')
+    .order('sort_order', { ascending: true });
+
+  if (error || !data || data.length === 0) return DEFAULT_LEAVE_TYPES;
+
+  const types: LeaveTypeConfig[] = data.map(t => ({
+    id: t.id,
+    label: t.label,
+    color: t.color,
+    default_entitlement: parseFloat(t.default_entitlement),
+    accrual_rate: parseFloat(t.accrual_rate) || 0,
+    carry_forward_max: t.carry_forward_max === null || t.carry_forward_max === undefined ? null : parseFloat(t.carry_forward_max),
+    year_start_grant: !!t.year_start_grant,
+    attachment_required_after: t.attachment_required_after === null || t.attachment_required_after === undefined ? null : parseFloat(t.attachment_required_after),
+    min_notice_days: t.min_notice_days === null || t.min_notice_days === undefined ? null : parseFloat(t.min_notice_days),
+    max_backdate_days: t.max_backdate_days === null || t.max_backdate_days === undefined ? null : parseFloat(t.max_backdate_days),
+    sort_order: t.sort_order
+  }));
+
+  // Comp-off and unpaid leave are built into the workflows, so they stay in the catalog even if never saved
+  const missing = DEFAULT_LEAVE_TYPES.filter(t => SYSTEM_LEAVE_TYPES.includes(t.id) && !types.some(s => s.id === t.id));
+  return [...types, ...missing];
+};
+
+// NEW: Create or update a leave type
+export const saveLeaveType = async (type: LeaveTypeConfig): Promise<{ success: boolean; error?: string }> => {
+  try {
+    // Persist the built-in types the first time the catalog is edited
+    const { count } = await supabase
+      .from('leave_types')
+      .select('id', { count: 'exact', head: true });
+
+    if (!count) {
+      const { error: seedError } = await supabase
+        .from('leave_types')
+        .upsert(DEFAULT_LEAVE_TYPES.filter(t => t.id !== type.id));
+      if (seedError) {
+        return { success: false, error: 'Failed to initialise leave type catalog' };
+      }
+    }
+
+    const { error } = await supabase
+      .from('leave_types')
+      .upsert({
+        id: type.id,
+        label: type.label,
+        color: type.color,
+        default_entitlement: type.default_entitlement,
+        accrual_rate: type.accrual_rate,
+        carry_forward_max: type.carry_forward_max,
+        year_start_grant: type.year_start_grant,
+        attachment_required_after: type.attachment_required_after,
+        min_notice_days: type.min_notice_days,
+        max_backdate_days: type.max_backdate_days,
+        sort_order: type.sort_order
+      });
+
+    if (error) {
+      return { success: false, error: 'Failed to save leave type' };
+    }
+
+    return { success: true };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+};
+
+// NEW: Delete a leave type that has never been used
+export const deleteLeaveType = async (typeId: LeaveType): Promise<{ success: boolean; error?: string }> => {
+  if (SYSTEM_LEAVE_TYPES.includes(typeId)) {
+    return { success: false, error: 'Comp-off and unpaid leave are built in and cannot be deleted' };
+  }
+
+  try {
+    const { count } = await supabase
+      .from('leave_history')
+      .select('id', { count: 'exact', head: true })
+      .eq('type', typeId);
+
+    if (count && count > 0) {
+      return { success: false, error: 'This leave type has existing requests and cannot be deleted' };
+    }
+
+    // Ledger entries are kept for the audit trail; they simply stop being shown
+    const { error } = await supabase
+      .from('leave_types')
+      .delete()
+      .eq('id', typeId);
+
+    if (error) {
+      return { success: false, error: 'Failed to delete leave type' };
+    }
+
+    return { success: true };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+};
+
+export const addUser = async (newUser: User, createdBy?: string): Promise<boolean> => {
+  // Check if user exists
+  const { data: existing } = await supabase
+    .from('users')
+    .select('email')
+    .eq('email', newUser.email)
+    .single();
+
+  if (existing) return false;
+
+  // Insert new user
+  const { error } = await supabase
+    .from('users')
+    .insert({
+      id: newUser.id,
+      name: newUser.name,
+      email: newUser.email,
+      password: newUser.password,
+      role: newUser.role,
+      reporting_to: newUser.reporting_to,
+      joining_date: newUser.joining_date || null
+    });
+
+  if (error) return false;
+
+  // Opening balances are recorded as grants
+  const { error: ledgerError } = await postLedgerEntries(
+    Object.entries(newUser.balance)
+      .filter(([, days]) => days !== 0)
+      .map(([leave_type, days]) => ({
+        user_id: newUser.id,
+        leave_type,
+        delta: days,
+        kind: 'grant' as const,
+        reason: newUser.joining_date
+          ? `Initial entitlement on enrollment, pro-rated from ${newUser.joining_date}`
+          : 'Initial entitlement on enrollment',
+        created_by: createdBy
+      }))
+  );
+
+  return !ledgerError;
+};
+
+// NEW: All accrual credits already written for a period (YYYY-MM)
+export const getAccrualsForPeriod = async (period: string): Promise<LedgerEntry[]> => {
+  const { data, error } = await supabase
+    .from('balance_ledger')
+    .select('*')
+    .eq('kind', 'accrual')
+    .eq('period', period);
+
+  if (error || !data) return [];
+  return data.map(mapDbToLedgerEntry);
+};
+
+// NEW: Credit every user with each leave type's monthly rate for a period.
+// Idempotent: a (user, type, period) that already has an accrual entry is skipped,
+// and the unique accrual index (see supabase/migrations) stops concurrent runs.
+export const runMonthlyAccrual = async (period: string, runBy: string): Promise<AccrualRunResult> => {
+  const result: AccrualRunResult = { period, credited: 0, skipped: 0, errors: [] };
+
+  const leaveTypes = (await getLeaveTypes()).filter(t => t.accrual_rate > 0);
+  if (leaveTypes.length === 0) return result;
+
+  const { data: allUsers, error: usersError } = await supabase
+    .from('users')
+    .select('id, name, joining_date');
+
+  if (usersError || !allUsers) {
+    result.errors.push('Failed to load users');
+    return result;
+  }
+
+  // Nothing accrues for months before an employee joined
+  const users = allUsers.filter(u => !u.joining_date || u.joining_date.slice(0, 7) <= period);
+
+  const existing = await getAccrualsForPeriod(period);
+  const alreadyCredited = new Set(existing.map(a => `${a.user_id}:${a.leave_type}`));
+
+  for (const user of users) {
+    for (const type of leaveTypes) {
+      if (alreadyCredited.has(`${user.id}:${type.id}`)) {
+        result.skipped++;
+        continue;
+      }
+
+      const { error: insertError } = await postLedgerEntries([{
+        user_id: user.id,
+        leave_type: type.id,
+        delta: type.accrual_rate,
+        kind: 'accrual',
+        reason: `Monthly accrual for ${period}`,
+        period,
+        created_by: runBy
+      }]);
+
+      // A unique violation means another run credited it in the meantime
+      if (insertError) {
+        if (insertError.code === '23505') {
+          result.skipped++;
+        } else {
+          result.errors.push(`${user.name}: failed to credit ${type.label} accrual`);
+        }
+        continue;
+      }
+
+      result.credited++;
+    }
+  }
+
+  return result;
+};
+
+// NEW: Leave years that have already been closed
+export const getClosedLeaveYears = async (): Promise<number[]> => {
+  const { data, error } = await supabase
+    .from('leave_year_closes')
+    .select('year')
+    .order('year', { ascending: true });
+
+  if (error || !data) return [];
+  return data.map(c => c.year);
+};
+
+// NEW: Effect of closing a leave year on every employee, without writing anything.
+// Carry-forward is worked out from the balance at the end of the year, so leave
+// taken or granted after Dec 31 does not change it.
+// Employees joining after the closed year already got that year's (pro-rated)
+// entitlement when they were enrolled, so they are not granted it again.
+export const previewYearEndClose = async (year: number): Promise<YearEndPreviewRow[]> => {
+  const [leaveTypes, users, ledger] = await Promise.all([
+    getLeaveTypes(),
+    fetchAllRows((from, to) => supabase
+      .from('users')
+      .select('id, name, joining_date')
+      .order('name', { ascending: true })
+      .order('id')
+      .range(from, to)),
+    fetchAllRows((from, to) => supabase
+      .from('balance_ledger')
+      .select('user_id, leave_type, delta')
+      .lt('created_at', `${year + 1}-01-01`)
+      .order('id')
+      .range(from, to))
+  ]);
+
+  const closing = new Map<string, number>();
+  ledger.forEach(e => {
+    const key = `${e.user_id}:${e.leave_type}`;
+    closing.set(key, (closing.get(key) || 0) + parseFloat(e.delta));
+  });
+
+  return users.flatMap(user =>
+    leaveTypes.filter(type => tracksBalance(type)).map(type => {
+      const balance = closing.get(`${user.id}:${type.id}`) || 0;
+      return {
+        user_id: user.id,
+        user_name: user.name,
+        leave_type: type.id,
+        current: balance,
+        ...calculateYearEnd(
+          type,
+          balance,
+          user.joining_date && Number(user.joining_date.slice(0, 4)) > year ? 0 : type.default_entitlement
+        )
+      };
+    })
+  );
+};
+
+// NEW: Close a leave year: apply carry-forward/expiry, grant the new year's
+// entitlement and record each change in the ledger with its reason.
+// close_leave_year posts the entries and marks the year closed together, and
+// refuses a year that is already closed or has not ended yet.
+export const commitYearEndClose = async (
+  year: number,
+  adminId: string
+): Promise<{ success: boolean; error?: string }> => {
+  if (year >= new Date().getFullYear()) {
+    return { success: false, error: `Leave year ${year} has not ended yet` };
+  }
+
+  try {
+    const leaveTypes = await getLeaveTypes();
+    const rows = await previewYearEndClose(year);
+
+    const entries: NewLedgerEntry[] = rows.flatMap(row => {
+      const type = leaveTypes.find(t => t.id === row.leave_type)!;
+      const rowEntries: NewLedgerEntry[] = [];
+
+      if (row.expired !== 0) {
+        rowEntries.push({
+          user_id: row.user_id,
+          leave_type: row.leave_type,
+          delta: -row.expired,
+          kind: 'year_end',
+          reason: type.carry_forward_max === 0
+            ? `Year-end ${year}: unused ${type.label} expired`
+            : `Year-end ${year}: ${row.expired} day(s) over the ${type.carry_forward_max}-day carry-forward limit expired`
+        });
+      }
+      if (row.granted !== 0) {
+        rowEntries.push({
+          user_id: row.user_id,
+          leave_type: row.leave_type,
+          delta: row.granted,
+          kind: 'grant',
+          reason: `Leave year ${year + 1}: ${type.label} entitlement`
+        });
+      }
+      return rowEntries;
+    });
+
+    const { data, error } = await supabase.rpc('close_leave_year', {
+      p_year: year,
+      p_closed_by: adminId,
+      p_entries: entries
+    });
+
+    if (error || !data) {
+      return { success: false, error: 'Failed to close leave year' };
+    }
+    return data.success ? { success: true } : { success: false, error: data.error };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+};
+
+// Company-wide settings are stored as JSON values keyed by name
+const getSetting = async <T>(key: string, fallback: T): Promise<T> => {
+  const { data, error } = await supabase
+    .from('settings')
+    .select('value')
+    .eq('key', key)
+    .maybeSingle();
+
+  if (error || !data) return fallback;
+  return data.value as T;
+};
+
+const saveSetting = async (key: string, value: unknown): Promise<boolean> => {
+  const { error } = await supabase
+    .from('settings')
+    .upsert({ key, value });
+
+  return !error;
+};
+
+// NEW: Whether cancelling approved leave needs the approver
+export const getCancellationPolicy = async (): Promise<CancellationPolicy> => {
+  return getSetting<CancellationPolicy>('cancellation_policy', DEFAULT_CANCELLATION_POLICY);
+};
+
+export const saveCancellationPolicy = async (policy: CancellationPolicy): Promise<boolean> => {
+  try {
+    return await saveSetting('cancellation_policy', policy);
+  } catch (err) {
+    console.error('Error saving cancellation policy:', err);
+    return false;
+  }
+};
+
+// NEW: How long comp-off credits can be used, in days after the day worked
+export const getCompOffExpiryDays = async (): Promise<number> => {
+  return getSetting<number>('comp_off_expiry_days', DEFAULT_COMP_OFF_EXPIRY_DAYS);
+};
+
+export const saveCompOffExpiryDays = async (days: number): Promise<boolean> => {
+  try {
+    return await saveSetting('comp_off_expiry_days', days);
+  } catch (err) {
+    console.error('Error saving comp-off expiry:', err);
+    return false;
+  }
+};
+
+// NEW: Rounding rule for pro-rated entitlements
+export const getProrationRounding = async (): Promise<ProrationRounding> => {
+  return getSetting<ProrationRounding>('proration_rounding', DEFAULT_PRORATION_ROUNDING);
+};
+
+export const saveProrationRounding = async (rounding: ProrationRounding): Promise<boolean> => {
+  try {
+    return await saveSetting('proration_rounding', rounding);
+  } catch (err) {
+    console.error('Error saving proration rounding:', err);
+    return false;
+  }
+};
+
+// NEW: Minimum-staffing rules, one per manager's team
+export const getStaffingRules = async (): Promise<StaffingRule[]> => {
+  return getSetting<StaffingRule[]>('staffing_rules', []);
+};
+
+export const saveStaffingRules = async (rules: StaffingRule[]): Promise<boolean> => {
+  try {
+    return await saveSetting('staffing_rules', rules);
+  } catch (err) {
+    console.error('Error saving staffing rules:', err);
+    return false;
+  }
+};
+
+// NEW: Approval chains, checked in order; the first that matches a request applies
+export const getApprovalChains = async (): Promise<ApprovalChain[]> => {
+  return getSetting<ApprovalChain[]>('approval_chains', []);
+};
+
+export const saveApprovalChains = async (chains: ApprovalChain[]): Promise<boolean> => {
+  try {
+    return await saveSetting('approval_chains', chains);
+  } catch (err) {
+    console.error('Error saving approval chains:', err);
+    return false;
+  }
+};
+
+// Approval steps for a new or edited request from this user row
+const resolveApprovalSteps = async (dbUser: any, type: LeaveType, amount: number): Promise<LeaveApprovalStep[]> => {
+  const chain = findApprovalChain(await getApprovalChains(), type, amount);
+  const configs = chain ? chain.steps : DEFAULT_APPROVAL_STEPS;
+
+  const approverIds = [dbUser.reporting_to, ...configs.map(c => c.user_id)].filter(Boolean);
+  const { data: approvers } = approverIds.length > 0
+    ? await supabase.from('users').select('id, name').in('id', approverIds)
+    : { data: [] };
+
+  const startedAt = new Date().toISOString();
+  return buildApprovalSteps(configs, dbUser.reporting_to, approvers || [])
+    .map((step, idx) => idx === 0 ? { ...step, started_at: startedAt } : step);
+};
+
+// NEW: How long an approval step may wait before it is escalated
+export const getApprovalSla = async (): Promise<ApprovalSlaPolicy> => {
+  return getSetting<ApprovalSlaPolicy>('approval_sla', DEFAULT_APPROVAL_SLA);
+};
+
+export const saveApprovalSla = async (policy: ApprovalSlaPolicy): Promise<boolean> => {
+  try {
+    return await saveSetting('approval_sla', policy);
+  } catch (err) {
+    console.error('Error saving approval SLA:', err);
+    return false;
+  }
+};
+
+// NEW: Company default work week (used for employees without their own)
+export const getDefaultWorkWeek = async (): Promise<WorkWeek> => {
+  return getSetting<WorkWeek>('default_work_week', DEFAULT_WORK_WEEK);
+};
+
+export const saveDefaultWorkWeek = async (workWeek: WorkWeek): Promise<boolean> => {
+  try {
+    return await saveSetting('default_work_week', workWeek);
+  } catch (err) {
+    console.error('Error saving default work week:', err);
+    return false;
+  }
+};
+
+// Effective work week for a user row
+const resolveWorkWeek = async (dbUser: any): Promise<WorkWeek> => {
+  if (dbUser?.work_week && dbUser.work_week.length > 0) return dbUser.work_week;
+  return getDefaultWorkWeek();
+};
+
+// NEW: Company holidays within a date range (inclusive)
+export const getHolidaysBetween = async (start: string, end: string): Promise<Holiday[]> => {
+  const { data, error } = await supabase
+    .from('holidays')
+    .select('*')
+    .gte('date', start)
+    .lte('date', end)
+    .order('date', { ascending: true });
+
+  if (error || !data) return [];
+
+  return data.map(h => ({ id: h.id, date: h.date, name: h.name }));
+};
+
+// NEW: Company holiday calendar for one year
+export const getHolidays = async (year: number): Promise<Holiday[]> => {
+  return getHolidaysBetween(`${year}-01-01`, `${year}-12-31`);
+};
+
+// NEW: Add a company holiday
+export const addHoliday = async (holiday: Holiday): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const { data: existing } = await supabase
+      .from('holidays')
+      .select('name')
+      .eq('date', holiday.date)
+      .maybeSingle();
+
+    if (existing) {
+      return { success: false, error: `${holiday.date} is already a holiday (${existing.name})` };
+    }
+
+    const { error } = await supabase
+      .from('holidays')
+      .insert({ id: holiday.id, date: holiday.date, name: holiday.name });
+
+    if (error) {
+      return { success: false, error: 'Failed to add holiday' };
+    }
+
+    return { success: true };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+};
+
+// NEW: Remove a company holiday
+export const deleteHoliday = async (holidayId: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('holidays')
+      .delete()
+      .eq('id', holidayId);
+
+    return !error;
+  } catch (err) {
+    console.error('Error deleting holiday:', err);
+    return false;
+  }
+};
+
+const mapDbToBlackout = (b: any): BlackoutPeriod => ({
+  id: b.id,
+  start_date: b.start_date,
+  end_date: b.end_date,
+  leave_types: b.leave_types || [],
+  manager_ids: b.manager_ids || [],
+  user_ids: b.user_ids || [],
+  message: b.message
+});
+
+// NEW: Every blackout period, earliest first
+export const getBlackoutPeriods = async (): Promise<BlackoutPeriod[]> => {
+  const { data, error } = await supabase
+    .from('blackout_periods')
+    .select('*')
+    .order('start_date', { ascending: true });
+
+  if (error || !data) return [];
+  return data.map(mapDbToBlackout);
+};
+
+// NEW: Create or update a blackout period
+export const saveBlackoutPeriod = async (period: BlackoutPeriod): Promise<{ success: boolean; error?: string }> => {
+  if (!period.start_date || !period.end_date || period.end_date < period.start_date) {
+    return { success: false, error: 'End date cannot be before start date' };
+  }
+  if (!period.message.trim()) {
+    return { success: false, error: 'Please enter the message employees will see' };
+  }
+
+  try {
+    const { error } = await supabase
+      .from('blackout_periods')
+      .upsert({ ...period, message: period.message.trim() });
+
+    if (error) {
+      return { success: false, error: 'Failed to save blackout period' };
+    }
+
+    return { success: true };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+};
+
+// NEW: Remove a blackout period and its overrides
+export const deleteBlackoutPeriod = async (blackoutId: string): Promise<boolean> => {
+  try {
+    await supabase
+      .from('blackout_overrides')
+      .delete()
+      .eq('blackout_id', blackoutId);
+
+    const { error } = await supabase
+      .from('blackout_periods')
+      .delete()
+      .eq('id', blackoutId);
+
+    return !error;
+  } catch (err) {
+    console.error('Error deleting blackout period:', err);
+    return false;
+  }
+};
+
+// NEW: Overrides recorded by admins, newest first
+export const getBlackoutOverrides = async (): Promise<BlackoutOverride[]> => {
+  const { data, error } = await supabase
+    .from('blackout_overrides')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error || !data) return [];
+
+  const userIds = [...new Set(data.map(o => o.user_id))];
+  const { data: users } = userIds.length > 0
+    ? await supabase.from('users').select('id, name').in('id', userIds)
+    : { data: [] as { id: string; name: string }[] };
+
+  return data.map(o => ({
+    id: o.id,
+    blackout_id: o.blackout_id,
+    user_id: o.user_id,
+    user_name: users?.find(u => u.id === o.user_id)?.name,
+    reason: o.reason,
+    created_by: o.created_by,
+    created_at: o.created_at
+  }));
+};
+
+// NEW: Let one employee request leave during a blackout
+export const addBlackoutOverride = async (
+  blackoutId: string,
+  userId: string,
+  reason: string,
+  adminId: string
+): Promise<{ success: boolean; error?: string }> => {
+  if (!reason.trim()) {
+    return { success: false, error: 'Please give a reason for the override' };
+  }
+
+  try {
+    const { data: existing } = await supabase
+      .from('blackout_overrides')
+      .select('id')
+      .eq('blackout_id', blackoutId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (existing) {
+      return { success: false, error: 'This employee already has an override for this blackout' };
+    }
+
+    const { error } = await supabase
+      .from('blackout_overrides')
+      .insert({
+        id: crypto.randomUUID(),
+        blackout_id: blackoutId,
+        user_id: userId,
+        reason: reason.trim(),
+        created_by: adminId,
+        created_at: new Date().toISOString()
+      });
+
+    if (error) {
+      return { success: false, error: 'Failed to record override' };
+    }
+
+    return { success: true };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+};
+
+// NEW: Withdraw an override; requests already submitted are not affected
+export const deleteBlackoutOverride = async (overrideId: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('blackout_overrides')
+      .delete()
+      .eq('id', overrideId);
+
+    return !error;
+  } catch (err) {
+    console.error('Error deleting blackout override:', err);
+    return false;
+  }
+};
+
+// Blackouts overlapping a period that have no override for this user row.
+// Scope and leave type are checked by the caller.
+const getActiveBlackouts = async (dbUser: any, start: string, end: string): Promise<BlackoutPeriod[]> => {
+  const [{ data: periods }, { data: overrides }] = await Promise.all([
+    supabase.from('blackout_periods').select('*').lte('start_date', end).gte('end_date', start),
+    supabase.from('blackout_overrides').select('blackout_id').eq('user_id', dbUser.id)
+  ]);
+
+  return (periods || [])
+    .filter(p => !(overrides || []).some(o => o.blackout_id === p.id))
+    .map(mapDbToBlackout);
+};
+
+// NEW: Blackouts that could affect a user's requests in a period
+export const getBlackoutsForUser = async (userId: string, start: string, end: string): Promise<BlackoutPeriod[]> => {
+  return getActiveBlackouts({ id: userId }, start, end);
+};
+
+type LeaveActionResult = { success: boolean; code?: LeaveActionErrorCode; error?: string };
+
+// Call one of the leave functions in supabase/migrations, which re-check status,
+// balance and who may decide, and write in one transaction. A call that fails outright, e.g.
+// because the migration has not been applied, comes back as 'failed'.
+// Anything else the function returns, e.g. a new status, is passed through.
+const callLeaveAction = async <T extends object = {}>(
+  fn: string,
+  args: Record<string, unknown>
+): Promise<LeaveActionResult & Partial<T>> => {
+  const { data, error } = await supabase.rpc(fn, args);
+  if (error || !data) {
+    console.error(`Error calling ${fn}:`, error);
+    return { success: false, code: 'failed', error: 'The database could not complete the request' } as LeaveActionResult & Partial<T>;
+  }
+  const { success, code, error: message, ...rest } = data;
+  return { ...rest, success: !!success, code: code || undefined, error: message || undefined };
+};
+
+// Validate a request and work out the days it charges. A request covers
+// date..end_date and is stored, approved and rejected as one record. Shared by
+// submit and edit so both run the same checks; `excludeLeaveId` leaves the
+// request being edited out of the pending total. A request split into paid and
+// unpaid parts skips the balance check, since the database sizes the paid part
+// to the balance.
+const prepareLeaveRequest = async (
+  userId: string,
+  leave: LeaveRecord,
+  excludeLeaveId?: string,
+  checkBalance = true
+): Promise<{ amount: number; end_date: string; policy_breach: string | null; approval_steps: LeaveApprovalStep[] } | null> => {
+  const endDate = leave.end_date || leave.date;
+  if (endDate < leave.date) {
+    throw new Error('End date cannot be before start date');
+  }
+
+  // Notice and backdating rules; an emergency request goes through with the breach recorded
+  const leaveType = findLeaveType(await getLeaveTypes(), leave.type);
+  const policyBreach = checkNoticePolicy(leaveType, leave.date, getLocalDate());
+  if (policyBreach && !leave.emergency) {
+    throw new Error(`${policyBreach}. Mark the request as an emergency if it cannot wait.`);
+  }
+  if (policyBreach && !leave.reason?.trim()) {
+    throw new Error('Add a reason so your approver knows why this is an emergency');
+  }
+
+  // Get current user to check balance
+  const { data: user, error: userError } = await supabase
+    .from('users')
+    .select('*')
+    .eq('id', userId)
+    .single();
+
+  if (userError || !user) return null;
+
+  // Day count always comes from the range; 0.5 is only honoured for single-day requests
+  const holidays = await getHolidaysBetween(leave.date, endDate);
+  const workWeek = await resolveWorkWeek(user);
+  const amount = calculateLeaveDays(leave.date, endDate, {
+    halfDay: leave.amount === 0.5,
+    holidays: holidays.map(h => h.date),
+    workWeek
+  });
+
+  if (amount <= 0) {
+    throw new Error('The selected dates are all holidays or non-working days');
+  }
+
+  // Leave that is still booked and starts before this request ends
+  const { data: booked, error: bookedError } = await supabase
+    .from('leave_history')
+    .select('id, date, end_date, amount, type, status')
+    .eq('user_id', userId)
+    .in('status', ['pending', 'approved', 'cancellation_requested'])
+    .lte('date', endDate);
+
+  if (bookedError) return null;
+
+  const overlaps = findOverlappingLeave(
+    { date: leave.date, end_date: endDate, amount },
+    (booked || [])
+      .filter(b => b.id !== excludeLeaveId)
+      .map(b => ({ ...b, end_date: b.end_date || b.date, amount: parseFloat(b.amount) })),
+    { holidays: holidays.map(h => h.date), workWeek }
+  );
+
+  if (overlaps.length > 0) {
+    const { record, dates } = overlaps[0];
+    throw new Error(
+      `These dates overlap your ${record.status === 'pending' ? 'pending' : 'approved'} ${record.type} leave (${formatLeaveDates(record)}) on ${dates.join(', ')}`
+    );
+  }
+
+  // Blackout windows, unless an admin has recorded an override for this employee
+  const blackouts = findBlackoutConflicts(
+    await getActiveBlackouts(user, leave.date, endDate),
+    user,
+    leave.type,
+    getChargeableDates(leave.date, endDate, { holidays: holidays.map(h => h.date), workWeek })
+  );
+
+  if (blackouts.length > 0) {
+    const { period, dates } = blackouts[0];
+    throw new Error(`${period.message} (blackout ${formatLeaveDates({ date: period.start_date, end_date: period.end_date })}, affects ${dates.join(', ')})`);
+  }
+
+  // The chain depends on type and length, so it is worked out again on every edit
+  const approvalSteps = await resolveApprovalSteps(user, leave.type, amount);
+
+  // Lapsed comp-off credits must not be spendable
+  if (leave.type === COMP_OFF_LEAVE_TYPE) {
+    await expireCompOffCredits(userId);
+  }
+
+  if (!checkBalance || !tracksBalance(leave.type)) {
+    return { amount, end_date: endDate, policy_breach: policyBreach, approval_steps: approvalSteps };
+  }
+
+  const currentBalance = await getBalance(userId, leave.type);
+
+  // Get all pending leaves of the same type
+  const { data: pendingLeaves, error: pendingError } = await supabase
+    .from('leave_history')
+    .select('id, amount')
+    .eq('user_id', userId)
+    .eq('type', leave.type)
+    .eq('status', 'pending');
+
+  if (pendingError) return null;
+
+  // Calculate total pending amount for this leave type
+  const totalPending = pendingLeaves
+    ?.filter(l => l.id !== excludeLeaveId)
+    .reduce((sum, l) => sum + parseFloat(l.amount), 0) || 0;
+
+  // Check if user has enough balance (current balance - pending leaves). The
+  // database checks again when saving, in case another request got in first.
+  const availableBalance = currentBalance - totalPending;
+
+  if (availableBalance < amount) {
+    throw new Error(
+      `Insufficient ${leave.type} leave balance. Available: ${availableBalance} (${currentBalance} total - ${totalPending} pending)`
+    );
+  }
+
+  return { amount, end_date: endDate, policy_breach: policyBreach, approval_steps: approvalSteps };
+};
+
+// FIXED: Submit leave request with pending leaves validation
+export const submitLeaveRequest = async (userId: string, leave: LeaveRecord): Promise<boolean> => {
+  const prepared = await prepareLeaveRequest(userId, leave);
+  if (!prepared) return false;
+
+  // Saved as pending (DON'T deduct balance yet); the database counts the days
+  // again and checks the balance itself
+  const result = await callLeaveAction('save_leave_request', {
+    p_leave: {
+      id: leave.id,
+      user_id: userId,
+      date: leave.date,
+      end_date: prepared.end_date,
+      amount: prepared.amount,
+      type: leave.type,
+      timestamp: leave.timestamp,
+      reason: leave.reason || null,
+      linked_leave_id: leave.linked_leave_id || null,
+      emergency: !!leave.emergency,
+      policy_breach: prepared.policy_breach,
+      approval_steps: prepared.approval_steps
+    }
+  });
+
+  if (!result.success && result.code !== 'failed') {
+    throw new Error(result.error);
+  }
+  return result.success;
+};
+
+// NEW: Submit a request the balance only partly covers. The first days are
+// requested as the chosen type and the rest as unpaid leave, as two linked
+// requests that save_split_leave_request creates together. They share one
+// approval chain and are decided, withdrawn and cancelled together.
+export const submitLeaveWithUnpaidRemainder = async (
+  userId: string,
+  leave: LeaveRecord
+): Promise<{ success: boolean; error?: string; paidDays: number; unpaidDays: number }> => {
+  if (!tracksBalance(leave.type)) {
+    return { success: false, error: 'Only paid leave can be split', paidDays: 0, unpaidDays: 0 };
+  }
+
+  const prepared = await prepareLeaveRequest(userId, leave, undefined, false);
+  if (!prepared) {
+    return { success: false, error: 'User not found', paidDays: 0, unpaidDays: 0 };
+  }
+
+  const result = await callLeaveAction<{ paid_days: number; unpaid_days: number }>('save_split_leave_request', {
+    p_leave: {
+      id: leave.id,
+      user_id: userId,
+      date: leave.date,
+      end_date: prepared.end_date,
+      amount: prepared.amount,
+      type: leave.type,
+      timestamp: leave.timestamp,
+      reason: leave.reason || null,
+      emergency: !!leave.emergency,
+      policy_breach: prepared.policy_breach,
+      approval_steps: prepared.approval_steps
+    },
+    p_unpaid_id: crypto.randomUUID()
+  });
+
+  if (!result.success) {
+    return { success: false, error: result.error || 'Failed to submit leave request', paidDays: 0, unpaidDays: 0 };
+  }
+  return { success: true, paidDays: Number(result.paid_days) || 0, unpaidDays: Number(result.unpaid_days) || 0 };
+};
+
+// NEW: Edit a request while it is still pending. The version being replaced is
+// appended to `revisions` so the approver can see what changed.
+export const updateLeaveRequest = async (userId: string, leave: LeaveRecord): Promise<boolean> => {
+  const { data: existing, error: existingError } = await supabase
+    .from('leave_history')
+    .select('*')
+    .eq('id', leave.id)
+    .eq('user_id', userId)
+    .single();
+
+  if (existingError || !existing) return false;
+  if (existing.status !== 'pending') {
+    throw new Error('Only pending requests can be edited');
+  }
+
+  const prepared = await prepareLeaveRequest(userId, leave, leave.id);
+  if (!prepared) return false;
+
+  const previous: LeaveRevision = {
+    date: existing.date,
+    end_date: existing.end_date || existing.date,
+    amount: parseFloat(existing.amount),
+    type: existing.type,
+    reason: existing.reason || undefined,
+    edited_at: new Date().toISOString()
+  };
+
+  // Refused if the request was processed while it was being edited
+  const result = await callLeaveAction('save_leave_request', {
+    p_leave: {
+      id: leave.id,
+      user_id: userId,
+      date: leave.date,
+      end_date: prepared.end_date,
+      amount: prepared.amount,
+      type: leave.type,
+      reason: leave.reason || null,
+      emergency: !!leave.emergency,
+      policy_breach: prepared.policy_breach,
+      // An edited request goes back to the first step
+      approval_steps: prepared.approval_steps,
+      revisions: [...(existing.revisions || []), previous]
+    }
+  });
+
+  if (!result.success && result.code !== 'failed') {
+    throw new Error(result.error);
+  }
+  return result.success;
+};
+
+// NEW: Delegations, soonest first; pass a user id for the ones they gave or received
+export const getApprovalDelegations = async (userId?: string): Promise<ApprovalDelegation[]> => {
+  let query = supabase
+    .from('approval_delegations')
+    .select('*')
+    .order('start_date', { ascending: true });
+
+  if (userId) {
+    query = query.or(`manager_id.eq.${userId},delegate_id.eq.${userId}`);
+  }
+
+  const { data, error } = await query;
+  if (error || !data) return [];
+
+  const userIds = [...new Set(data.flatMap(d => [d.manager_id, d.delegate_id]))];
+  const { data: users } = userIds.length > 0
+    ? await supabase.from('users').select('id, name').in('id', userIds)
+    : { data: [] as { id: string; name: string }[] };
+
+  return data.map(d => ({
+    id: d.id,
+    manager_id: d.manager_id,
+    manager_name: users?.find(u => u.id === d.manager_id)?.name,
+    delegate_id: d.delegate_id,
+    delegate_name: users?.find(u => u.id === d.delegate_id)?.name,
+    start_date: d.start_date,
+    end_date: d.end_date,
+    created_by: d.created_by,
+    created_at: d.created_at
+  }));
+};
+
+// NEW: Hand a manager's approvals to someone else for a date range. Managers
+// can delegate their own approvals; admins can delegate anyone's.
+export const addApprovalDelegation = async (
+  delegation: Pick<ApprovalDelegation, 'manager_id' | 'delegate_id' | 'start_date' | 'end_date'>,
+  createdBy: string
+): Promise<{ success: boolean; error?: string }> => {
+  if (!delegation.manager_id || !delegation.delegate_id) {
+    return { success: false, error: 'Choose the manager and the delegate' };
+  }
+  if (delegation.manager_id === delegation.delegate_id) {
+    return { success: false, error: 'A manager cannot delegate to themselves' };
+  }
+  if (!delegation.start_date || !delegation.end_date) {
+    return { success: false, error: 'Please choose the dates of the delegation' };
+  }
+  if (delegation.end_date < delegation.start_date) {
+    return { success: false, error: 'End date cannot be before start date' };
+  }
+
+  try {
+    const { data: creator } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', createdBy)
+      .single();
+
+    if (!creator || (creator.role !== 'admin' && createdBy !== delegation.manager_id)) {
+      return { success: false, error: 'Only the manager or an administrator can delegate these approvals' };
+    }
+
+    // One delegate at a time, so it is clear who is deciding
+    const { data: clashing } = await supabase
+      .from('approval_delegations')
+      .select('id')
+      .eq('manager_id', delegation.manager_id)
+      .lte('start_date', delegation.end_date)
+      .gte('end_date', delegation.start_date);
+
+    if (clashing && clashing.length > 0) {
+      return { success: false, error: 'These approvals are already delegated for part of this period' };
+    }
+
+    const { error } = await supabase
+      .from('approval_delegations')
+      .insert({
+        id: crypto.randomUUID(),
+        manager_id: delegation.manager_id,
+        delegate_id: delegation.delegate_id,
+        start_date: delegation.start_date,
+        end_date: delegation.end_date,
+        created_by: createdBy,
+        created_at: new Date().toISOString()
+      });
+
+    if (error) {
+      return { success: false, error: 'Failed to save delegation' };
+    }
+
+    return { success: true };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+};
+
+// NEW: End a delegation; decisions already made by the delegate stand
+export const deleteApprovalDelegation = async (delegationId: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('approval_delegations')
+      .delete()
+      .eq('id', delegationId);
+
+    return !error;
+  } catch (err) {
+    console.error('Error deleting delegation:', err);
+    return false;
+  }
+};
+
+// Managers who have delegated their approvals to this user today
+const getActiveDelegators = async (delegateId: string): Promise<string[]> => {
+  const today = getLocalDate();
+  const { data } = await supabase
+    .from('approval_delegations')
+    .select('manager_id')
+    .eq('delegate_id', delegateId)
+    .lte('start_date', today)
+    .gte('end_date', today);
+
+  return (data || []).map(d => d.manager_id);
+};
+
+// NEW: Whether a user without reportees still has approvals to make: someone
+// delegated to them today, or an approval chain names them as an approver
+export const hasApprovalDuties = async (userId: string): Promise<boolean> => {
+  if ((await getActiveDelegators(userId)).length > 0) return true;
+  const chains = await getApprovalChains();
+  return chains.some(chain => chain.steps.some(step => step.approver === 'user' && step.user_id === userId));
+};
+
+// NEW: Get leave requests waiting for an approver: requests whose current
+// approval step is theirs, and cancellation requests from their reportees
+// (from employees without a manager, for admins).
+// Requests waiting for managers who delegated to them today are included too.
+export const getPendingApprovals = async (managerId: string): Promise<PendingLeaveRequest[]> => {
+  const { data: users, error: usersError } = await supabase
+    .from('users')
+    .select('id, name, email, role, reporting_to');
+
+  const approver = users?.find(u => u.id === managerId);
+  if (usersError || !users || !approver) return [];
+
+  const { data: openLeaves, error: leavesError } = await supabase
+    .from('leave_history')
+    .select('*')
+    .in('status', ['pending', 'cancellation_requested'])
+    .order('timestamp', { ascending: false });
+
+  if (leavesError || !openLeaves) return [];
+
+  // Delegators stand in as plain approvers: steps open to any admin stay with the admins
+  const delegators = await getActiveDelegators(managerId);
+  const awaiting = (leave: any, approverUser: Pick<User, 'id' | 'role'>) => {
+    const managerOf = users.find(u => u.id === leave.user_id)?.reporting_to;
+    // Cancellations go to the line manager, or the admins if there is none
+    if (leave.status === 'cancellation_requested') {
+      return managerOf ? managerOf === approverUser.id : approverUser.role === 'admin';
+    }
+    return isAwaitingApprover(leave, approverUser, managerOf);
+  };
+
+  const delegatedFrom: Record<string, string> = {};
+  const pendingLeaves = openLeaves.filter(leave => {
+    if (awaiting(leave, approver)) return true;
+    const delegator = delegators.find(id => awaiting(leave, { id, role: 'employee' }));
+    if (delegator) delegatedFrom[leave.id] = delegator;
+    return !!delegator;
+  });
+
+  const attachments = await getLeaveAttachments(pendingLeaves.map(l => l.id));
+
+  // The unpaid part of a split request is decided with its paid part, so it is
+  // shown as part of that request rather than on its own
+  const isFolded = (leave: any) => !!leave.linked_leave_id && pendingLeaves.some(l => l.id === leave.linked_leave_id);
+
+  // Combine with user info
+  return pendingLeaves.filter(leave => !isFolded(leave)).map(leave => {
+    const user = users.find(r => r.id === leave.user_id);
+    const unpaidPart = pendingLeaves.find(l => l.linked_leave_id === leave.id);
+    return {
+      ...leave,
+      end_date: leave.end_date || leave.date,
+      amount: parseFloat(leave.amount),
+      submitted_at: leave.submitted_at || undefined,
+      reason: leave.reason || undefined,
+      revisions: leave.revisions || undefined,
+      emergency: !!leave.emergency,
+      policy_breach: leave.policy_breach || undefined,
+      approval_steps: leave.approval_steps || undefined,
+      current_step: leave.current_step ?? undefined,
+      escalations: leave.escalations || undefined,
+      user_id: leave.user_id,
+      user_name: user?.name || 'Unknown',
+      user_email: user?.email || '',
+      user_reporting_to: user?.reporting_to || null,
+      attachments: attachments.filter(a => a.leave_id === leave.id || a.leave_id === unpaidPart?.id),
+      unpaid_part: unpaidPart ? {
+        id: unpaidPart.id,
+        date: unpaidPart.date,
+        end_date: unpaidPart.end_date || unpaidPart.date,
+        amount: parseFloat(unpaidPart.amount),
+        type: unpaidPart.type
+      } : undefined,
+      delegated_from: delegatedFrom[leave.id],
+      delegated_from_name: delegatedFrom[leave.id] ? users.find(u => u.id === delegatedFrom[leave.id])?.name : undefined
+    };
+  });
+};
+
+// NEW: Leave among a manager's reportees overlapping a period, with the team's
+// staffing rule and each reportee's working days
+export const getTeamAvailability = async (
+  managerId: string,
+  start: string,
+  end: string
+): Promise<TeamAvailability> => {
+  const [{ data: team }, rules] = await Promise.all([
+    supabase.from('users').select('*').eq('reporting_to', managerId),
+    getStaffingRules()
+  ]);
+  const rule = rules.find(r => r.manager_id === managerId) || null;
+
+  if (!team || team.length === 0) {
+    return { team_size: 0, rule, absences: [], holidays: [], work_weeks: {} };
+  }
+
+  const { data: leaves } = await supabase
+    .from('leave_history')
+    .select('*')
+    .in('user_id', team.map(m => m.id))
+    .in('status', ['pending', 'approved', 'cancellation_requested'])
+    .lte('date', end)
+    .or(`end_date.gte.${start},and(end_date.is.null,date.gte.${start})`);
+
+  const holidays = await getHolidaysBetween(start, end);
+  const workWeeks = await Promise.all(team.map(m => resolveWorkWeek(m)));
+
+  return {
+    team_size: team.length,
+    rule,
+    absences: (leaves || []).map(l => ({
+      leave_id: l.id,
+      user_id: l.user_id,
+      user_name: team.find(m => m.id === l.user_id)?.name || 'Unknown',
+      date: l.date,
+      end_date: l.end_date || l.date,
+      amount: parseFloat(l.amount),
+      type: l.type,
+      status: l.status
+    })),
+    holidays: holidays.map(h => h.date),
+    work_weeks: Object.fromEntries(team.map((m, i) => [m.id, workWeeks[i]]))
+  };
+};
+
+// Whether a manager's approvals are delegated to this user today
+const hasActiveDelegation = async (managerId: string, delegateId: string): Promise<boolean> => {
+  return (await getActiveDelegators(delegateId)).includes(managerId);
+};
+
+// Check that a user may decide for an employee as their line manager, or as
+// the delegate of that manager. Admins may decide for anyone; other managers
+// only for their own team.
+const checkLineManager = async (employeeId: string, approverId: string): Promise<{ error?: string; onBehalfOf?: string }> => {
+  const { data: people } = await supabase
+    .from('users')
+    .select('id, name, role, reporting_to')
+    .in('id', [employeeId, approverId]);
+
+  const employee = people?.find(p => p.id === employeeId);
+  const approver = people?.find(p => p.id === approverId);
+  if (!employee || !approver) return { error: 'User not found' };
+
+  const managerId = employee.reporting_to;
+  if (managerId === approverId || approver.role === 'admin') return {};
+  if (managerId && await hasActiveDelegation(managerId, approverId)) {
+    return { onBehalfOf: managerId };
+  }
+  return { error: `Only ${employee.name}'s line manager can decide this` };
+};
+
+// NEW: Approve leave request. On a multi-step chain every step but the last
+// passes the request on (`next_step` names who has it now); the last one
+// approves it and deducts the balance. Both parts of a split request are
+// decided together. decide_leave_request checks that the approver may decide
+// the step and works out what the decision writes.
+export const approveLeave = async (
+  leaveId: string, 
+  approverId: string
+): Promise<LeaveActionResult & { next_step?: string }> => {
+  try {
+    // Get leave record
+    const { data: leave, error: leaveError } = await supabase
+      .from('leave_history')
+      .select('*, user_id')
+      .eq('id', leaveId)
+      .single();
+
+    if (leaveError || !leave) {
+      return { success: false, code: 'not_found', error: 'Leave request not found' };
+    }
+
+    if (leave.status !== 'pending') {
+      return { success: false, code: 'not_pending', error: 'Leave request already processed' };
+    }
+
+    // Approving one part of a split request approves the other too, so both are checked
+    const root = leave.linked_leave_id || leave.id;
+    const { data: linked } = await supabase
+      .from('leave_history')
+      .select('*')
+      .or(`id.eq.${root},linked_leave_id.eq.${root}`)
+      .eq('status', 'pending');
+    const parts = linked && linked.length > 0 ? linked : [leave];
+
+    // Long requests of some types need a supporting document first, on any part
+    const leaveTypes = await getLeaveTypes();
+    const { count: documents } = await supabase
+      .from('leave_attachments')
+      .select('id', { count: 'exact', head: true })
+      .in('leave_id', parts.map(p => p.id));
+
+    const undocumented = documents ? undefined : parts
+      .map(part => ({ part, type: findLeaveType(leaveTypes, part.type) }))
+      .find(({ part, type }) => requiresAttachment(type, parseFloat(part.amount)));
+    if (undocumented) {
+      return { success: false, code: 'blocked', error: `${undocumented.type.label} over ${undocumented.type.attachment_required_after} day(s) needs a supporting document before it can be approved` };
+    }
+
+    // A blocking staffing rule refuses approvals that leave the team short
+    const { data: employee } = await supabase
+      .from('users')
+      .select('reporting_to')
+      .eq('id', leave.user_id)
+      .single();
+
+    if (employee?.reporting_to) {
+      const team = await getTeamAvailability(
+        employee.reporting_to,
+        parts.reduce((min, p) => p.date < min ? p.date : min, leave.date),
+        parts.reduce((max, p) => (p.end_date || p.date) > max ? (p.end_date || p.date) : max, leave.end_date || leave.date)
+      );
+      const breaches = team.rule?.mode === 'block' ? parts.flatMap(part => findStaffingBreaches(part, team)) : [];
+
+      if (breaches.length > 0) {
+        return {
+          success: false,
+          code: 'blocked',
+          error: `Approving would leave ${breaches[0].present} of ${team.team_size} team members working on ${breaches[0].date} (minimum ${team.rule!.min_present})`
+        };
+      }
+    }
+
+    const current = leave.current_step || 0;
+    const result = await callLeaveAction('decide_leave_request', {
+      p_leave_id: leaveId,
+      p_approver_id: approverId,
+      p_expected_step: current,
+      p_approve: true
+    });
+
+    // Not the last step: the request is now with the next approver
+    const nextStep = (leave.approval_steps as LeaveApprovalStep[] | null)?.[current + 1];
+    return result.success && nextStep ? { ...result, next_step: describeStep(nextStep) } : result;
+  } catch (err: any) {
+    return { success: false, code: 'failed', error: err.message };
+  }
+};
+
+// NEW: Reject leave request
+export const rejectLeave = async (
+  leaveId: string,
+  approverId: string,
+  reason?: string
+): Promise<LeaveActionResult> => {
+  try {
+    // Get leave record
+    const { data: leave, error: leaveError } = await supabase
+      .from('leave_history')
+      .select('status, current_step')
+      .eq('id', leaveId)
+      .single();
+
+    if (leaveError || !leave) {
+      return { success: false, code: 'not_found', error: 'Leave request not found' };
+    }
+
+    if (leave.status !== 'pending') {
+      return { success: false, code: 'not_pending', error: 'Leave request already processed' };
+    }
+
+    // A rejection at any step ends the chain (no balance deduction)
+    return await callLeaveAction('decide_leave_request', {
+      p_leave_id: leaveId,
+      p_approver_id: approverId,
+      p_expected_step: leave.current_step || 0,
+      p_approve: false,
+      p_reason: reason || null
+    });
+  } catch (err: any) {
+    return { success: false, code: 'failed', error: err.message };
+  }
+};
+
+// NEW: Approve several requests with one optional note, posted to each thread.
+// Requests are processed one at a time, so each is checked against the balance
+// left by the ones before it, and a failure does not stop the rest. A note that
+// could not be posted is reported with the request it belongs to.
+export const bulkApproveLeave = async (
+  leaveIds: string[],
+  approverId: string,
+  note?: string
+): Promise<BulkDecisionResult[]> => {
+  const results: BulkDecisionResult[] = [];
+  for (const leaveId of leaveIds) {
+    const result = await approveLeave(leaveId, approverId);
+    let noteError: string | undefined;
+    if (result.success && note?.trim()) {
+      const comment = await addLeaveComment(leaveId, approverId, note);
+      if (!comment.success) noteError = comment.error || 'Failed to post comment';
+    }
+    results.push({ leave_id: leaveId, ...result, note_error: noteError });
+  }
+  return results;
+};
+
+// NEW: Reject several requests with one shared reason
+export const bulkRejectLeave = async (
+  leaveIds: string[],
+  approverId: string,
+  reason?: string
+): Promise<BulkDecisionResult[]> => {
+  const results: BulkDecisionResult[] = [];
+  for (const leaveId of leaveIds) {
+    results.push({ leave_id: leaveId, ...(await rejectLeave(leaveId, approverId, reason)) });
+  }
+  return results;
+};
+
+// NEW: Past approve and reject decisions, newest first. Admins see every
+// approver's, or one approver's via `approver_id`; anyone else sees the
+// decisions they made and those a delegate made for them.
+export const getApprovalDecisions = async (
+  viewerId: string,
+  filters: ApprovalDecisionFilters = {}
+): Promise<ApprovalDecision[]> => {
+  const { data: users, error: usersError } = await supabase
+    .from('users')
+    .select('id, name, role');
 
-  if (error || !user) return undefined;
+  const viewer = users?.find(u => u.id === viewerId);
+  if (usersError || !users || !viewer) return [];
+  const approverId = viewer.role === 'admin' ? filters.approver_id : viewerId;
 
-  const { data: history } = await supabase
+  // Decided requests, plus pending ones already past a step of their chain
+  let query = supabase
     .from('leave_history')
     .select('*')
-    .eq('user_id', id)
-    .order('timestamp', { ascending: false });
+    .or('status.neq.pending,current_step.gt.0');
+  // Requests the approver decided a step of, or a delegate decided for them
+  if (approverId) {
+    query = query.or([
+      `approved_by.eq.${approverId}`,
+      `approved_on_behalf_of.eq.${approverId}`,
+      `approval_steps.cs.[{"decided_by":"${approverId}"}]`,
+      `approval_steps.cs.[{"on_behalf_of":"${approverId}"}]`
+    ].join(','));
+  }
+  if (filters.user_id) query = query.eq('user_id', filters.user_id);
+  if (filters.type) query = query.eq('type', filters.type);
+
+  const { data: leaves, error } = await query;
+  if (error || !leaves) return [];
+
+  const nameOf = (id?: string | null) => (id ? users.find(u => u.id === id)?.name : undefined);
+  const decisions: ApprovalDecision[] = [];
+  for (const leave of leaves) {
+    const request = {
+      leave_id: leave.id,
+      user_id: leave.user_id,
+      user_name: nameOf(leave.user_id) || 'Unknown',
+      type: leave.type,
+      date: leave.date,
+      end_date: leave.end_date || leave.date,
+      amount: parseFloat(leave.amount),
+      status: leave.status
+    };
+    const submittedAt: string | undefined = leave.submitted_at || undefined;
+
+    if (leave.approval_steps) {
+      for (const step of leave.approval_steps as LeaveApprovalStep[]) {
+        if (step.status === 'pending' || !step.decided_at) continue;
+        decisions.push({
+          ...request,
+          outcome: step.status,
+          step_label: step.label,
+          decided_by: step.decided_by,
+          decided_by_name: step.decided_by_name || nameOf(step.decided_by),
+          on_behalf_of: step.on_behalf_of,
+          on_behalf_of_name: step.on_behalf_of_name || nameOf(step.on_behalf_of),
+          auto_approved: !!step.auto_approved,
+          decided_at: step.decided_at,
+          waiting_since: step.started_at || submittedAt,
+          rejection_reason: step.status === 'rejected' ? leave.rejection_reason || undefined : undefined
+        });
+      }
+    } else if (leave.approved_by && leave.approved_at) {
+      // Requests from before approval chains had a single decision
+      decisions.push({
+        ...request,
+        outcome: leave.status === 'rejected' ? 'rejected' : 'approved',
+        decided_by: leave.approved_by,
+        decided_by_name: nameOf(leave.approved_by),
+        on_behalf_of: leave.approved_on_behalf_of || undefined,
+        on_behalf_of_name: nameOf(leave.approved_on_behalf_of),
+        decided_at: leave.approved_at,
+        waiting_since: submittedAt,
+        rejection_reason: leave.rejection_reason || undefined
+      });
+    }
+  }
 
-  return mapDbToUser(user, history || []);
+  return decisions
+    .filter(d =>
+      (!approverId || d.decided_by === approverId || d.on_behalf_of === approverId) &&
+      (!filters.outcome || d.outcome === filters.outcome) &&
+      (!filters.from || d.decided_at.split('T')[0] >= filters.from) &&
+      (!filters.to || d.decided_at.split('T')[0] <= filters.to)
+    )
+    .sort((a, b) => b.decided_at.localeCompare(a.decided_at));
 };
 
-export const addUser = async (newUser: User): Promise<boolean> => {
-  // Check if user exists
-  const { data: existing } = await supabase
-    .from('users')
-    .select('email')
-    .eq('email', newUser.email)
-    .single();
+// NEW: Withdraw a pending request, with the other part if it was split into
+// paid and unpaid leave; nothing was deducted so no ledger entry is needed
+export const withdrawLeaveRequest = async (
+  userId: string,
+  leaveId: string
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const { data: leave } = await supabase
+      .from('leave_history')
+      .select('linked_leave_id')
+      .eq('id', leaveId)
+      .eq('user_id', userId)
+      .maybeSingle();
 
-  if (existing) return false;
+    if (!leave) {
+      return { success: false, error: 'Leave request not found' };
+    }
 
-  // Insert new user
-  const { error } = await supabase
-    .from('users')
-    .insert({
-      id: newUser.id,
-      name: newUser.name,
-      email: newUser.email,
-      password: newUser.password,
-      role: newUser.role,
-      casual_balance: newUser.balance.casual,
-      sick_balance: newUser.balance.sick,
-      annual_balance: newUser.balance.annual,
-      reporting_to: newUser.reporting_to
+    // The status filter makes this a no-op if the request was processed meanwhile
+    const firstPartId = leave.linked_leave_id || leaveId;
+    const { data, error } = await supabase
+      .from('leave_history')
+      .update({
+        status: 'cancelled',
+        cancelled_at: new Date().toISOString()
+      })
+      .or(`id.eq.${firstPartId},linked_leave_id.eq.${firstPartId}`)
+      .eq('user_id', userId)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (error) {
+      return { success: false, error: 'Failed to withdraw leave request' };
+    }
+    if (!data || data.length === 0) {
+      return { success: false, error: 'Only pending requests can be withdrawn' };
+    }
+
+    return { success: true };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+};
+
+// NEW: Cancel an approved leave that has not started yet. Depending on the
+// cancellation policy this takes effect immediately or goes to the approver.
+// cancel_leave_request changes the status and credits the days back together.
+export const cancelLeave = async (
+  userId: string,
+  leaveId: string,
+  reason?: string
+): Promise<{ success: boolean; error?: string; status?: 'cancelled' | 'cancellation_requested' }> => {
+  try {
+    return await callLeaveAction<{ status: 'cancelled' | 'cancellation_requested' }>('cancel_leave_request', {
+      p_leave_id: leaveId,
+      p_user_id: userId,
+      p_reason: reason || null
     });
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+};
 
-  return !error;
+// NEW: Approver accepts a cancellation request; the days are credited back
+export const approveCancellation = async (
+  leaveId: string,
+  approverId: string
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    return await callLeaveAction('decide_leave_cancellation', {
+      p_leave_id: leaveId,
+      p_approver_id: approverId,
+      p_accept: true
+    });
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
 };
 
-// FIXED: Submit leave request with pending leaves validation
-export const submitLeaveRequest = async (userId: string, leave: LeaveRecord): Promise<boolean> => {
-  // Get current user to check balance
+// NEW: Approver declines a cancellation request; the leave stays approved
+export const rejectCancellation = async (
+  leaveId: string,
+  approverId: string
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    return await callLeaveAction('decide_leave_cancellation', {
+      p_leave_id: leaveId,
+      p_approver_id: approverId,
+      p_accept: false
+    });
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+};
+
+const mapDbToCompOffClaim = (c: any): CompOffClaim => ({
+  id: c.id,
+  user_id: c.user_id,
+  work_date: c.work_date,
+  days: parseFloat(c.days),
+  reason: c.reason,
+  status: c.status,
+  timestamp: c.timestamp,
+  approved_by: c.approved_by || undefined,
+  approved_at: c.approved_at || undefined,
+  rejection_reason: c.rejection_reason || undefined,
+  expires_on: c.expires_on || undefined,
+  expired_days: c.expired_days === null || c.expired_days === undefined ? undefined : parseFloat(c.expired_days)
+});
+
+// NEW: Claim comp-off for working a weekend or holiday; goes to the manager like a leave request
+export const submitCompOffClaim = async (userId: string, claim: CompOffClaim): Promise<boolean> => {
+  if (claim.work_date > getLocalDate()) {
+    throw new Error('Comp-off can only be claimed for a day already worked');
+  }
+  if (claim.days !== 1 && claim.days !== 0.5) {
+    throw new Error('Comp-off can be claimed for a full or half day');
+  }
+  if (!claim.reason.trim()) {
+    throw new Error('Please describe the work done');
+  }
+
   const { data: user, error: userError } = await supabase
     .from('users')
     .select('*')
@@ -121,187 +1876,416 @@ export const submitLeaveRequest = async (userId: string, leave: LeaveRecord): Pr
 
   if (userError || !user) return false;
 
-  // Get all pending leaves of the same type
-  const { data: pendingLeaves, error: pendingError } = await supabase
-    .from('leave_history')
-    .select('amount')
-    .eq('user_id', userId)
-    .eq('type', leave.type)
-    .eq('status', 'pending');
-
-  if (pendingError) return false;
-
-  // Calculate total pending amount for this leave type
-  const totalPending = pendingLeaves?.reduce((sum, l) => sum + parseFloat(l.amount), 0) || 0;
+  // Only days the employee was not expected to work earn comp-off
+  const workWeek = await resolveWorkWeek(user);
+  const holidays = await getHolidaysBetween(claim.work_date, claim.work_date);
+  if (workWeek.includes(getWeekday(claim.work_date)) && holidays.length === 0) {
+    throw new Error(`${claim.work_date} is a regular working day. Comp-off is only earned on weekends and holidays`);
+  }
 
-  // Check if user has enough balance (current balance - pending leaves)
-  const balanceField = `${leave.type}_balance` as 'casual_balance' | 'sick_balance' | 'annual_balance';
-  const currentBalance = user[balanceField];
-  const availableBalance = currentBalance - totalPending;
+  const { data: existing, error: existingError } = await supabase
+    .from('comp_off_claims')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('work_date', claim.work_date)
+    .in('status', ['pending', 'approved']);
 
-  if (availableBalance < leave.amount) {
-    throw new Error(
-      `Insufficient ${leave.type} leave balance. Available: ${availableBalance} (${currentBalance} total - ${totalPending} pending)`
-    );
+  if (existingError) return false;
+  if (existing && existing.length > 0) {
+    throw new Error(`You already have a comp-off claim for ${claim.work_date}`);
   }
 
-  // Insert leave request with 'pending' status (DON'T deduct balance yet)
-  const { error: leaveError } = await supabase
-    .from('leave_history')
+  const { error } = await supabase
+    .from('comp_off_claims')
     .insert({
-      id: leave.id,
+      id: claim.id,
       user_id: userId,
-      date: leave.date,
-      amount: leave.amount,
-      type: leave.type,
-      timestamp: leave.timestamp,
-      status: 'pending' // KEY: Set as pending
+      work_date: claim.work_date,
+      days: claim.days,
+      reason: claim.reason.trim(),
+      status: 'pending',
+      timestamp: claim.timestamp
     });
 
-  return !leaveError;
+  return !error;
 };
 
-// NEW: Get pending leave requests for a manager
-export const getPendingApprovals = async (managerId: string): Promise<PendingLeaveRequest[]> => {
-  // Get all employees who report to this manager
+// NEW: A user's comp-off claims, newest first
+export const getCompOffClaims = async (userId: string): Promise<CompOffClaim[]> => {
+  const { data, error } = await supabase
+    .from('comp_off_claims')
+    .select('*')
+    .eq('user_id', userId)
+    .order('work_date', { ascending: false });
+
+  if (error || !data) return [];
+  return data.map(mapDbToCompOffClaim);
+};
+
+// NEW: Pending comp-off claims from a manager's reportees, and from the
+// reportees of managers who delegated to them today
+export const getPendingCompOffClaims = async (managerId: string): Promise<PendingCompOffClaim[]> => {
+  const delegators = await getActiveDelegators(managerId);
   const { data: reportees, error: reporteesError } = await supabase
     .from('users')
     .select('id, name, email')
-    .eq('reporting_to', managerId);
+    .in('reporting_to', [managerId, ...delegators]);
 
   if (reporteesError || !reportees || reportees.length === 0) return [];
 
-  const reporteeIds = reportees.map(r => r.id);
-
-  // Get pending leave requests from these employees
-  const { data: pendingLeaves, error: leavesError } = await supabase
-    .from('leave_history')
+  const { data: claims, error } = await supabase
+    .from('comp_off_claims')
     .select('*')
-    .in('user_id', reporteeIds)
+    .in('user_id', reportees.map(r => r.id))
     .eq('status', 'pending')
     .order('timestamp', { ascending: false });
 
-  if (leavesError || !pendingLeaves) return [];
+  if (error || !claims) return [];
 
-  // Combine with user info
-  return pendingLeaves.map(leave => {
-    const user = reportees.find(r => r.id === leave.user_id);
+  return claims.map(c => {
+    const user = reportees.find(r => r.id === c.user_id);
     return {
-      ...leave,
-      amount: parseFloat(leave.amount),
-      user_id: leave.user_id,
+      ...mapDbToCompOffClaim(c),
       user_name: user?.name || 'Unknown',
       user_email: user?.email || ''
     };
   });
 };
 
-// NEW: Approve leave request
-export const approveLeave = async (
-  leaveId: string, 
+// NEW: Approve a claim and credit the comp-off balance, together in
+// approve_comp_off_claim, which also checks the approver
+export const approveCompOffClaim = async (
+  claimId: string,
   approverId: string
 ): Promise<{ success: boolean; error?: string }> => {
   try {
-    // Get leave record
-    const { data: leave, error: leaveError } = await supabase
-      .from('leave_history')
-      .select('*, user_id')
-      .eq('id', leaveId)
+    return await callLeaveAction('approve_comp_off_claim', {
+      p_claim_id: claimId,
+      p_approver_id: approverId
+    });
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+};
+
+// NEW: Reject a comp-off claim
+export const rejectCompOffClaim = async (
+  claimId: string,
+  approverId: string,
+  reason?: string
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const { data: claim } = await supabase
+      .from('comp_off_claims')
+      .select('user_id')
+      .eq('id', claimId)
       .single();
 
-    if (leaveError || !leave) {
-      return { success: false, error: 'Leave request not found' };
+    if (!claim) {
+      return { success: false, error: 'Comp-off claim not found' };
     }
 
-    if (leave.status !== 'pending') {
-      return { success: false, error: 'Leave request already processed' };
+    const authority = await checkLineManager(claim.user_id, approverId);
+    if (authority.error) {
+      return { success: false, error: authority.error };
     }
 
-    // Get user's current balance
-    const { data: user, error: userError } = await supabase
-      .from('users')
-      .select('*')
-      .eq('id', leave.user_id)
-      .single();
+    const { data, error } = await supabase
+      .from('comp_off_claims')
+      .update({
+        status: 'rejected',
+        approved_by: approverId,
+        approved_at: new Date().toISOString(),
+        rejection_reason: reason
+      })
+      .eq('id', claimId)
+      .eq('status', 'pending')
+      .select('id');
 
-    if (userError || !user) {
-      return { success: false, error: 'User not found' };
+    if (error) {
+      return { success: false, error: 'Failed to reject comp-off claim' };
+    }
+    if (!data || data.length === 0) {
+      return { success: false, error: 'Comp-off claim already processed' };
     }
 
-    const balanceField = `${leave.type}_balance` as 'casual_balance' | 'sick_balance' | 'annual_balance';
-    const currentBalance = user[balanceField];
+    return { success: true };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+};
 
-    // Check if user still has balance
-    if (currentBalance < leave.amount) {
-      return { success: false, error: 'Insufficient leave balance' };
-    }
+// Remove whatever is left of comp-off credits past their expiry date. The
+// scheduled job only escalates approvals, and what is left of each credit is
+// worked out here (allocateCompOffBalance), so this runs whenever a user's
+// credits are read or spent.
+const expireCompOffCredits = async (userId: string): Promise<void> => {
+  const today = getLocalDate();
+  const claims = await getCompOffClaims(userId);
+  const balance = await getBalance(userId, COMP_OFF_LEAVE_TYPE);
 
-    // Deduct balance
-    const newBalance = currentBalance - leave.amount;
-    const { error: updateBalanceError } = await supabase
-      .from('users')
-      .update({ [balanceField]: newBalance })
-      .eq('id', leave.user_id);
+  const lapsed = allocateCompOffBalance(claims, balance)
+    .filter(credit => credit.claim.expires_on && credit.claim.expires_on < today);
 
-    if (updateBalanceError) {
-      return { success: false, error: 'Failed to update balance' };
-    }
+  // Marks the claim and posts the expiry entry together; only the first reader
+  // to get there does either
+  for (const { claim, remaining } of lapsed) {
+    await callLeaveAction('expire_comp_off_claim', { p_claim_id: claim.id, p_days: remaining });
+  }
+};
+
+// NEW: Unused comp-off credits for a user, soonest expiry first
+export const getCompOffCredits = async (userId: string): Promise<CompOffCredit[]> => {
+  await expireCompOffCredits(userId);
+
+  const claims = await getCompOffClaims(userId);
+  const balance = await getBalance(userId, COMP_OFF_LEAVE_TYPE);
+  return allocateCompOffBalance(claims, balance).filter(c => c.remaining > 0);
+};
+
+// NEW: Approved unpaid days per employee within a month (YYYY-MM), for payroll
+export const getUnpaidLeaveReport = async (period: string): Promise<UnpaidLeaveReportRow[]> => {
+  const monthStart = `${period}-01`;
+  const monthEnd = addDays(`${addDays(monthStart, 31).slice(0, 7)}-01`, -1);
+
+  // Leave overlapping the month: starts before it ends and ends after it starts
+  const { data: leaves, error } = await supabase
+    .from('leave_history')
+    .select('*')
+    .eq('type', UNPAID_LEAVE_TYPE)
+    .eq('status', 'approved')
+    .lte('date', monthEnd)
+    .or(`end_date.gte.${monthStart},and(end_date.is.null,date.gte.${monthStart})`);
+
+  if (error) throw error;
+  if (!leaves || leaves.length === 0) return [];
+
+  const { data: users } = await supabase
+    .from('users')
+    .select('*')
+    .in('id', [...new Set(leaves.map(l => l.user_id))]);
+  const holidays = (await getHolidaysBetween(monthStart, monthEnd)).map(h => h.date);
+
+  const rows: Record<string, UnpaidLeaveReportRow> = {};
+  for (const leave of leaves) {
+    const user = users?.find(u => u.id === leave.user_id);
+    const dates = getChargeableDates(leave.date, leave.end_date || leave.date, {
+      holidays,
+      workWeek: await resolveWorkWeek(user)
+    }).filter(d => d >= monthStart && d <= monthEnd);
+    if (dates.length === 0) continue;
+
+    const row = rows[leave.user_id] ||= {
+      user_id: leave.user_id,
+      user_name: user?.name || 'Unknown',
+      user_email: user?.email || '',
+      days: 0,
+      dates: []
+    };
+    row.days += parseFloat(leave.amount) === 0.5 ? 0.5 : dates.length;
+    row.dates.push(...dates);
+  }
+
+  return Object.values(rows)
+    .map(r => ({ ...r, dates: r.dates.sort() }))
+    .sort((a, b) => a.user_name.localeCompare(b.user_name));
+};
+
+const mapDbToAttachment = (a: any): LeaveAttachment => ({
+  id: a.id,
+  leave_id: a.leave_id,
+  user_id: a.user_id,
+  file_name: a.file_name,
+  content_type: a.content_type,
+  size: Number(a.size),
+  path: a.path,
+  uploaded_at: a.uploaded_at
+});
+
+// NEW: Attach a supporting document to one of the user's own requests
+export const uploadLeaveAttachment = async (userId: string, leaveId: string, file: File): Promise<LeaveAttachment> => {
+  if (!ATTACHMENT_CONTENT_TYPES.includes(file.type)) {
+    throw new Error(`${file.name}: only PDF and image files can be attached`);
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`${file.name} is larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`);
+  }
+
+  const { data: leave } = await supabase
+    .from('leave_history')
+    .select('id, status')
+    .eq('id', leaveId)
+    .eq('user_id', userId)
+    .single();
 
-    // Update leave status to approved
-    const { error: updateLeaveError } = await supabase
+  if (!leave) {
+    throw new Error('Leave request not found');
+  }
+  if (!['pending', 'approved', 'cancellation_requested'].includes(leave.status)) {
+    throw new Error('Documents can only be added to pending or approved leave');
+  }
+
+  const id = crypto.randomUUID();
+  const path = `${userId}/${leaveId}/${id}-${file.name.replace(/[^\w.-]+/g, '_')}`;
+  await attachmentStorage.upload(path, file);
+
+  const attachment: LeaveAttachment = {
+    id,
+    leave_id: leaveId,
+    user_id: userId,
+    file_name: file.name,
+    content_type: file.type,
+    size: file.size,
+    path,
+    uploaded_at: new Date().toISOString()
+  };
+
+  const { error } = await supabase
+    .from('leave_attachments')
+    .insert(attachment);
+
+  if (error) {
+    // Do not leave an orphaned file behind
+    await attachmentStorage.remove(path);
+    throw new Error(`Failed to save ${file.name}`);
+  }
+
+  return attachment;
+};
+
+// NEW: Attachments for a set of requests, oldest first
+export const getLeaveAttachments = async (leaveIds: string[]): Promise<LeaveAttachment[]> => {
+  if (leaveIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('leave_attachments')
+    .select('*')
+    .in('leave_id', leaveIds)
+    .order('uploaded_at', { ascending: true });
+
+  if (error || !data) return [];
+  return data.map(mapDbToAttachment);
+};
+
+// NEW: URL for viewing or embedding an attachment
+export const getAttachmentUrl = async (attachment: LeaveAttachment): Promise<string> => {
+  return attachmentStorage.getUrl(attachment.path);
+};
+
+// NEW: Remove a document from a request that is still pending
+export const deleteLeaveAttachment = async (
+  userId: string,
+  attachment: LeaveAttachment
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const { data: leave } = await supabase
       .from('leave_history')
-      .update({
-        status: 'approved',
-        approved_by: approverId,
-        approved_at: new Date().toISOString()
-      })
-      .eq('id', leaveId);
+      .select('status')
+      .eq('id', attachment.leave_id)
+      .eq('user_id', userId)
+      .single();
+
+    if (!leave || leave.status !== 'pending') {
+      return { success: false, error: 'Documents can only be removed while the request is pending' };
+    }
+
+    const { error } = await supabase
+      .from('leave_attachments')
+      .delete()
+      .eq('id', attachment.id);
 
-    if (updateLeaveError) {
-      return { success: false, error: 'Failed to approve leave' };
+    if (error) {
+      return { success: false, error: 'Failed to remove document' };
     }
 
+    await attachmentStorage.remove(attachment.path);
     return { success: true };
   } catch (err: any) {
     return { success: false, error: err.message };
   }
 };
 
-// NEW: Reject leave request
-export const rejectLeave = async (
+// NEW: Comment threads for a set of requests, oldest first
+export const getLeaveComments = async (leaveIds: string[]): Promise<LeaveComment[]> => {
+  if (leaveIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('leave_comments')
+    .select('*')
+    .in('leave_id', leaveIds)
+    .order('created_at', { ascending: true });
+
+  if (error || !data) return [];
+
+  // Resolve who wrote each comment
+  const authorIds = [...new Set(data.map(c => c.author_id))];
+  const { data: authors } = authorIds.length > 0
+    ? await supabase.from('users').select('id, name').in('id', authorIds)
+    : { data: [] as { id: string; name: string }[] };
+
+  return data.map(c => ({
+    id: c.id,
+    leave_id: c.leave_id,
+    author_id: c.author_id,
+    author_name: authors?.find(a => a.id === c.author_id)?.name,
+    body: c.body,
+    created_at: c.created_at
+  }));
+};
+
+// NEW: Post to a request's thread. The employee, their approvers (or a delegate) and admins can
+// comment at any stage, so an approver can ask a question without rejecting.
+export const addLeaveComment = async (
   leaveId: string,
-  approverId: string,
-  reason?: string
+  authorId: string,
+  body: string
 ): Promise<{ success: boolean; error?: string }> => {
+  const text = body.trim();
+  if (!text) {
+    return { success: false, error: 'Comment cannot be empty' };
+  }
+
   try {
-    // Get leave record
-    const { data: leave, error: leaveError } = await supabase
+    const { data: leave } = await supabase
       .from('leave_history')
-      .select('status')
+      .select('user_id, approval_steps')
       .eq('id', leaveId)
       .single();
 
-    if (leaveError || !leave) {
+    if (!leave) {
       return { success: false, error: 'Leave request not found' };
     }
 
-    if (leave.status !== 'pending') {
-      return { success: false, error: 'Leave request already processed' };
+    if (leave.user_id !== authorId) {
+      const [{ data: employee }, { data: author }, delegators] = await Promise.all([
+        supabase.from('users').select('reporting_to').eq('id', leave.user_id).single(),
+        supabase.from('users').select('role').eq('id', authorId).single(),
+        getActiveDelegators(authorId)
+      ]);
+
+      // The line manager and every approver in the chain, or their delegate today
+      const approvers = [
+        employee?.reporting_to,
+        ...((leave.approval_steps as LeaveApprovalStep[] | null) || []).map(step => step.approver_id)
+      ].filter((id): id is string => !!id);
+
+      if (author?.role !== 'admin' && !approvers.some(id => id === authorId || delegators.includes(id))) {
+        return { success: false, error: 'You cannot comment on this request' };
+      }
     }
 
-    // Update leave status to rejected (no balance deduction)
-    const { error: updateError } = await supabase
-      .from('leave_history')
-      .update({
-        status: 'rejected',
-        approved_by: approverId,
-        approved_at: new Date().toISOString(),
-        rejection_reason: reason
-      })
-      .eq('id', leaveId);
+    const { error } = await supabase
+      .from('leave_comments')
+      .insert({
+        id: crypto.randomUUID(),
+        leave_id: leaveId,
+        author_id: authorId,
+        body: text,
+        created_at: new Date().toISOString()
+      });
 
-    if (updateError) {
-      return { success: false, error: 'Failed to reject leave' };
+    if (error) {
+      return { success: false, error: 'Failed to post comment' };
     }
 
     return { success: true };
@@ -332,24 +2316,44 @@ export const updateUserPassword = async (userId: string, newPassword: string): P
   }
 };
 
-// NEW: Update employee settings (reporting_to and leave balances)
+// NEW: Update employee settings (reporting_to, leave balances and work week)
+// Balance changes are posted to the ledger as adjustments of what the admin changed
 export const updateEmployeeSettings = async (
   userId: string,
   reporting_to: string | undefined,
-  balance: { casual: number; sick: number; annual: number }
+  balance: UserBalance,
+  loadedBalance: UserBalance, // What the form showed; only the admin's own change is posted
+  work_week: WorkWeek | null, // null uses the company default
+  changedBy: string,
+  reason?: string
 ): Promise<boolean> => {
   try {
     const { error } = await supabase
       .from('users')
       .update({
         reporting_to: reporting_to || null,
-        casual_balance: balance.casual,
-        sick_balance: balance.sick,
-        annual_balance: balance.annual
+        work_week
       })
       .eq('id', userId);
 
-    return !error;
+    if (error) return false;
+
+    // Diffing against the form's starting point rather than the live balance
+    // keeps accruals or approvals posted while the form was open
+    const { error: ledgerError } = await postLedgerEntries(
+      Object.entries(balance)
+        .filter(([type, days]) => days !== (loadedBalance[type] || 0))
+        .map(([leave_type, days]) => ({
+          user_id: userId,
+          leave_type,
+          delta: days - (loadedBalance[leave_type] || 0),
+          kind: 'adjustment' as const,
+          reason: reason?.trim() || 'Manual balance edit',
+          created_by: changedBy
+        }))
+    );
+
+    return !ledgerError;
   } catch (err) {
     console.error('Error updating employee settings:', err);
     return false;
@@ -0,0 +1,74 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { SESSION_USER_KEY } from '../constants';
+
+// Where leave attachments are kept. Chosen with VITE_ATTACHMENT_STORAGE:
+// 'supabase' (default) or 'local' for a folder served by the dev server.
+export interface AttachmentStorage {
+  upload: (path: string, file: File) => Promise<void>;
+  getUrl: (path: string) => Promise<string>; // URL the browser can open or embed
+  remove: (path: string) => Promise<void>;
+}
+
+const ATTACHMENT_BUCKET = 'leave-attachments';
+const LOCAL_STORAGE_URL = '/local-storage';
+
+const encodePath = (path: string) => path.split('/').map(encodeURIComponent).join('/');
+
+// Supabase storage bucket. Set VITE_STORAGE_URL / VITE_STORAGE_KEY to use a
+// separate instance, e.g. a local Supabase stack, instead of the main project.
+export const createSupabaseStorage = (client: SupabaseClient, bucket = ATTACHMENT_BUCKET): AttachmentStorage => ({
+  upload: async (path, file) => {
+    const { error } = await client.storage.from(bucket).upload(path, file, { contentType: file.type });
+    if (error) throw new Error(`Failed to upload ${file.name}`);
+  },
+  getUrl: async (path) => {
+    // Signed so the bucket can stay private; valid for an hour
+    const { data, error } = await client.storage.from(bucket).createSignedUrl(path, 3600);
+    if (error || !data) throw new Error('Failed to open attachment');
+    return data.signedUrl;
+  },
+  remove: async (path) => {
+    await client.storage.from(bucket).remove([path]);
+  }
+});
+
+// Files in a folder on the machine running `npm run dev` (see vite.config.ts).
+// Requests carry the signed-in user's id, and files are read through signed
+// URLs valid for an hour, as with a private Supabase bucket.
+export const createLocalFolderStorage = (baseUrl = LOCAL_STORAGE_URL): AttachmentStorage => {
+  const userHeader = (): Record<string, string> => ({ 'X-User-Id': localStorage.getItem(SESSION_USER_KEY) || '' });
+
+  return {
+    upload: async (path, file) => {
+      const response = await fetch(`${baseUrl}/${encodePath(path)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': file.type, ...userHeader() },
+        body: file
+      });
+      if (!response.ok) throw new Error(`Failed to upload ${file.name}`);
+    },
+    getUrl: async (path) => {
+      const response = await fetch(`${baseUrl}/${encodePath(path)}?sign`, { method: 'POST', headers: userHeader() });
+      if (!response.ok) throw new Error('Failed to open attachment');
+      const { expires, token } = await response.json();
+      return `${baseUrl}/${encodePath(path)}?expires=${expires}&token=${token}`;
+    },
+    remove: async (path) => {
+      await fetch(`${baseUrl}/${encodePath(path)}`, { method: 'DELETE', headers: userHeader() });
+    }
+  };
+};
+
+const createAttachmentStorage = (): AttachmentStorage => {
+  if (import.meta.env.VITE_ATTACHMENT_STORAGE === 'local') {
+    return createLocalFolderStorage();
+  }
+
+  const storageUrl = import.meta.env.VITE_STORAGE_URL;
+  return createSupabaseStorage(
+    storageUrl ? createClient(storageUrl, import.meta.env.VITE_STORAGE_KEY || '') : supabase
+  );
+};
+
+export const attachmentStorage = createAttachmentStorage();
@@ -0,0 +1,45 @@
+-- Admin-managed leave types with a balance per user and type.
+--
+-- Balances used to be three columns on users (casual_balance, sick_balance,
+-- annual_balance). They move to one row per user and type so admins can add
+-- types without a schema change. The old columns are copied over and dropped,
+-- so nothing can read a stale copy.
+
+create table if not exists leave_types (
+  id text primary key,
+  label text not null,
+  color text not null,
+  default_entitlement numeric not null default 0,
+  sort_order integer not null default 0
+);
+
+create table if not exists leave_balances (
+  user_id uuid not null references users (id) on delete cascade,
+  leave_type text not null,
+  balance numeric not null default 0,
+  primary key (user_id, leave_type)
+);
+
+do $$
+begin
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'users' and column_name = 'casual_balance'
+  ) then
+    insert into leave_balances (user_id, leave_type, balance)
+    select u.id, b.leave_type, b.balance
+    from users u
+    cross join lateral (values
+      ('casual', u.casual_balance),
+      ('sick', u.sick_balance),
+      ('annual', u.annual_balance)
+    ) as b (leave_type, balance)
+    where b.balance is not null
+    on conflict (user_id, leave_type) do nothing;
+
+    alter table users
+      drop column casual_balance,
+      drop column sick_balance,
+      drop column annual_balance;
+  end if;
+end $$;
@@ -0,0 +1,14 @@
+-- Leave requests with a start and an end date.
+--
+-- `date` is the first day and `end_date` the last (inclusive). Requests from
+-- before ranges have no end date and cover `date` alone.
+
+-- Same type as `date`, which predates these migrations, so the two compare directly
+do $$
+begin
+  execute format(
+    'alter table leave_history add column if not exists end_date %s',
+    (select format_type(atttypid, atttypmod) from pg_attribute
+     where attrelid = 'public.leave_history'::regclass and attname = 'date')
+  );
+end $$;
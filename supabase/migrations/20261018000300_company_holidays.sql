@@ -0,0 +1,7 @@
+-- Company holidays, which are never charged as leave.
+
+create table if not exists holidays (
+  id uuid primary key default gen_random_uuid(),
+  date date not null unique,
+  name text not null
+);
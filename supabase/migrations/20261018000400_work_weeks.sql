@@ -0,0 +1,12 @@
+-- Work weeks: a company default and an optional one per employee.
+--
+-- Company-wide settings, starting with the default work week, are JSON values
+-- keyed by name (getSetting in services/db.ts).
+
+create table if not exists settings (
+  key text primary key,
+  value jsonb not null
+);
+
+-- Weekdays the employee works, 0 = Sunday; null uses the company default
+alter table users add column if not exists work_week integer[];
@@ -0,0 +1,6 @@
+-- Monthly accrual per leave type.
+--
+-- Each type credits `accrual_rate` days a month; 0 leaves it to the yearly
+-- entitlement alone.
+
+alter table leave_types add column if not exists accrual_rate numeric not null default 0;
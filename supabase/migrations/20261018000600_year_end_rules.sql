@@ -0,0 +1,8 @@
+-- Year-end carry-forward and expiry per leave type.
+--
+-- At year end a type keeps at most `carry_forward_max` days (null = all of
+-- them), and a type with `year_start_grant` is topped up with its entitlement
+-- for the new year.
+
+alter table leave_types add column if not exists carry_forward_max numeric;
+alter table leave_types add column if not exists year_start_grant boolean not null default false;
@@ -0,0 +1,62 @@
+-- Balances become the sum of an append-only ledger.
+--
+-- Existing history moves across first: accrual credits keep their period, so a
+-- month already accrued is still skipped, and year-end adjustments keep their
+-- reason. Whatever is left of each stored balance becomes one opening grant,
+-- so every employee keeps the balance they had. The old tables are then
+-- dropped, since nothing reads them any more.
+
+create table if not exists balance_ledger (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references users (id) on delete cascade,
+  leave_type text not null,
+  delta numeric not null,
+  kind text not null check (kind in ('grant', 'accrual', 'approval', 'reversal', 'adjustment', 'year_end', 'comp_off', 'expiry')),
+  reason text not null default '',
+  leave_id uuid,
+  period text, -- YYYY-MM, accruals only
+  created_at timestamptz not null default now(),
+  created_by uuid references users (id) on delete set null
+);
+
+create index if not exists balance_ledger_user_type_idx on balance_ledger (user_id, leave_type);
+
+do $$
+begin
+  -- Only seed an empty ledger, so running this twice cannot double balances
+  if exists (select 1 from balance_ledger) or to_regclass('public.leave_balances') is null then
+    return;
+  end if;
+
+  if to_regclass('public.leave_accruals') is not null then
+    insert into balance_ledger (user_id, leave_type, delta, kind, reason, period, created_at, created_by)
+    select user_id, leave_type, amount, 'accrual', 'Monthly accrual for ' || period, period, created_at, created_by
+    from leave_accruals;
+  end if;
+
+  if to_regclass('public.balance_adjustments') is not null then
+    insert into balance_ledger (user_id, leave_type, delta, kind, reason, created_at, created_by)
+    select user_id, leave_type, delta, 'year_end', reason, created_at, created_by
+    from balance_adjustments;
+  end if;
+
+  insert into balance_ledger (user_id, leave_type, delta, kind, reason)
+  select b.user_id, b.leave_type, b.balance - coalesce(moved.total, 0), 'grant', 'Opening balance'
+  from leave_balances b
+  left join (
+    select user_id, leave_type, sum(delta) as total
+    from balance_ledger
+    group by user_id, leave_type
+  ) moved on moved.user_id = b.user_id and moved.leave_type = b.leave_type
+  where b.balance - coalesce(moved.total, 0) <> 0;
+
+  drop table if exists leave_accruals;
+  drop table if exists balance_adjustments;
+  drop table leave_balances;
+end $$;
+
+-- Current balance per user and type, for reading every user's balances at once
+create or replace view user_balances as
+select user_id, leave_type, sum(delta) as balance
+from balance_ledger
+group by user_id, leave_type;
@@ -0,0 +1,17 @@
+-- One accrual credit per user, leave type and month. runMonthlyAccrual skips
+-- periods already credited, and this index turns a concurrent or repeated run
+-- into a unique violation (23505), which it counts as skipped.
+
+-- Credits doubled by earlier concurrent runs were never owed: keep the first
+delete from balance_ledger l
+using balance_ledger first
+where l.kind = 'accrual'
+  and first.kind = 'accrual'
+  and first.user_id = l.user_id
+  and first.leave_type = l.leave_type
+  and first.period = l.period
+  and (first.created_at, first.id::text) < (l.created_at, l.id::text);
+
+create unique index if not exists balance_ledger_accrual_period_key
+  on balance_ledger (user_id, leave_type, period)
+  where kind = 'accrual';
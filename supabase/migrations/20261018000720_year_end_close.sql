@@ -0,0 +1,47 @@
+-- Closed leave years, one row each.
+--
+-- Closing a year posts its carry-forward, expiry and new-year grants and
+-- records the year in one transaction: the primary key refuses a second close
+-- of the same year, and a failed insert leaves the year open with nothing
+-- posted, so it can simply be run again.
+
+create table if not exists leave_year_closes (
+  year integer primary key,
+  closed_at timestamptz not null default now(),
+  closed_by uuid references users (id) on delete set null
+);
+
+-- Years closed before this table existed were kept in settings
+insert into leave_year_closes (year)
+select jsonb_array_elements_text(value)::integer
+from settings
+where key = 'closed_leave_years'
+on conflict (year) do nothing;
+
+delete from settings where key = 'closed_leave_years';
+
+-- Close `p_year` and post `p_entries`, a JSON array of balance_ledger rows.
+-- Only a year that has ended can be closed.
+-- Returns {"success": true} or {"success": false, "error": ...}.
+create or replace function close_leave_year(p_year integer, p_closed_by uuid, p_entries jsonb)
+returns jsonb
+language plpgsql
+as $$
+begin
+  if p_year >= extract(year from current_date) then
+    return jsonb_build_object('success', false, 'error', format('Leave year %s has not ended yet', p_year));
+  end if;
+
+  begin
+    insert into leave_year_closes (year, closed_by) values (p_year, p_closed_by);
+  exception when unique_violation then
+    return jsonb_build_object('success', false, 'error', format('Leave year %s has already been closed', p_year));
+  end;
+
+  insert into balance_ledger (user_id, leave_type, delta, kind, reason, created_by)
+  select user_id, leave_type, delta, kind, reason, p_closed_by
+  from jsonb_populate_recordset(null::balance_ledger, p_entries);
+
+  return jsonb_build_object('success', true);
+end;
+$$;
@@ -0,0 +1,3 @@
+-- Joining dates, for pro-rating a new employee's entitlement.
+
+alter table users add column if not exists joining_date date;
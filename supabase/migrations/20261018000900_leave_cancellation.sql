@@ -0,0 +1,4 @@
+-- Withdrawing pending requests and cancelling approved leave.
+
+alter table leave_history add column if not exists cancelled_at timestamptz;
+alter table leave_history add column if not exists cancellation_reason text;
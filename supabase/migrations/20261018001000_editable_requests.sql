@@ -0,0 +1,7 @@
+-- Editing a pending request.
+--
+-- `reason` is the employee's note to the approver, and `revisions` the
+-- earlier versions of the request, oldest first (LeaveRevision in types.ts).
+
+alter table leave_history add column if not exists reason text;
+alter table leave_history add column if not exists revisions jsonb;
@@ -0,0 +1,21 @@
+-- Comp-off claims for working a weekend or holiday.
+--
+-- An approved claim credits the comp-off balance. The credit lapses after
+-- `expires_on`, when what is left of it is recorded in `expired_days`.
+
+create table if not exists comp_off_claims (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references users (id) on delete cascade,
+  work_date date not null,
+  days numeric not null check (days in (0.5, 1)),
+  reason text not null default '',
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  timestamp bigint not null,
+  approved_by uuid references users (id) on delete set null,
+  approved_at timestamptz,
+  rejection_reason text,
+  expires_on date,
+  expired_days numeric
+);
+
+create index if not exists comp_off_claims_user_idx on comp_off_claims (user_id);
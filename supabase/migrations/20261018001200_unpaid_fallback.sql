@@ -0,0 +1,6 @@
+-- Requests split into paid and unpaid leave when the balance runs short.
+
+-- On the unpaid part: the paid request it was split from
+alter table leave_history add column if not exists linked_leave_id uuid;
+
+create index if not exists leave_history_linked_leave_idx on leave_history (linked_leave_id);
@@ -0,0 +1,31 @@
+-- Supporting documents on leave requests.
+
+-- Requests of a type longer than this many days need a document; null = never
+alter table leave_types add column if not exists attachment_required_after numeric;
+
+create table if not exists leave_attachments (
+  id uuid primary key default gen_random_uuid(),
+  leave_id uuid not null,
+  user_id uuid not null references users (id) on delete cascade,
+  file_name text not null,
+  content_type text not null,
+  size bigint not null,
+  path text not null, -- Location in attachment storage
+  uploaded_at timestamptz not null default now()
+);
+
+create index if not exists leave_attachments_leave_idx on leave_attachments (leave_id);
+
+-- The files themselves, in a private bucket read through signed URLs
+-- (createSupabaseStorage in services/storage.ts)
+insert into storage.buckets (id, name, public)
+values ('leave-attachments', 'leave-attachments', false)
+on conflict (id) do nothing;
+
+-- The app signs users in against its own users table rather than Supabase
+-- Auth, so its storage calls arrive with the anon key
+drop policy if exists "Leave attachments are managed by the app" on storage.objects;
+create policy "Leave attachments are managed by the app" on storage.objects
+  for all to anon, authenticated
+  using (bucket_id = 'leave-attachments')
+  with check (bucket_id = 'leave-attachments');
@@ -0,0 +1,11 @@
+-- Comment threads on leave requests.
+
+create table if not exists leave_comments (
+  id uuid primary key default gen_random_uuid(),
+  leave_id uuid not null,
+  author_id uuid not null references users (id) on delete cascade,
+  body text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists leave_comments_leave_idx on leave_comments (leave_id);
@@ -0,0 +1,22 @@
+-- Blackout periods, when some leave types cannot be requested, and the
+-- overrides admins grant to single employees.
+
+create table if not exists blackout_periods (
+  id uuid primary key default gen_random_uuid(),
+  start_date date not null,
+  end_date date not null check (end_date >= start_date),
+  leave_types text[] not null default '{}', -- Empty = every type
+  manager_ids uuid[] not null default '{}', -- Teams in scope, by manager
+  user_ids uuid[] not null default '{}', -- No teams and no employees = everyone
+  message text not null
+);
+
+create table if not exists blackout_overrides (
+  id uuid primary key default gen_random_uuid(),
+  blackout_id uuid not null references blackout_periods (id) on delete cascade,
+  user_id uuid not null references users (id) on delete cascade,
+  reason text not null,
+  created_by uuid references users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (blackout_id, user_id)
+);
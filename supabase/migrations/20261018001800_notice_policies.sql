@@ -0,0 +1,9 @@
+-- Minimum notice and backdating rules per leave type.
+
+-- Days ahead a request must be made, and days back it may start; null = no rule
+alter table leave_types add column if not exists min_notice_days numeric;
+alter table leave_types add column if not exists max_backdate_days numeric;
+
+-- A request submitted despite breaking one of them, and the rule it broke
+alter table leave_history add column if not exists emergency boolean not null default false;
+alter table leave_history add column if not exists policy_breach text;
@@ -0,0 +1,8 @@
+-- Multi-step approval chains.
+--
+-- The chains are kept in settings ('approval_chains'). Each request carries
+-- its own steps (LeaveApprovalStep in types.ts) and the index of the one
+-- awaiting a decision; requests from before chains have neither.
+
+alter table leave_history add column if not exists approval_steps jsonb;
+alter table leave_history add column if not exists current_step integer;
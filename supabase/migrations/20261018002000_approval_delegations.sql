@@ -0,0 +1,16 @@
+-- Managers delegating their approvals while they are away.
+
+create table if not exists approval_delegations (
+  id uuid primary key default gen_random_uuid(),
+  manager_id uuid not null references users (id) on delete cascade,
+  delegate_id uuid not null references users (id) on delete cascade,
+  start_date date not null,
+  end_date date not null check (end_date >= start_date), -- Inclusive
+  created_by uuid references users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists approval_delegations_delegate_idx on approval_delegations (delegate_id);
+
+-- The manager a delegate decided a request for
+alter table leave_history add column if not exists approved_on_behalf_of uuid;
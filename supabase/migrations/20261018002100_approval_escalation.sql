@@ -0,0 +1,6 @@
+-- Escalating requests that wait too long for a decision.
+--
+-- The policy is kept in settings ('approval_sla'); each request records the
+-- times it was moved on, oldest first (LeaveEscalation in types.ts).
+
+alter table leave_history add column if not exists escalations jsonb;
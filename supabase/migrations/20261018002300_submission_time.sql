@@ -0,0 +1,5 @@
+-- When a request was submitted, set by save_leave_request; `timestamp` holds
+-- its start date. Requests from before this column have none.
+
+alter table leave_history add column if not exists submitted_at timestamptz;
+alter table leave_history alter column submitted_at set default now();
@@ -0,0 +1,852 @@
+-- Atomic leave submission and decisions.
+--
+-- The app checks what depends on settings it alone reads (notice and blackout
+-- rules, overlaps, the approval chain) and then calls one of these functions.
+-- What the balance depends on is worked out here and never taken from the
+-- caller: the days charged, whether the type has a balance at all, who may
+-- decide the step a request is at and what that decision writes. Each call
+-- re-checks status and balance and writes in a single transaction. Row locks
+-- on the request and on the employee serialise two approvers deciding at
+-- once, and two requests spending the same days.
+--
+-- They return {"success": true} or {"success": false, "code": ..., "error": ...};
+-- the codes are LeaveActionErrorCode in types.ts.
+
+create or replace function leave_action_result(p_code text default null, p_error text default null)
+returns jsonb
+language sql
+immutable
+as $$
+  select jsonb_build_object('success', p_code is null, 'code', p_code, 'error', p_error);
+$$;
+
+-- Mirrors tracksBalance in utils/leaveTypes.ts: unpaid leave has no balance
+create or replace function leave_type_tracks_balance(p_type text)
+returns boolean
+language sql
+immutable
+as $$
+  select p_type <> 'unpaid';
+$$;
+
+-- Company default work week (0 = Sunday), as getDefaultWorkWeek
+create or replace function leave_default_work_week()
+returns integer[]
+language sql
+stable
+as $$
+  select coalesce(
+    (select array(select jsonb_array_elements_text(value)::integer) from settings where key = 'default_work_week'),
+    array[0, 1, 2, 3, 4]
+  );
+$$;
+
+-- An employee's own work week, or the company default
+create or replace function leave_user_work_week(p_user_id leave_history.user_id%type)
+returns integer[]
+language sql
+stable
+as $$
+  select coalesce(
+    (
+      select array(select jsonb_array_elements_text(to_jsonb(u.work_week))::integer)
+      from users u
+      where u.id = p_user_id and jsonb_array_length(to_jsonb(u.work_week)) > 0
+    ),
+    leave_default_work_week()
+  );
+$$;
+
+-- Days in a range that fall in the work week and are not company holidays,
+-- as getChargeableDates in utils/leaveDays.ts
+create or replace function leave_working_dates(p_start date, p_end date, p_work_week integer[])
+returns setof date
+language sql
+stable
+as $$
+  select d::date
+  from generate_series(p_start, p_end, interval '1 day') d
+  where extract(dow from d)::integer = any (p_work_week)
+    and not exists (select 1 from holidays h where h.date::date = d::date);
+$$;
+
+-- Days a request charges, as calculateLeaveDays: a single working day can be a half day
+create or replace function leave_chargeable_days(
+  p_user_id leave_history.user_id%type,
+  p_start date,
+  p_end date,
+  p_half_day boolean
+)
+returns numeric
+language sql
+stable
+as $$
+  select case when p_half_day and p_start = p_end and count(*) = 1 then 0.5 else count(*) end
+  from leave_working_dates(p_start, p_end, leave_user_work_week(p_user_id));
+$$;
+
+-- Days of a type an employee can still request: the ledger balance less
+-- requests of that type still pending, other than `p_exclude_id`
+create or replace function leave_available_balance(p_user_id leave_history.user_id%type, p_type text, p_exclude_id leave_history.id%type)
+returns numeric
+language sql
+stable
+as $$
+  select
+    coalesce((select sum(delta) from balance_ledger where user_id = p_user_id and leave_type = p_type), 0)
+    - coalesce((
+      select sum(amount) from leave_history
+      where user_id = p_user_id and type = p_type and status = 'pending'
+        and (p_exclude_id is null or id <> p_exclude_id)
+    ), 0);
+$$;
+
+-- Whether a manager's approvals are delegated to this user today
+create or replace function leave_has_delegation(p_manager_id leave_history.user_id%type, p_delegate_id leave_history.user_id%type)
+returns boolean
+language sql
+stable
+as $$
+  select exists (
+    select 1 from approval_delegations
+    where manager_id = p_manager_id and delegate_id = p_delegate_id
+      and start_date::date <= current_date and end_date::date >= current_date
+  );
+$$;
+
+-- Whether a user may decide for an employee as their line manager, an admin,
+-- or the delegate of that manager (`on_behalf_of`). Sets `error` if not.
+create or replace function leave_check_line_manager(
+  p_employee_id leave_history.user_id%type,
+  p_approver_id leave_history.user_id%type,
+  out error text,
+  out on_behalf_of leave_history.user_id%type
+)
+language plpgsql
+stable
+as $$
+declare
+  v_employee users;
+  v_approver users;
+begin
+  select * into v_employee from users where id = p_employee_id;
+  select * into v_approver from users where id = p_approver_id;
+  if v_employee.id is null or v_approver.id is null then
+    error := 'User not found';
+  elsif v_employee.reporting_to = p_approver_id or v_approver.role = 'admin' then
+    null;
+  elsif v_employee.reporting_to is not null and leave_has_delegation(v_employee.reporting_to, p_approver_id) then
+    on_behalf_of := v_employee.reporting_to;
+  else
+    error := format('Only %s''s line manager can decide this', v_employee.name);
+  end if;
+end;
+$$;
+
+-- Whether a user may decide the step a request is at, themselves or as the
+-- delegate of the step's approver (`on_behalf_of`). Sets `error` if not.
+create or replace function leave_check_step_approver(
+  p_leave leave_history,
+  p_approver_id leave_history.user_id%type,
+  out error text,
+  out on_behalf_of leave_history.user_id%type
+)
+language plpgsql
+stable
+as $$
+declare
+  v_step jsonb := p_leave.approval_steps -> coalesce(p_leave.current_step, 0);
+  v_owner leave_history.user_id%type := (v_step ->> 'approver_id')::uuid;
+begin
+  -- Requests from before approval chains belong to the line manager
+  if p_leave.approval_steps is null then
+    select c.error, c.on_behalf_of into error, on_behalf_of
+    from leave_check_line_manager(p_leave.user_id, p_approver_id) c;
+    return;
+  end if;
+
+  if v_owner = p_approver_id
+    or (v_owner is null and exists (select 1 from users where id = p_approver_id and role = 'admin')) then
+    return;
+  end if;
+  if v_owner is not null and leave_has_delegation(v_owner, p_approver_id) then
+    on_behalf_of := v_owner;
+    return;
+  end if;
+
+  error := format(
+    'This request is waiting for %s',
+    v_step ->> 'label' || coalesce(
+      ' (' || coalesce(v_step ->> 'approver_name', case when v_step ->> 'approver' = 'admin' then 'any administrator' end) || ')',
+      ''
+    )
+  );
+end;
+$$;
+
+-- A request and the parts split from it (linked_leave_id), oldest part first.
+-- The parts of a split request are decided, withdrawn and cancelled together.
+create or replace function leave_request_parts(p_leave leave_history)
+returns setof leave_history
+language sql
+stable
+as $$
+  select * from leave_history
+  where id = coalesce(p_leave.linked_leave_id, p_leave.id)
+     or linked_leave_id = coalesce(p_leave.linked_leave_id, p_leave.id)
+  order by linked_leave_id nulls first, id;
+$$;
+
+-- Lock a request and every part of it, always in the same order so two
+-- callers starting from different parts cannot deadlock. Returns the request,
+-- or a row of nulls if there is none.
+create or replace function lock_leave_request(p_leave_id leave_history.id%type)
+returns leave_history
+language plpgsql
+as $$
+declare
+  v_leave leave_history;
+begin
+  select * into v_leave from leave_history where id = p_leave_id;
+  if found then
+    perform 1 from leave_history
+      where id = coalesce(v_leave.linked_leave_id, v_leave.id)
+         or linked_leave_id = coalesce(v_leave.linked_leave_id, v_leave.id)
+      order by id
+      for update;
+    select * into v_leave from leave_history where id = p_leave_id;
+  end if;
+  return v_leave;
+end;
+$$;
+
+-- Submit a new request, or edit a pending one when `p_leave.id` already exists.
+-- A new request always starts pending at its first step. The days charged are
+-- counted here from the dates; `amount` only says whether a single day is a
+-- half day (0.5).
+create or replace function save_leave_request(p_leave jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_new leave_history;
+  v_existing leave_history;
+  v_available numeric;
+begin
+  v_new := jsonb_populate_record(
+    null::leave_history,
+    (
+      select coalesce(jsonb_object_agg(key, value), '{}'::jsonb)
+      from jsonb_each(p_leave)
+      where key in ('id', 'user_id', 'date', 'end_date', 'type', 'timestamp', 'reason', 'linked_leave_id',
+                    'emergency', 'policy_breach', 'approval_steps', 'revisions')
+    )
+  );
+  v_new.end_date := coalesce(v_new.end_date, v_new.date);
+  v_new.status := 'pending';
+  v_new.current_step := 0;
+
+  if v_new.end_date::date < v_new.date::date then
+    return leave_action_result('blocked', 'End date cannot be before start date');
+  end if;
+
+  select * into v_existing from leave_history where id = v_new.id for update;
+  if found then
+    if v_existing.user_id <> v_new.user_id then
+      return leave_action_result('not_found', 'Leave request not found');
+    end if;
+    if v_existing.status <> 'pending' then
+      return leave_action_result('not_pending', 'This request was processed while you were editing it');
+    end if;
+    if (select count(*) from leave_request_parts(v_existing)) > 1 then
+      return leave_action_result('blocked', 'Part of this request is unpaid leave. Withdraw it and submit it again to change it.');
+    end if;
+  end if;
+
+  -- One submission or approval per employee at a time
+  perform 1 from users where id = v_new.user_id for update;
+  if not found then
+    return leave_action_result('not_found', 'User not found');
+  end if;
+
+  v_new.amount := leave_chargeable_days(
+    v_new.user_id, v_new.date::date, v_new.end_date::date, (p_leave ->> 'amount')::numeric = 0.5
+  );
+  if v_new.amount <= 0 then
+    return leave_action_result('blocked', 'The selected dates are all holidays or non-working days');
+  end if;
+
+  -- The first step's SLA counts from now, on a new request and after an edit
+  if jsonb_array_length(v_new.approval_steps) > 0 then
+    v_new.approval_steps := jsonb_set(v_new.approval_steps, '{0,started_at}', to_jsonb(now()));
+  end if;
+
+  if leave_type_tracks_balance(v_new.type) then
+    v_available := leave_available_balance(v_new.user_id, v_new.type, v_new.id);
+    if v_available < v_new.amount then
+      return leave_action_result(
+        'insufficient_balance',
+        format('Insufficient %s leave balance. Available: %s', v_new.type, v_available)
+      );
+    end if;
+  end if;
+
+  if v_existing.id is null then
+    v_new.submitted_at := now();
+    insert into leave_history select v_new.*;
+  else
+    update leave_history set
+      date = v_new.date,
+      end_date = v_new.end_date,
+      amount = v_new.amount,
+      type = v_new.type,
+      reason = v_new.reason,
+      emergency = v_new.emergency,
+      policy_breach = v_new.policy_breach,
+      -- An edited request goes back to the first step
+      approval_steps = v_new.approval_steps,
+      current_step = 0,
+      revisions = v_new.revisions
+    where id = v_new.id;
+  end if;
+
+  return leave_action_result();
+end;
+$$;
+
+-- Submit a request the balance only partly covers. The first working days
+-- the available balance pays for in whole days are requested as the chosen
+-- type, and the rest as unpaid leave under `p_unpaid_id`, linked to the paid
+-- part. Both parts share the approval steps, and both are saved or neither.
+-- The result has the days of each part as `paid_days` and `unpaid_days`.
+create or replace function save_split_leave_request(p_leave jsonb, p_unpaid_id leave_history.id%type)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id leave_history.user_id%type := (p_leave ->> 'user_id')::uuid;
+  v_type text := p_leave ->> 'type';
+  v_dates date[];
+  v_paid integer;
+  v_result jsonb;
+begin
+  if not leave_type_tracks_balance(v_type) then
+    return leave_action_result('blocked', 'Only paid leave can be split');
+  end if;
+
+  perform 1 from users where id = v_user_id for update;
+  if not found then
+    return leave_action_result('not_found', 'User not found');
+  end if;
+
+  v_dates := array(
+    select d from leave_working_dates(
+      (p_leave ->> 'date')::date,
+      coalesce(p_leave ->> 'end_date', p_leave ->> 'date')::date,
+      leave_user_work_week(v_user_id)
+    ) d
+    order by d
+  );
+  -- As splitLeaveRange: only whole days are paid, so 2.5 days pay for 2
+  v_paid := greatest(0, least(
+    floor(leave_available_balance(v_user_id, v_type, null))::integer,
+    coalesce(array_length(v_dates, 1), 0)
+  ));
+
+  begin
+    if v_paid > 0 then
+      v_result := save_leave_request(p_leave || jsonb_build_object('end_date', v_dates[v_paid]));
+      if not (v_result ->> 'success')::boolean then
+        raise exception 'paid part refused';
+      end if;
+    end if;
+
+    if v_paid < coalesce(array_length(v_dates, 1), 0) then
+      v_result := save_leave_request(p_leave || jsonb_build_object(
+        'id', case when v_paid > 0 then to_jsonb(p_unpaid_id) else p_leave -> 'id' end,
+        'date', v_dates[v_paid + 1],
+        'type', 'unpaid',
+        'linked_leave_id', case when v_paid > 0 then p_leave -> 'id' end
+      ));
+      if not (v_result ->> 'success')::boolean then
+        raise exception 'unpaid part refused';
+      end if;
+    end if;
+  exception when raise_exception then
+    -- Nothing of either part is kept
+    return v_result;
+  end;
+
+  return leave_action_result() || jsonb_build_object(
+    'paid_days', coalesce((select amount from leave_history where id = (p_leave ->> 'id')::uuid and type = v_type), 0),
+    'unpaid_days', coalesce((
+      select amount from leave_history
+      where id = case when v_paid > 0 then p_unpaid_id else (p_leave ->> 'id')::uuid end and type = 'unpaid'
+    ), 0)
+  );
+end;
+$$;
+
+-- Record a decision on the step a request is at, which the caller has locked
+-- and checked. A null approver is the SLA approving automatically. Approving
+-- the last step approves the request and deducts the balance; it is refused
+-- if the balance no longer covers it.
+create or replace function apply_leave_decision(
+  p_leave leave_history,
+  p_approver_id leave_history.user_id%type,
+  p_on_behalf_of leave_history.user_id%type,
+  p_approve boolean,
+  p_reason text
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_now timestamptz := now();
+  v_current integer := coalesce(p_leave.current_step, 0);
+  v_steps jsonb := p_leave.approval_steps;
+  v_balance numeric;
+begin
+  if v_steps is not null then
+    v_steps := jsonb_set(v_steps, array[v_current::text], (v_steps -> v_current) || jsonb_strip_nulls(jsonb_build_object(
+      'status', case when p_approve then 'approved' else 'rejected' end,
+      'decided_by', p_approver_id,
+      'decided_by_name', (select name from users where id = p_approver_id),
+      'auto_approved', case when p_approver_id is null then true end,
+      'on_behalf_of', p_on_behalf_of,
+      'on_behalf_of_name', (select name from users where id = p_on_behalf_of),
+      'decided_at', v_now
+    )));
+
+    -- Not the last step: hand the request to the next approver
+    if p_approve and v_current < jsonb_array_length(v_steps) - 1 then
+      v_steps := jsonb_set(v_steps, array[(v_current + 1)::text, 'started_at'], to_jsonb(v_now));
+      update leave_history set approval_steps = v_steps, current_step = v_current + 1 where id = p_leave.id;
+      return leave_action_result();
+    end if;
+  end if;
+
+  if p_approve and leave_type_tracks_balance(p_leave.type) then
+    perform 1 from users where id = p_leave.user_id for update;
+    select coalesce(sum(delta), 0) into v_balance
+      from balance_ledger
+      where user_id = p_leave.user_id and leave_type = p_leave.type;
+
+    if v_balance < p_leave.amount then
+      return leave_action_result('insufficient_balance', 'Insufficient leave balance');
+    end if;
+
+    insert into balance_ledger (user_id, leave_type, delta, kind, reason, leave_id, created_by)
+    values (
+      p_leave.user_id,
+      p_leave.type,
+      -p_leave.amount,
+      'approval',
+      format('Leave approved (%s)', case
+        when p_leave.end_date is not null and p_leave.end_date <> p_leave.date then format('%s to %s', p_leave.date, p_leave.end_date)
+        else p_leave.date::text
+      end),
+      p_leave.id,
+      p_approver_id
+    );
+  end if;
+
+  update leave_history set
+    status = case when p_approve then 'approved' else 'rejected' end,
+    approved_by = p_approver_id,
+    approved_at = v_now,
+    rejection_reason = case when p_approve then null else p_reason end,
+    approved_on_behalf_of = p_on_behalf_of,
+    approval_steps = v_steps
+  where id = p_leave.id;
+
+  return leave_action_result();
+end;
+$$;
+
+revoke execute on function apply_leave_decision(leave_history, uuid, uuid, boolean, text) from public, anon, authenticated;
+
+-- Record the same decision on every pending part of a request the caller has
+-- locked and checked. If one part is refused, e.g. for lack of balance, none
+-- of them is decided.
+create or replace function apply_leave_parts_decision(
+  p_leave leave_history,
+  p_approver_id leave_history.user_id%type,
+  p_on_behalf_of leave_history.user_id%type,
+  p_approve boolean,
+  p_reason text
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_part leave_history;
+  v_result jsonb := leave_action_result();
+begin
+  begin
+    for v_part in select * from leave_request_parts(p_leave) where status = 'pending' loop
+      v_result := apply_leave_decision(v_part, p_approver_id, p_on_behalf_of, p_approve, p_reason);
+      if not (v_result ->> 'success')::boolean then
+        raise exception 'leave part refused';
+      end if;
+    end loop;
+  exception when raise_exception then
+    return v_result;
+  end;
+
+  return v_result;
+end;
+$$;
+
+revoke execute on function apply_leave_parts_decision(leave_history, uuid, uuid, boolean, text) from public, anon, authenticated;
+
+-- Days a request of this type may run before it needs a supporting document,
+-- as requiresAttachment, or null if it never does. Types not yet saved to
+-- leave_types use the built-in rules (DEFAULT_LEAVE_TYPES), which need none.
+create or replace function leave_attachment_threshold(p_type text)
+returns numeric
+language sql
+stable
+as $$
+  select attachment_required_after from leave_types where id = p_type;
+$$;
+
+-- Whether a part of a request needs a supporting document that no part of it has
+create or replace function leave_missing_attachment(p_leave leave_history)
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(p_leave.amount > leave_attachment_threshold(p_leave.type), false)
+    and not exists (
+      select 1 from leave_attachments
+      where leave_id in (select id from leave_request_parts(p_leave))
+    );
+$$;
+
+-- The first day of a request on which approving it would leave fewer of the
+-- team working than a blocking staffing rule allows, as a message, or null.
+-- As findStaffingBreaches: teammates are away on approved leave, or on days
+-- outside their work week.
+create or replace function leave_staffing_breach(p_leave leave_history)
+returns text
+language sql
+stable
+as $$
+  with rule as (
+    select u.reporting_to as manager_id, (r ->> 'min_present')::numeric as min_present
+    from users u, settings s, jsonb_array_elements(s.value) r
+    where u.id = p_leave.user_id and s.key = 'staffing_rules'
+      and r ->> 'manager_id' = u.reporting_to::text and r ->> 'mode' = 'block'
+    limit 1
+  ),
+  team as (
+    select t.id, leave_user_work_week(t.id) as work_week
+    from users t, rule
+    where t.reporting_to = rule.manager_id
+  ),
+  days as (
+    select d, (
+      select count(*) from team
+      where team.id <> p_leave.user_id
+        and extract(dow from d)::integer = any (team.work_week)
+        and not exists (
+          select 1 from leave_history l
+          where l.user_id = team.id and l.status in ('approved', 'cancellation_requested')
+            and d between l.date::date and coalesce(l.end_date, l.date)::date
+        )
+    ) as present
+    from leave_working_dates(
+      p_leave.date::date, coalesce(p_leave.end_date, p_leave.date)::date, leave_user_work_week(p_leave.user_id)
+    ) d
+  )
+  select format(
+    'Approving would leave %s of %s team members working on %s (minimum %s)',
+    days.present, (select count(*) from team), days.d, rule.min_present
+  )
+  from days, rule
+  where days.present < rule.min_present
+  order by days.d
+  limit 1;
+$$;
+
+-- Why an approver may not approve a request yet, or null if they may. Every
+-- pending part is checked, since approving one approves them all.
+create or replace function leave_approval_blocker(p_leave leave_history)
+returns text
+language plpgsql
+stable
+as $$
+declare
+  v_part leave_history;
+  v_breach text;
+begin
+  for v_part in select * from leave_request_parts(p_leave) where status = 'pending' loop
+    if leave_missing_attachment(v_part) then
+      return format(
+        '%s over %s day(s) needs a supporting document before it can be approved',
+        coalesce((select label from leave_types where id = v_part.type), initcap(v_part.type)),
+        leave_attachment_threshold(v_part.type)
+      );
+    end if;
+    v_breach := leave_staffing_breach(v_part);
+    if v_breach is not null then
+      return v_breach;
+    end if;
+  end loop;
+  return null;
+end;
+$$;
+
+-- Approve or reject the step a pending request is at. `p_expected_step` is the
+-- step the approver saw; if someone decided it first the call is refused.
+create or replace function decide_leave_request(
+  p_leave_id leave_history.id%type,
+  p_approver_id leave_history.user_id%type,
+  p_expected_step integer,
+  p_approve boolean,
+  p_reason text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_leave leave_history;
+  v_authority record;
+  v_blocker text;
+begin
+  v_leave := lock_leave_request(p_leave_id);
+  if v_leave.id is null then
+    return leave_action_result('not_found', 'Leave request not found');
+  end if;
+  if v_leave.status <> 'pending' then
+    return leave_action_result('not_pending', 'Leave request already processed');
+  end if;
+  if coalesce(v_leave.current_step, 0) <> p_expected_step then
+    return leave_action_result('step_changed', 'Someone else decided this step first');
+  end if;
+
+  select * into v_authority from leave_check_step_approver(v_leave, p_approver_id);
+  if v_authority.error is not null then
+    return leave_action_result('not_allowed', v_authority.error);
+  end if;
+
+  v_blocker := case when p_approve then leave_approval_blocker(v_leave) end;
+  if v_blocker is not null then
+    return leave_action_result('blocked', v_blocker);
+  end if;
+
+  return apply_leave_parts_decision(v_leave, p_approver_id, v_authority.on_behalf_of, p_approve, p_reason);
+end;
+$$;
+
+-- Why the SLA may not approve a request by itself, or null if it may: the
+-- checks an approver gets in the app, on every pending part.
+create or replace function leave_auto_approval_blocker(p_leave leave_history)
+returns text
+language sql
+stable
+as $$
+  select case
+    when exists (select 1 from leave_request_parts(p_leave) p where p.status = 'pending' and leave_missing_attachment(p))
+      then 'a supporting document is required'
+    when exists (
+        select 1
+        from settings s, jsonb_array_elements(s.value) r, users u
+        where s.key = 'staffing_rules' and u.id = p_leave.user_id
+          and r ->> 'manager_id' = u.reporting_to::text and r ->> 'mode' = 'block'
+      )
+      then 'the team has a blocking minimum-staffing rule'
+  end;
+$$;
+
+-- Move one overdue approval step on according to the approval SLA and record
+-- it on the request: approve it, or hand it to the approver's manager or to
+-- the administrators. Steps that are not overdue are left alone.
+create or replace function escalate_leave_request(p_leave_id leave_history.id%type)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sla jsonb;
+  v_leave leave_history;
+  v_current integer;
+  v_step jsonb;
+  v_waited integer;
+  v_note text;
+  v_result jsonb;
+  v_next users;
+begin
+  select value into v_sla from settings where key = 'approval_sla';
+  if not coalesce((v_sla ->> 'enabled')::boolean, false) then
+    return leave_action_result('not_allowed', 'The approval SLA is off');
+  end if;
+
+  v_leave := lock_leave_request(p_leave_id);
+  if v_leave.id is null then
+    return leave_action_result('not_found', 'Leave request not found');
+  end if;
+  v_current := coalesce(v_leave.current_step, 0);
+  v_step := v_leave.approval_steps -> v_current;
+  if v_leave.status <> 'pending' or v_step is null then
+    return leave_action_result('not_pending', 'Leave request already processed');
+  end if;
+  -- The administrators are the last stop; the SLA only tries once to approve
+  -- a step they hold
+  if v_step ->> 'approver' = 'admin'
+    and (v_sla ->> 'action' <> 'auto_approve' or (v_step ->> 'auto_approve_failed')::boolean) then
+    return leave_action_result('not_allowed', 'This step is already with the administrators');
+  end if;
+
+  -- Working days waited, not counting the day the step became current. Steps
+  -- without a start time (older requests) never wait.
+  select count(*) into v_waited
+  from leave_working_dates(
+    ((v_step ->> 'started_at')::timestamptz at time zone 'utc')::date + 1,
+    (now() at time zone 'utc')::date,
+    leave_default_work_week()
+  );
+  if v_step ->> 'started_at' is null or v_waited < (v_sla ->> 'after_days')::integer then
+    return leave_action_result('not_allowed', 'This step is not overdue');
+  end if;
+
+  if v_sla ->> 'action' = 'auto_approve' then
+    v_note := leave_auto_approval_blocker(v_leave);
+    if v_note is null then
+      v_result := apply_leave_parts_decision(v_leave, null, null, true, null);
+      if (v_result ->> 'success')::boolean then
+        update leave_history set escalations = coalesce(escalations, '[]'::jsonb) || jsonb_build_array(jsonb_strip_nulls(jsonb_build_object(
+          'at', now(), 'step_label', v_step ->> 'label', 'from_name', v_step ->> 'approver_name',
+          'action', 'auto_approved', 'waited_days', v_waited
+        )))
+        where id in (select id from leave_request_parts(v_leave));
+        return v_result;
+      end if;
+      v_note := v_result ->> 'error';
+    end if;
+    v_note := format('Could not be approved automatically: %s', v_note);
+  end if;
+
+  -- Already with the administrators: record why it is still waiting and stop
+  -- trying, rather than failing again on every run
+  if v_step ->> 'approver' = 'admin' then
+    update leave_history set
+      approval_steps = jsonb_set(approval_steps, array[v_current::text, 'auto_approve_failed'], 'true'::jsonb),
+      escalations = coalesce(escalations, '[]'::jsonb) || jsonb_build_array(jsonb_strip_nulls(jsonb_build_object(
+        'at', now(), 'step_label', v_step ->> 'label', 'action', 'escalated', 'waited_days', v_waited, 'note', v_note
+      )))
+    where id in (select id from leave_request_parts(v_leave)) and status = 'pending' and coalesce(current_step, 0) = v_current;
+    return leave_action_result();
+  end if;
+
+  if v_sla ->> 'action' = 'escalate_manager' and v_step ->> 'approver_id' is not null then
+    select u.* into v_next
+    from users a
+    join users u on u.id = a.reporting_to
+    where a.id = (v_step ->> 'approver_id')::uuid and u.id <> v_leave.user_id;
+  end if;
+
+  update leave_history set
+    approval_steps = jsonb_set(
+      approval_steps,
+      array[v_current::text],
+      (v_step - 'approver_id' - 'approver_name') || jsonb_strip_nulls(jsonb_build_object(
+        'approver', case when v_next.id is null then 'admin' else 'user' end,
+        'approver_id', v_next.id,
+        'approver_name', v_next.name,
+        'started_at', now()
+      ))
+    ),
+    escalations = coalesce(escalations, '[]'::jsonb) || jsonb_build_array(jsonb_strip_nulls(jsonb_build_object(
+      'at', now(), 'step_label', v_step ->> 'label', 'from_name', v_step ->> 'approver_name',
+      'to_name', v_next.name, 'action', 'escalated', 'waited_days', v_waited, 'note', v_note
+    )))
+  where id in (select id from leave_request_parts(v_leave)) and status = 'pending' and coalesce(current_step, 0) = v_current;
+
+  return leave_action_result();
+end;
+$$;
+
+-- Approve a comp-off claim and credit the comp-off balance together. The
+-- credit expires after the comp_off_expiry_days setting, if it is set above 0.
+create or replace function approve_comp_off_claim(
+  p_claim_id comp_off_claims.id%type,
+  p_approver_id leave_history.user_id%type
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_claim comp_off_claims;
+  v_authority record;
+  v_expiry_days integer;
+begin
+  select * into v_claim from comp_off_claims where id = p_claim_id for update;
+  if not found then
+    return leave_action_result('not_found', 'Comp-off claim not found');
+  end if;
+  if v_claim.status <> 'pending' then
+    return leave_action_result('not_pending', 'Comp-off claim already processed');
+  end if;
+
+  select * into v_authority from leave_check_line_manager(v_claim.user_id, p_approver_id);
+  if v_authority.error is not null then
+    return leave_action_result('not_allowed', v_authority.error);
+  end if;
+
+  -- DEFAULT_COMP_OFF_EXPIRY_DAYS until an admin saves the setting
+  v_expiry_days := coalesce((select (value #>> '{}')::integer from settings where key = 'comp_off_expiry_days'), 60);
+
+  update comp_off_claims set
+    status = 'approved',
+    approved_by = p_approver_id,
+    approved_at = now(),
+    expires_on = case when v_expiry_days > 0 then v_claim.work_date::date + v_expiry_days end
+  where id = v_claim.id;
+
+  insert into balance_ledger (user_id, leave_type, delta, kind, reason, created_by)
+  values (v_claim.user_id, 'comp_off', v_claim.days, 'comp_off', format('Worked on %s: %s', v_claim.work_date, v_claim.reason), p_approver_id);
+
+  return leave_action_result();
+end;
+$$;
+
+-- Remove what is left of a lapsed comp-off credit, `p_days` of it. Only the
+-- first call for a claim does anything, so concurrent readers cannot expire
+-- the same credit twice.
+create or replace function expire_comp_off_claim(p_claim_id comp_off_claims.id%type, p_days numeric)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_claim comp_off_claims;
+begin
+  update comp_off_claims set expired_days = p_days
+  where id = p_claim_id and status = 'approved' and expired_days is null
+    and expires_on::date < current_date and p_days between 0 and days
+  returning * into v_claim;
+
+  if not found then
+    return leave_action_result('not_pending', 'Comp-off credit already expired');
+  end if;
+
+  if p_days > 0 then
+    insert into balance_ledger (user_id, leave_type, delta, kind, reason)
+    values (v_claim.user_id, 'comp_off', -p_days, 'expiry', format('Comp-off for %s expired on %s', v_claim.work_date, v_claim.expires_on));
+  end if;
+
+  return leave_action_result();
+end;
+$$;
@@ -0,0 +1,135 @@
+-- Cancelling approved leave.
+--
+-- The status change and the credit back of the days happen in one
+-- transaction, with the request locked and its status checked first, so two
+-- clicks or an approver and the employee acting at once cannot credit the
+-- days twice or leave a cancelled request uncredited. Every part of a split
+-- request is cancelled along with it.
+
+-- Mark a request the caller has locked cancelled and credit its days back
+create or replace function complete_leave_cancellation(
+  p_leave leave_history,
+  p_cancelled_by leave_history.user_id%type,
+  p_reason text
+)
+returns void
+language plpgsql
+as $$
+begin
+  update leave_history set
+    status = 'cancelled',
+    cancelled_at = now(),
+    cancellation_reason = coalesce(p_reason, cancellation_reason)
+  where id = p_leave.id;
+
+  if leave_type_tracks_balance(p_leave.type) then
+    insert into balance_ledger (user_id, leave_type, delta, kind, reason, leave_id, created_by)
+    values (
+      p_leave.user_id,
+      p_leave.type,
+      p_leave.amount,
+      'reversal',
+      format('Leave cancelled (%s)', case
+        when p_leave.end_date is not null and p_leave.end_date <> p_leave.date then format('%s to %s', p_leave.date, p_leave.end_date)
+        else p_leave.date::text
+      end),
+      p_leave.id,
+      p_cancelled_by
+    );
+  end if;
+end;
+$$;
+
+revoke execute on function complete_leave_cancellation(leave_history, uuid, text) from public, anon, authenticated;
+
+-- An employee cancels their approved leave before it starts. Under the
+-- 'approval' cancellation policy it goes to their manager instead, or to the
+-- administrators if they have none. The result's `status` is the request's
+-- new status.
+create or replace function cancel_leave_request(
+  p_leave_id leave_history.id%type,
+  p_user_id leave_history.user_id%type,
+  p_reason text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_leave leave_history;
+  v_part leave_history;
+  v_policy text;
+begin
+  v_leave := lock_leave_request(p_leave_id);
+  if v_leave.id is null or v_leave.user_id <> p_user_id then
+    return leave_action_result('not_found', 'Leave request not found');
+  end if;
+  if v_leave.status <> 'approved' then
+    return leave_action_result('not_pending', 'Only approved leave can be cancelled');
+  end if;
+  if (select min(date::date) from leave_request_parts(v_leave)) <= current_date then
+    return leave_action_result('blocked', 'Leave that has already started cannot be cancelled');
+  end if;
+
+  -- DEFAULT_CANCELLATION_POLICY until an admin saves the setting
+  v_policy := coalesce((select value #>> '{}' from settings where key = 'cancellation_policy'), 'approval');
+
+  if v_policy = 'immediate' then
+    for v_part in select * from leave_request_parts(v_leave) where status = 'approved' loop
+      perform complete_leave_cancellation(v_part, p_user_id, p_reason);
+    end loop;
+    return leave_action_result() || jsonb_build_object('status', 'cancelled');
+  end if;
+
+  update leave_history set
+    status = 'cancellation_requested',
+    cancellation_reason = p_reason
+  where id in (select id from leave_request_parts(v_leave)) and status = 'approved';
+
+  return leave_action_result() || jsonb_build_object('status', 'cancellation_requested');
+end;
+$$;
+
+-- The employee's line manager, their delegate or an admin accepts a
+-- cancellation request, crediting the days back, or declines it and the leave
+-- stays approved.
+create or replace function decide_leave_cancellation(
+  p_leave_id leave_history.id%type,
+  p_approver_id leave_history.user_id%type,
+  p_accept boolean
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_leave leave_history;
+  v_part leave_history;
+  v_authority record;
+begin
+  v_leave := lock_leave_request(p_leave_id);
+  if v_leave.id is null then
+    return leave_action_result('not_found', 'Leave request not found');
+  end if;
+  if v_leave.status <> 'cancellation_requested' then
+    return leave_action_result('not_pending', 'Cancellation request already processed');
+  end if;
+
+  select * into v_authority from leave_check_line_manager(v_leave.user_id, p_approver_id);
+  if v_authority.error is not null then
+    return leave_action_result('not_allowed', v_authority.error);
+  end if;
+
+  for v_part in select * from leave_request_parts(v_leave) where status = 'cancellation_requested' loop
+    if p_accept then
+      perform complete_leave_cancellation(v_part, p_approver_id, null);
+    else
+      update leave_history set status = 'approved' where id = v_part.id;
+    end if;
+  end loop;
+
+  return leave_action_result();
+end;
+$$;
@@ -0,0 +1,43 @@
+-- Run the approval SLA on a schedule.
+--
+-- Overdue steps used to be escalated by whichever browser loaded an approval
+-- queue next, so nothing moved while nobody was signed in, and every open
+-- queue raced to do it. pg_cron now runs it hourly in the database.
+
+-- Escalate or auto-approve every overdue approval step. Each request is
+-- handled by escalate_leave_request, which skips steps that are not overdue.
+create or replace function escalate_stale_requests()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_leave_id leave_history.id%type;
+begin
+  if not coalesce((select (value ->> 'enabled')::boolean from settings where key = 'approval_sla'), false) then
+    return;
+  end if;
+
+  for v_leave_id in
+    select id from leave_history
+    where status = 'pending' and approval_steps is not null
+    order by id
+  loop
+    -- One bad request must not hold up the rest
+    begin
+      perform escalate_leave_request(v_leave_id);
+    exception when others then
+      raise warning 'Could not escalate leave request %: %', v_leave_id, sqlerrm;
+    end;
+  end loop;
+end;
+$$;
+
+-- Only the schedule moves steps on now
+revoke execute on function escalate_stale_requests() from public, anon, authenticated;
+revoke execute on function escalate_leave_request(uuid) from public, anon, authenticated;
+
+create extension if not exists pg_cron;
+
+select cron.schedule('escalate-stale-leave-requests', '0 * * * *', 'select escalate_stale_requests()');
@@ -1,24 +1,220 @@
-export type LeaveType = 'casual' | 'sick' | 'annual';
-export type LeaveStatus = 'pending' | 'approved' | 'rejected';
+// Leave types are admin-managed; this is the `id` of a LeaveTypeConfig in the catalog
+export type LeaveType = string;
+export type LeaveStatus =
+  | 'pending'
+  | 'approved'
+  | 'rejected'
+  | 'cancelled' // Withdrawn while pending, or cancelled after approval
+  | 'cancellation_requested'; // Approved leave the employee wants to cancel, awaiting the approver
+
+// Whether cancelling an approved leave needs the approver's sign-off
+export type CancellationPolicy = 'immediate' | 'approval';
+
+// Palette keys that map to Tailwind classes in LEAVE_TYPE_COLORS
+export type LeaveTypeColor = 'blue' | 'red' | 'green' | 'purple' | 'amber' | 'teal' | 'pink' | 'slate';
+
+export interface LeaveTypeConfig {
+  id: LeaveType; // short slug, e.g. 'annual', 'hajj'
+  label: string;
+  color: LeaveTypeColor;
+  default_entitlement: number; // Days granted on enrollment
+  accrual_rate: number; // Days credited per month by the accrual run, 0 = none
+  carry_forward_max: number | null; // Days kept at year end; null = all, 0 = balance expires
+  year_start_grant: boolean; // Credit default_entitlement when a new leave year opens
+  attachment_required_after: number | null; // Requests longer than this many days need a document; null = never
+  min_notice_days: number | null; // Days ahead the leave must be requested; null = any time
+  max_backdate_days: number | null; // How far in the past leave may start; null = no limit
+  sort_order: number;
+}
 
 export interface LeaveRecord {
   id: string;
-  date: string; // ISO date string YYYY-MM-DD
-  amount: number; // 0.5, 1, 2 etc.
+  date: string; // Start date, ISO date string YYYY-MM-DD
+  end_date?: string; // Last day of the leave (inclusive); same as date for single-day requests
+  amount: number; // Days charged, calculated from the date range (0.5 for a half day)
   type: LeaveType;
   timestamp: number;
+  submitted_at?: string; // ISO timestamp the request was submitted; unset on older requests
   status: LeaveStatus;
   approved_by?: string; // User ID who approved
   approved_at?: string; // ISO timestamp
   rejection_reason?: string;
+  cancelled_at?: string; // ISO timestamp
+  cancellation_reason?: string;
+  reason?: string; // Employee's note to the approver
+  linked_leave_id?: string; // Paid request this unpaid part was split from
+  emergency?: boolean; // Submitted despite breaking the type's notice or backdating rule
+  policy_breach?: string; // The rule an emergency request broke, for the approver
+  approval_steps?: LeaveApprovalStep[]; // Approval chain; unset on requests made before chains existed
+  current_step?: number; // Index into approval_steps of the step awaiting a decision
+  approved_on_behalf_of?: string; // Manager whose delegate approved or rejected the request
+  escalations?: LeaveEscalation[]; // Times the approval SLA moved the request on, oldest first
+  revisions?: LeaveRevision[]; // Earlier versions of a pending request, oldest first
+}
+
+// Snapshot of a pending request taken when the employee edits it
+export interface LeaveRevision {
+  date: string;
+  end_date: string;
+  amount: number;
+  type: LeaveType;
+  reason?: string;
+  edited_at: string; // ISO timestamp when this version was replaced
+}
+
+// Supporting document uploaded for a leave request, e.g. a medical certificate
+export interface LeaveAttachment {
+  id: string;
+  leave_id: string;
+  user_id: string;
+  file_name: string;
+  content_type: string;
+  size: number; // Bytes
+  path: string; // Location in attachment storage
+  uploaded_at: string;
+}
+
+// Message on a request's thread, from the employee or an approver
+export interface LeaveComment {
+  id: string;
+  leave_id: string;
+  author_id: string;
+  author_name?: string; // Resolved for display
+  body: string;
+  created_at: string;
+}
+
+// Dates when some leave types cannot be requested, e.g. quarter-end or a launch
+export interface BlackoutPeriod {
+  id: string;
+  start_date: string;
+  end_date: string; // Inclusive
+  leave_types: LeaveType[]; // Empty = every type
+  manager_ids: string[]; // Teams in scope, by manager
+  user_ids: string[]; // Employees in scope; no teams and no employees = everyone
+  message: string; // Shown to employees who pick these dates
+}
+
+// Admin exception letting one employee request leave during a blackout
+export interface BlackoutOverride {
+  id: string;
+  blackout_id: string;
+  user_id: string;
+  user_name?: string; // Resolved for display
+  reason: string;
+  created_by: string;
+  created_at: string;
+}
+
+// Who decides one step of an approval chain: the requester's line manager,
+// any admin, or a named user (e.g. the HR lead)
+export type ApprovalStepApprover = 'manager' | 'admin' | 'user';
+
+export interface ApprovalStepConfig {
+  label: string; // e.g. 'Line manager', 'HR'
+  approver: ApprovalStepApprover;
+  user_id?: string; // When approver is 'user'
+}
+
+// Ordered approval steps for requests matching a leave type and length
+export interface ApprovalChain {
+  id: string;
+  name: string;
+  leave_types: LeaveType[]; // Empty = every type
+  min_days: number | null; // Only requests longer than this; null = any length
+  steps: ApprovalStepConfig[];
+}
+
+// One step of a request's chain, with the decision once it is made
+export interface LeaveApprovalStep {
+  label: string;
+  approver: ApprovalStepApprover;
+  approver_id?: string; // Assigned approver; unset when any admin can decide
+  approver_name?: string;
+  status: 'pending' | 'approved' | 'rejected';
+  decided_by?: string;
+  decided_by_name?: string;
+  on_behalf_of?: string; // Approver the decider stood in for as a delegate
+  on_behalf_of_name?: string;
+  decided_at?: string; // ISO timestamp
+  auto_approved?: boolean; // Approved by the SLA because no one decided in time
+  started_at?: string; // ISO timestamp the step became current; the SLA counts from here
+  auto_approve_failed?: boolean; // The SLA could not approve this administrators' step and stopped trying
+}
+
+// What happens to a request whose current approval step has waited too long
+export type ApprovalSlaAction = 'escalate_manager' | 'escalate_hr' | 'auto_approve';
+
+export interface ApprovalSlaPolicy {
+  enabled: boolean;
+  after_days: number; // Working days a step may wait for a decision
+  action: ApprovalSlaAction;
+}
+
+// Recorded on a request each time the approval SLA moves it on
+export interface LeaveEscalation {
+  at: string; // ISO timestamp
+  step_label: string;
+  from_name?: string; // Approver who did not respond
+  to_name?: string; // New approver; unset when any admin can decide
+  action: 'escalated' | 'auto_approved';
+  waited_days: number; // Working days the step had waited
+  note?: string; // e.g. why an auto-approval went to the administrators instead
+}
+
+// A manager's approvals handed to someone else while they are away
+export interface ApprovalDelegation {
+  id: string;
+  manager_id: string;
+  manager_name?: string;
+  delegate_id: string;
+  delegate_name?: string;
+  start_date: string;
+  end_date: string; // Last day of the delegation (inclusive)
+  created_by: string;
+  created_at: string;
+}
+
+// Minimum number of a manager's reportees who must be working on any day
+export interface StaffingRule {
+  manager_id: string;
+  min_present: number;
+  mode: 'warn' | 'block'; // Warn the approver, or refuse approvals that breach it
+}
+
+// Another reportee's leave shown next to a request being approved
+export interface TeamAbsence {
+  leave_id: string;
+  user_id: string;
+  user_name: string;
+  date: string;
+  end_date: string;
+  amount: number;
+  type: LeaveType;
+  status: LeaveStatus;
+}
+
+// Who is off in a manager's team over a period, and what counts as a working day
+export interface TeamAvailability {
+  team_size: number;
+  rule: StaffingRule | null;
+  absences: TeamAbsence[];
+  holidays: string[];
+  work_weeks: Record<string, WorkWeek>; // Per reportee
 }
 
-export interface UserBalance {
-  casual: number;
-  sick: number;
-  annual: number;
+// Day on which too few reportees would be working
+export interface StaffingBreach {
+  date: string;
+  present: number;
 }
 
+// Working weekdays, 0 = Sunday ... 6 = Saturday
+export type WorkWeek = number[];
+
+// Balance per leave type id; types without a row are treated as 0
+export type UserBalance = Record<LeaveType, number>;
+
 export interface User {
   id: string;
   name: string;
@@ -29,6 +225,98 @@ export interface User {
   history: LeaveRecord[];
   reporting_to?: string; // User ID of manager
   manager_name?: string; // Populated when fetched
+  is_manager?: boolean; // Has reportees, so approves their team's requests; separate from the admin role
+  work_week?: WorkWeek; // Falls back to the company default when not set
+  joining_date?: string; // ISO date string YYYY-MM-DD, used to pro-rate entitlements
+}
+
+// How a pro-rated entitlement is rounded
+export type ProrationRounding = 'none' | 'half_day' | 'nearest' | 'up' | 'down';
+
+export type LedgerEntryKind =
+  | 'grant' // Initial or yearly entitlement
+  | 'accrual' // Monthly accrual run
+  | 'approval' // Leave approved, days deducted
+  | 'reversal' // Deducted days credited back
+  | 'adjustment' // Manual edit by an admin
+  | 'year_end' // Carry-forward limit / expiry at year end
+  | 'comp_off' // Approved comp-off claim
+  | 'expiry'; // Unused comp-off credit lapsed
+
+// One balance movement; a user's balance per type is the sum of their entries
+export interface LedgerEntry {
+  id: string;
+  user_id: string;
+  leave_type: LeaveType;
+  delta: number; // Positive credits, negative debits
+  kind: LedgerEntryKind;
+  reason: string;
+  leave_id?: string; // Related leave_history record
+  period?: string; // YYYY-MM for accruals; (user_id, leave_type, period) is unique
+  created_at: string; // ISO timestamp
+  created_by?: string; // User ID who made the change
+  created_by_name?: string; // Populated when fetched
+}
+
+export interface AccrualRunResult {
+  period: string;
+  credited: number; // Accrual rows written by this run
+  skipped: number; // Already credited for the period
+  errors: string[];
+}
+
+// Effect of the year-end close on one employee's balance for one leave type
+export interface YearEndPreviewRow {
+  user_id: string;
+  user_name: string;
+  leave_type: LeaveType;
+  current: number; // Balance at the end of the year being closed
+  carried: number;
+  expired: number;
+  granted: number;
+  new_balance: number;
+}
+
+// Request to earn leave for working a weekend or holiday
+export interface CompOffClaim {
+  id: string;
+  user_id: string;
+  work_date: string; // ISO date string YYYY-MM-DD of the day worked
+  days: number; // 1, or 0.5 for half a day
+  reason: string;
+  status: 'pending' | 'approved' | 'rejected';
+  timestamp: number;
+  approved_by?: string;
+  approved_at?: string;
+  rejection_reason?: string;
+  expires_on?: string; // Last day the credit can be used; not set = never expires
+  expired_days?: number; // Unused days removed when the credit lapsed
+}
+
+export interface PendingCompOffClaim extends CompOffClaim {
+  user_name: string;
+  user_email: string;
+}
+
+// An approved claim and how much of it is still unused
+export interface CompOffCredit {
+  claim: CompOffClaim;
+  remaining: number;
+}
+
+// Approved unpaid leave for one employee within a month, for payroll
+export interface UnpaidLeaveReportRow {
+  user_id: string;
+  user_name: string;
+  user_email: string;
+  days: number;
+  dates: string[]; // Chargeable dates within the month
+}
+
+export interface Holiday {
+  id: string;
+  date: string; // ISO date string YYYY-MM-DD
+  name: string;
 }
 
 export interface AuthState {
@@ -40,4 +328,62 @@ export interface PendingLeaveRequest extends LeaveRecord {
   user_id: string;
   user_name: string;
   user_email: string;
+  user_reporting_to: string | null;
+  attachments: LeaveAttachment[];
+  unpaid_part?: Pick<LeaveRecord, 'id' | 'date' | 'end_date' | 'amount' | 'type'>; // Split off for lack of balance; decided with this request
+  delegated_from?: string; // Manager whose queue this comes from, when the viewer is their delegate
+  delegated_from_name?: string;
+}
+
+// Why a leave submission or decision was refused, so the UI can react without
+// parsing the message. The database functions in supabase/migrations return
+// all but 'failed', which is the call itself failing.
+export type LeaveActionErrorCode =
+  | 'not_found'
+  | 'not_pending' // Already approved, rejected or withdrawn
+  | 'step_changed' // Someone else decided the current step first
+  | 'insufficient_balance'
+  | 'not_allowed' // Not this user's decision to make
+  | 'blocked' // A leave rule stops it, e.g. a missing document or minimum staffing
+  | 'failed'; // The database call itself failed
+
+// Outcome for one request of a bulk approve or reject
+export interface BulkDecisionResult {
+  leave_id: string;
+  success: boolean;
+  error?: string;
+  code?: LeaveActionErrorCode;
+  next_step?: string; // Set when approval passed the request to another step
+  note_error?: string; // Set when the request was approved but the note could not be posted
+}
+
+// One approve or reject decision on a leave request, for the approver's audit trail
+export interface ApprovalDecision {
+  leave_id: string;
+  user_id: string;
+  user_name: string;
+  type: LeaveType;
+  date: string;
+  end_date: string;
+  amount: number;
+  status: LeaveStatus; // Where the request stands now
+  outcome: 'approved' | 'rejected';
+  step_label?: string; // Set when the request went through an approval chain
+  decided_by?: string; // Unset when the approval deadline approved it automatically
+  decided_by_name?: string;
+  on_behalf_of?: string; // Manager a delegate decided for
+  on_behalf_of_name?: string;
+  auto_approved?: boolean;
+  decided_at: string; // ISO timestamp
+  waiting_since?: string; // ISO timestamp the decision became due: submission, or the start of its step. Unknown for older requests
+  rejection_reason?: string;
+}
+
+export interface ApprovalDecisionFilters {
+  approver_id?: string; // Admins only; everyone else sees their own decisions
+  user_id?: string;
+  type?: LeaveType;
+  outcome?: 'approved' | 'rejected';
+  from?: string; // Decision date range, YYYY-MM-DD inclusive
+  to?: string;
 }
\ No newline at end of file
@@ -0,0 +1,93 @@
+// Helpers for routing leave requests through approval chains
+
+import { ApprovalChain, ApprovalStepConfig, LeaveApprovalStep, LeaveRecord, LeaveType, User } from '../types';
+
+type ChainProgress = Pick<LeaveRecord, 'approval_steps' | 'current_step'>;
+
+/**
+ * First chain that covers a request, or null if the default single step applies.
+ * A chain matches when the type is one of its types (or it lists none) and the
+ * request is longer than its minimum length (if it has one).
+ */
+export const findApprovalChain = (chains: ApprovalChain[], type: LeaveType, days: number): ApprovalChain | null => {
+  return chains.find(c =>
+    (c.leave_types.length === 0 || c.leave_types.includes(type)) && (c.min_days === null || days > c.min_days)
+  ) || null;
+};
+
+/**
+ * Turn configured steps into a request's steps, assigning each to a person.
+ * A manager step for someone with no manager goes to the administrators.
+ */
+export const buildApprovalSteps = (
+  configs: ApprovalStepConfig[],
+  managerId: string | null | undefined,
+  users: Pick<User, 'id' | 'name'>[]
+): LeaveApprovalStep[] => {
+  return configs.map(config => {
+    const approverId = config.approver === 'manager' ? managerId || undefined
+      : config.approver === 'user' ? config.user_id
+      : undefined;
+    return {
+      label: config.label,
+      approver: approverId ? config.approver : 'admin',
+      approver_id: approverId,
+      approver_name: approverId ? users.find(u => u.id === approverId)?.name : undefined,
+      status: 'pending'
+    };
+  });
+};
+
+/**
+ * The step waiting for a decision, or null once the chain is finished
+ */
+export const getCurrentStep = (record: ChainProgress): LeaveApprovalStep | null => {
+  if (!record.approval_steps) return null;
+  return record.approval_steps[record.current_step || 0] || null;
+};
+
+/**
+ * Whether a user may decide a step
+ */
+export const canDecideStep = (step: LeaveApprovalStep, user: Pick<User, 'id' | 'role'>): boolean => {
+  return step.approver_id ? step.approver_id === user.id : user.role === 'admin';
+};
+
+/**
+ * Whether a pending request is waiting for this user. Requests from before
+ * chains existed go to the requester's line manager.
+ */
+export const isAwaitingApprover = (
+  record: ChainProgress,
+  user: Pick<User, 'id' | 'role'>,
+  requesterManagerId: string | null | undefined
+): boolean => {
+  if (!record.approval_steps) return requesterManagerId === user.id;
+  const step = getCurrentStep(record);
+  return !!step && canDecideStep(step, user);
+};
+
+/**
+ * Short description of who a step belongs to, e.g. "HR (Jane Doe)"
+ */
+export const describeStep = (step: LeaveApprovalStep): string => {
+  const who = step.approver_name || (step.approver === 'admin' ? 'any administrator' : '');
+  return who ? `${step.label} (${who})` : step.label;
+};
+
+/**
+ * Hours between a decision falling due and being made
+ */
+export const getTurnaroundHours = (from: string, to: string): number => {
+  return Math.max(0, (new Date(to).getTime() - new Date(from).getTime()) / 3600000);
+};
+
+/**
+ * Turnaround in hours as a short label, e.g. "3h" or "2d 4h"
+ */
+export const formatTurnaround = (turnaroundHours: number): string => {
+  const hours = Math.round(turnaroundHours);
+  if (hours < 1) return 'under 1h';
+  if (hours < 24) return `${hours}h`;
+  return hours % 24 === 0 ? `${hours / 24}d` : `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
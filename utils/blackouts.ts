@@ -0,0 +1,33 @@
+// Helpers for blackout periods, when some leave cannot be requested
+
+import { BlackoutPeriod, LeaveType, User } from '../types';
+
+/**
+ * Whether a blackout covers this employee and leave type
+ */
+export const blackoutApplies = (
+  period: BlackoutPeriod,
+  user: Pick<User, 'id' | 'reporting_to'>,
+  type: LeaveType
+): boolean => {
+  const everyone = period.manager_ids.length === 0 && period.user_ids.length === 0;
+  const inScope = everyone
+    || period.user_ids.includes(user.id)
+    || (!!user.reporting_to && period.manager_ids.includes(user.reporting_to));
+  return inScope && (period.leave_types.length === 0 || period.leave_types.includes(type));
+};
+
+/**
+ * Blackouts that a request for these dates would fall into, with the dates affected
+ */
+export const findBlackoutConflicts = (
+  periods: BlackoutPeriod[],
+  user: Pick<User, 'id' | 'reporting_to'>,
+  type: LeaveType,
+  dates: string[]
+): { period: BlackoutPeriod; dates: string[] }[] => {
+  return periods
+    .filter(p => blackoutApplies(p, user, type))
+    .map(period => ({ period, dates: dates.filter(d => d >= period.start_date && d <= period.end_date) }))
+    .filter(c => c.dates.length > 0);
+};
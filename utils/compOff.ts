@@ -0,0 +1,25 @@
+// Helpers for comp-off credits earned by working weekends and holidays
+
+import { CompOffClaim, CompOffCredit } from '../types';
+
+// Credits without an expiry sort after every real date
+const expiryOf = (claim: CompOffClaim) => claim.expires_on || '9999-12-31';
+
+/**
+ * Split a comp-off balance across the approved credits that have not lapsed.
+ * Leave taken is charged to the credits that expire first, so whatever balance
+ * is left belongs to the credits that expire last.
+ */
+export const allocateCompOffBalance = (claims: CompOffClaim[], balance: number): CompOffCredit[] => {
+  let left = Math.max(balance, 0);
+
+  return claims
+    .filter(c => c.status === 'approved' && c.expired_days === undefined)
+    .sort((a, b) => expiryOf(b).localeCompare(expiryOf(a)))
+    .map(claim => {
+      const remaining = Math.min(claim.days, left);
+      left -= remaining;
+      return { claim, remaining };
+    })
+    .reverse();
+};
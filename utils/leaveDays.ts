@@ -0,0 +1,136 @@
+// Date range helpers for multi-day leave requests
+
+import { LeaveRecord, WorkWeek } from '../types';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Parse YYYY-MM-DD as a UTC date so day arithmetic is not affected by DST
+const parseDate = (date: string): Date => new Date(`${date}T00:00:00Z`);
+
+const formatDate = (date: Date): string => date.toISOString().split('T')[0];
+
+/**
+ * Today's date (or another moment's) in the user's time zone, as YYYY-MM-DD.
+ * "Today" is always the user's calendar day, not the UTC one.
+ */
+export const getLocalDate = (date: Date = new Date()): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Date that is `days` after a YYYY-MM-DD date
+ */
+export const addDays = (date: string, days: number): string => {
+  return formatDate(new Date(parseDate(date).getTime() + days * DAY_MS));
+};
+
+/**
+ * Calendar days from one date to another; negative when `to` is earlier
+ */
+export const daysBetween = (from: string, to: string): number => {
+  return Math.round((parseDate(to).getTime() - parseDate(from).getTime()) / DAY_MS);
+};
+
+/**
+ * Day of the week for a YYYY-MM-DD date, 0 = Sunday
+ */
+export const getWeekday = (date: string): number => parseDate(date).getUTCDay();
+
+/**
+ * List every date from start to end (inclusive) as YYYY-MM-DD strings
+ */
+export const eachDateInRange = (start: string, end: string): string[] => {
+  const dates: string[] = [];
+  const last = parseDate(end).getTime();
+  for (let t = parseDate(start).getTime(); t <= last; t += DAY_MS) {
+    dates.push(formatDate(new Date(t)));
+  }
+  return dates;
+};
+
+export interface LeaveDayOptions {
+  halfDay?: boolean;
+  holidays?: string[]; // YYYY-MM-DD dates that are never charged
+  workWeek?: WorkWeek; // Weekdays that are charged; all days when omitted
+}
+
+/**
+ * List the dates in a range that are charged against the balance
+ */
+export const getChargeableDates = (start: string, end: string, options: LeaveDayOptions = {}): string[] => {
+  if (!start || !end || end < start) return [];
+  const holidays = new Set(options.holidays || []);
+  const workWeek = options.workWeek ? new Set(options.workWeek) : null;
+  return eachDateInRange(start, end).filter(d =>
+    !holidays.has(d) && (!workWeek || workWeek.has(getWeekday(d)))
+  );
+};
+
+/**
+ * Calculate how many days a request is charged
+ * A single-day request can be a half day (0.5); holidays and non-working days count as 0
+ */
+export const calculateLeaveDays = (start: string, end: string, options: LeaveDayOptions = {}): number => {
+  const days = getChargeableDates(start, end, options).length;
+  if (options.halfDay && days === 1 && start === end) return 0.5;
+  return days;
+};
+
+/**
+ * Split a request into a paid part covering the first `paidDays` chargeable
+ * days and an unpaid part for the rest. Only whole days are paid, so a
+ * balance of 2.5 pays for 2 days.
+ */
+export const splitLeaveRange = (start: string, end: string, paidDays: number, options: LeaveDayOptions = {}) => {
+  const dates = getChargeableDates(start, end, options);
+  const paidCount = Math.max(0, Math.min(Math.floor(paidDays), dates.length));
+
+  return {
+    paid: paidCount > 0
+      ? { date: start, end_date: dates[paidCount - 1], amount: calculateLeaveDays(start, dates[paidCount - 1], options) }
+      : null,
+    unpaid: paidCount < dates.length
+      ? { date: dates[paidCount], end_date: end, amount: calculateLeaveDays(dates[paidCount], end, options) }
+      : null
+  };
+};
+
+/**
+ * End date of a record; records created before ranges existed only have `date`
+ */
+export const getEndDate = (record: Pick<LeaveRecord, 'date' | 'end_date'>): string => {
+  return record.end_date || record.date;
+};
+
+/**
+ * Human readable date or date range for a record
+ */
+export const formatLeaveDates = (record: Pick<LeaveRecord, 'date' | 'end_date'>): string => {
+  const end = getEndDate(record);
+  return end === record.date ? record.date : `${record.date} → ${end}`;
+};
+
+// Share of a day a record takes on each of its dates
+const dayShare = (record: Pick<LeaveRecord, 'date' | 'end_date' | 'amount'>): number =>
+  record.amount === 0.5 && getEndDate(record) === record.date ? 0.5 : 1;
+
+/**
+ * Existing leave that a new request would double-book, with the dates that
+ * clash. A working day holds at most one full day of leave, so two half days
+ * on the same date fit together but a half day and a full day do not.
+ */
+export const findOverlappingLeave = <T extends Pick<LeaveRecord, 'date' | 'end_date' | 'amount'>>(
+  candidate: Pick<LeaveRecord, 'date' | 'end_date' | 'amount'>,
+  existing: T[],
+  options: LeaveDayOptions = {}
+): { record: T; dates: string[] }[] => {
+  const covers = (record: T, date: string) => date >= record.date && date <= getEndDate(record);
+  const clashes = getChargeableDates(candidate.date, getEndDate(candidate), options).filter(date =>
+    existing.reduce((sum, r) => sum + (covers(r, date) ? dayShare(r) : 0), dayShare(candidate)) > 1
+  );
+
+  return existing
+    .map(record => ({ record, dates: clashes.filter(d => covers(record, d)) }))
+    .filter(o => o.dates.length > 0);
+};
@@ -0,0 +1,131 @@
+// Helpers for looking up leave types in the admin-managed catalog
+
+import { LeaveTypeConfig, LeaveType, ProrationRounding } from '../types';
+import { LEAVE_TYPE_COLORS, UNPAID_LEAVE_TYPE } from '../constants';
+import { daysBetween } from './leaveDays';
+
+/**
+ * Find a leave type by id, falling back to a neutral entry for ids that are
+ * no longer in the catalog (e.g. history records of a deleted type)
+ */
+export const findLeaveType = (types: LeaveTypeConfig[], id: LeaveType): LeaveTypeConfig => {
+  return types.find(t => t.id === id) || {
+    id,
+    label: `${id.charAt(0).toUpperCase()}${id.slice(1)} Leave`,
+    color: 'slate',
+    default_entitlement: 0,
+    accrual_rate: 0,
+    carry_forward_max: null,
+    year_start_grant: false,
+    attachment_required_after: null,
+    min_notice_days: null,
+    max_backdate_days: null,
+    sort_order: Number.MAX_SAFE_INTEGER
+  };
+};
+
+/**
+ * Get the Tailwind classes and chart color for a leave type
+ */
+export const getLeaveTypeStyle = (types: LeaveTypeConfig[], id: LeaveType) => {
+  return LEAVE_TYPE_COLORS[findLeaveType(types, id).color] || LEAVE_TYPE_COLORS.slate;
+};
+
+/**
+ * Build a balance map with an entry for every type in the catalog
+ */
+export const buildDefaultBalance = (types: LeaveTypeConfig[]): Record<LeaveType, number> => {
+  return types.reduce((acc, t) => ({ ...acc, [t.id]: t.default_entitlement }), {} as Record<LeaveType, number>);
+};
+
+/**
+ * Whether a leave type is charged against a balance; unpaid leave is not
+ */
+export const tracksBalance = (type: LeaveTypeConfig | LeaveType): boolean => {
+  return (typeof type === 'string' ? type : type.id) !== UNPAID_LEAVE_TYPE;
+};
+
+/**
+ * Whether a request of this many days needs a supporting document
+ */
+export const requiresAttachment = (type: LeaveTypeConfig, days: number): boolean => {
+  return type.attachment_required_after !== null && days > type.attachment_required_after;
+};
+
+/**
+ * The notice or backdating rule a request starting on `start` would break,
+ * as a message, or null if it keeps to the type's rules
+ */
+export const checkNoticePolicy = (type: LeaveTypeConfig, start: string, today: string): string | null => {
+  const lead = daysBetween(today, start);
+  if (lead < 0 && type.max_backdate_days !== null && -lead > type.max_backdate_days) {
+    return `${type.label} can be backdated by at most ${type.max_backdate_days} day(s); this started ${-lead} day(s) ago`;
+  }
+  if (type.min_notice_days !== null && lead < type.min_notice_days) {
+    return lead < 0
+      ? `${type.label} must be requested ${type.min_notice_days} day(s) ahead and cannot be backdated`
+      : `${type.label} must be requested ${type.min_notice_days} day(s) ahead; this starts in ${lead} day(s)`;
+  }
+  return null;
+};
+
+/**
+ * Turn a label into a leave type id, e.g. "Hajj Leave" -> "hajj"
+ */
+export const slugifyLeaveType = (label: string): string => {
+  return label
+    .toLowerCase()
+    .replace(/\bleave\b/g, '')
+    .trim()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+};
+
+/**
+ * Round a pro-rated number of days using the company rounding rule
+ */
+export const roundEntitlement = (days: number, rounding: ProrationRounding): number => {
+  switch (rounding) {
+    case 'half_day': return Math.round(days * 2) / 2;
+    case 'nearest': return Math.round(days);
+    case 'up': return Math.ceil(days);
+    case 'down': return Math.floor(days);
+    default: return Math.round(days * 100) / 100;
+  }
+};
+
+/**
+ * Pro-rate a yearly entitlement by the months left in the joining year.
+ * The joining month counts in full, so someone joining on 15 October gets
+ * 3/12 of the entitlement for that year.
+ */
+export const prorateEntitlement = (entitlement: number, joiningDate: string, rounding: ProrationRounding) => {
+  const months = 12 - (Number(joiningDate.slice(5, 7)) - 1);
+  const exact = entitlement * months / 12;
+
+  return {
+    months,
+    exact,
+    days: months === 12 ? entitlement : roundEntitlement(exact, rounding)
+  };
+};
+
+/**
+ * Apply a leave type's year-end rules to a closing balance
+ * Negative balances are carried as-is so the debt is not forgiven.
+ * `entitlement` overrides the new year's grant, e.g. when it is pro-rated.
+ */
+export const calculateYearEnd = (type: LeaveTypeConfig, balance: number, entitlement = type.default_entitlement) => {
+  const carried = type.carry_forward_max === null || balance <= 0
+    ? balance
+    : Math.min(balance, type.carry_forward_max);
+  const expired = balance - carried;
+  const granted = type.year_start_grant ? entitlement : 0;
+
+  return {
+    carried,
+    expired,
+    granted,
+    new_balance: carried + granted
+  };
+};
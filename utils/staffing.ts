@@ -0,0 +1,41 @@
+// Helpers for checking team staffing while approving leave
+
+import { LeaveRecord, TeamAbsence, TeamAvailability, StaffingBreach } from '../types';
+import { getChargeableDates, getEndDate, getWeekday } from './leaveDays';
+
+type Request = Pick<LeaveRecord, 'id' | 'date' | 'end_date'> & { user_id: string };
+
+/**
+ * Other reportees' leave that falls within a request's dates
+ */
+export const findTeamAbsences = (request: Request, absences: TeamAbsence[]): TeamAbsence[] => {
+  const end = getEndDate(request);
+  return absences.filter(a =>
+    a.leave_id !== request.id && a.user_id !== request.user_id && a.date <= end && a.end_date >= request.date
+  );
+};
+
+/**
+ * Working days of a request on which fewer reportees than the team minimum
+ * would be in if it were approved. Only approved leave counts as away;
+ * pending requests may still be rejected. Reportees whose work week does not
+ * include a day are not in either.
+ */
+export const findStaffingBreaches = (request: Request, team: TeamAvailability): StaffingBreach[] => {
+  if (!team.rule) return [];
+
+  const others = findTeamAbsences(request, team.absences).filter(a => a.status !== 'pending');
+  const teammates = Object.keys(team.work_weeks).filter(id => id !== request.user_id);
+  return getChargeableDates(request.date, getEndDate(request), {
+    holidays: team.holidays,
+    workWeek: team.work_weeks[request.user_id]
+  })
+    .map(date => {
+      const away = new Set(others.filter(a => date >= a.date && date <= a.end_date).map(a => a.user_id));
+      for (const id of teammates) {
+        if (!team.work_weeks[id].includes(getWeekday(date))) away.add(id);
+      }
+      return { date, present: team.team_size - away.size - 1 };
+    })
+    .filter(day => day.present < team.rule!.min_present);
+};
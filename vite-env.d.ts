@@ -3,9 +3,12 @@
 interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string
   readonly VITE_SUPABASE_ANON_KEY: string
+  readonly VITE_ATTACHMENT_STORAGE?: 'supabase' | 'local'
+  readonly VITE_STORAGE_URL?: string
+  readonly VITE_STORAGE_KEY?: string
   // Add more env variables here as needed
 }
 
 interface ImportMeta {
   readonly env: ImportMetaEnv
-}
\ No newline at end of file
+}
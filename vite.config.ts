@@ -1,15 +1,158 @@
+import crypto from 'crypto';
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { ServerResponse } from 'http';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { MAX_ATTACHMENT_BYTES } from './constants';
+import { getLocalDate } from './utils/leaveDays';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp'
+};
+
+// Serves /local-storage/* from a folder so attachments work without Supabase storage.
+// Like a private Supabase bucket: writes and deletes need the signed-in user's
+// id (checked against the users table) and only touch their own folder, and
+// files are read through short-lived signed URLs, given only to the employee
+// who made the request, its approvers and their delegates, and admins.
+const SIGNED_URL_SECONDS = 3600;
+
+const localAttachmentStorage = (dir: string, env: Record<string, string>): Plugin => {
+  const secret = crypto.randomBytes(32);
+  const sign = (file: string, expires: number) =>
+    crypto.createHmac('sha256', secret).update(`${file}:${expires}`).digest('hex');
+
+  const select = async (table: string, query: string): Promise<any[]> => {
+    const response = await fetch(
+      `${env.VITE_SUPABASE_URL}/rest/v1/${table}?${query}`,
+      { headers: { apikey: env.VITE_SUPABASE_ANON_KEY, Authorization: `Bearer ${env.VITE_SUPABASE_ANON_KEY}` } }
+    );
+    if (!response.ok) throw new Error(`Failed to read ${table}`);
+    return response.json();
+  };
+
+  const findUser = async (userId: string): Promise<{ id: string; role: string; reporting_to: string | null } | undefined> =>
+    (await select('users', `select=id,role,reporting_to&id=eq.${encodeURIComponent(userId)}`))[0];
+
+  // Whether a user may open a document of a request, as addLeaveComment decides who may comment
+  const mayRead = async (user: { id: string; role: string }, ownerId: string, leaveId: string) => {
+    const [leave] = await select('leave_history', `select=user_id,approval_steps&id=eq.${encodeURIComponent(leaveId)}`);
+    if (!leave || leave.user_id !== ownerId) return false;
+    if (user.role === 'admin' || user.id === ownerId) return true;
+
+    const today = getLocalDate();
+    const [owner, delegations] = await Promise.all([
+      findUser(ownerId),
+      select('approval_delegations', `select=manager_id&delegate_id=eq.${encodeURIComponent(user.id)}&start_date=lte.${today}&end_date=gte.${today}`)
+    ]);
+    const approvers = [owner?.reporting_to, ...(leave.approval_steps || []).map((step: any) => step.approver_id)];
+    return approvers.some(id => id && (id === user.id || delegations.some(d => d.manager_id === id)));
+  };
+
+  const fail = (res: ServerResponse, status: number) => {
+    res.statusCode = status;
+    res.end();
+  };
+
+  return {
+    name: 'local-attachment-storage',
+    configureServer(server) {
+      server.middlewares.use('/local-storage', async (req, res) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        let relative: string;
+        try {
+          relative = path.normalize(decodeURIComponent(url.pathname));
+        } catch {
+          return fail(res, 400);
+        }
+        const file = path.join(dir, relative);
+        if (!file.startsWith(dir + path.sep)) return fail(res, 400);
+        // Files are kept as <uploader id>/<leave id>/<file> (see uploadLeaveAttachment)
+        const [ownerId, leaveId] = relative.split(path.sep).filter(Boolean);
+
+        if (req.method === 'GET' || req.method === 'HEAD') {
+          const expires = Number(url.searchParams.get('expires'));
+          const token = url.searchParams.get('token') || '';
+          const expected = sign(relative, expires);
+          if (!(expires > Date.now() / 1000) || token.length !== expected.length
+            || !crypto.timingSafeEqual(Buffer.from(token), Buffer.from(expected))) {
+            return fail(res, 403);
+          }
+          if (!fs.existsSync(file)) return fail(res, 404);
+          res.setHeader('Content-Type', CONTENT_TYPES[path.extname(file).toLowerCase()] || 'application/octet-stream');
+          fs.createReadStream(file).pipe(res);
+          return;
+        }
+
+        const userId = String(req.headers['x-user-id'] || '');
+        let user: Awaited<ReturnType<typeof findUser>>;
+        try {
+          user = userId ? await findUser(userId) : undefined;
+          if (!user) return fail(res, 401);
+
+          if (req.method === 'POST' && url.searchParams.has('sign')) {
+            if (!leaveId || !(await mayRead(user, ownerId, leaveId))) return fail(res, 403);
+            const expires = Math.floor(Date.now() / 1000) + SIGNED_URL_SECONDS;
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({ expires, token: sign(relative, expires) }));
+            return;
+          }
+        } catch {
+          return fail(res, 502);
+        }
+
+        if (ownerId !== userId) return fail(res, 403);
+
+        if (req.method === 'PUT') {
+          if (Number(req.headers['content-length']) > MAX_ATTACHMENT_BYTES) return fail(res, 413);
+
+          fs.mkdirSync(path.dirname(file), { recursive: true });
+          const out = fs.createWriteStream(file);
+          let received = 0;
+          req.on('data', (chunk: Buffer) => {
+            received += chunk.length;
+            if (received > MAX_ATTACHMENT_BYTES && !out.destroyed) {
+              // Sent without a length, or a false one: stop writing and drop the rest
+              req.unpipe(out);
+              out.destroy();
+              req.resume();
+              fs.rm(file, { force: true }, () => fail(res, 413));
+            }
+          });
+          req.pipe(out)
+            .on('finish', () => res.end())
+            .on('error', () => fail(res, 500));
+        } else if (req.method === 'DELETE') {
+          fs.rm(file, { force: true }, () => res.end());
+        } else {
+          fail(res, 405);
+        }
+      });
+    }
+  };
+};
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const localFolder = env.VITE_ATTACHMENT_STORAGE === 'local';
     return {
       server: {
         port: 3000,
-        host: '0.0.0.0',
+        // Local attachment storage is for development on this machine only
+        host: localFolder ? 'localhost' : '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        ...(localFolder
+          ? [localAttachmentStorage(path.resolve(__dirname, env.LOCAL_STORAGE_DIR || 'uploads'), env)]
+          : [])
+      ],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)